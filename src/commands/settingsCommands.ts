@@ -49,13 +49,18 @@ export class SettingsCommands {
         const keys = [
             'inlayHints.routes.enabled',
             'codeLens.controller.enabled',
+            'codeLens.controller.showUnrouted',
             'routes.showMiddleware',
             'routes.showParameters',
             'inlayHints.style',
+            'routes.source',
+            'routes.phpCommand',
+            'routes.routeListFile',
             'completion.models.enabled',
             'completion.views.enabled',
             'completion.requests.enabled',
             'completion.translations.enabled',
+            'completion.routes.enabled',
             'validation.enabled',
             'validation.showDescriptions',
             'validation.smartSuggestions',
@@ -224,6 +229,15 @@ export class SettingsCommands {
                                  onclick="toggleSetting('codeLens.controller.enabled', this)"></div>
                         </div>
 
+                        <div class="setting-row">
+                            <div class="setting-label">
+                                <div class="setting-title">Unrouted Method CodeLens</div>
+                                <div class="setting-description">Offer "Add route" above public controller methods without a route</div>
+                            </div>
+                            <div class="toggle-switch ${config.get('codeLens.controller.showUnrouted', true) ? 'active' : ''}" 
+                                 onclick="toggleSetting('codeLens.controller.showUnrouted', this)"></div>
+                        </div>
+
                         <div class="setting-row">
                             <div class="setting-label">
                                 <div class="setting-title">Show Middleware</div>
@@ -243,6 +257,18 @@ export class SettingsCommands {
                                 <option value="detailed" ${config.get('inlayHints.style') === 'detailed' ? 'selected' : ''}>Detailed</option>
                             </select>
                         </div>
+
+                        <div class="setting-row">
+                            <div class="setting-label">
+                                <div class="setting-title">Route Source</div>
+                                <div class="setting-description">Where the route table is loaded from</div>
+                            </div>
+                            <select onchange="updateSetting('routes.source', this.value)">
+                                <option value="static" ${config.get('routes.source') === 'static' ? 'selected' : ''}>Route files</option>
+                                <option value="artisan" ${config.get('routes.source') === 'artisan' ? 'selected' : ''}>php artisan route:list</option>
+                                <option value="file" ${config.get('routes.source') === 'file' ? 'selected' : ''}>JSON file</option>
+                            </select>
+                        </div>
                     </div>
 
                     <div class="section">
@@ -283,6 +309,15 @@ export class SettingsCommands {
                             <div class="toggle-switch ${config.get('completion.translations.enabled', true) ? 'active' : ''}" 
                                  onclick="toggleSetting('completion.translations.enabled', this)"></div>
                         </div>
+
+                        <div class="setting-row">
+                            <div class="setting-label">
+                                <div class="setting-title">Route Name Completion</div>
+                                <div class="setting-description">Auto-complete route names in route() and redirects</div>
+                            </div>
+                            <div class="toggle-switch ${config.get('completion.routes.enabled', true) ? 'active' : ''}" 
+                                 onclick="toggleSetting('completion.routes.enabled', this)"></div>
+                        </div>
                     </div>
 
                     <div class="section">
@@ -12,6 +12,9 @@ import {
     EnhancedRouteInlayProvider,
     EnhancedControllerCodeLensProvider,
     RouteHoverProvider,
+    RouteNameCompletionProvider,
+    RouteParameterCompletionProvider,
+    RouteSignatureHelpProvider,
     RouteCommands
 } from './providers/enhancedRouteInlayProvider';
 import { 
@@ -21,6 +24,7 @@ import {
     LaravelRequestCompletionProvider,
     EnhancedModelCompletionProvider,
     RequestFieldCodeActionProvider,
+    RequestMessageDiagnosticsProvider,
     RequestFieldCommands
 } from './providers/requestCompletionProvider';
 import {
@@ -35,6 +39,14 @@ import {
 import { SettingsCommands } from './commands/settingsCommands';
 import { ConfigCompletionProvider } from './providers/configCompletionProvider';
 import { LaravelDefinitionProvider } from './providers/definitionProvider';
+import { RouteDiagnosticsProvider, RouteCodeActionProvider } from './providers/routeDiagnostics';
+import { RouteTreeProvider, RouteTreeCommands } from './providers/routeTreeProvider';
+import { MiddlewareProvider, MiddlewareCompletionProvider } from './providers/middlewareProvider';
+import { RouteRequestGenerator, RouteRequestCommands } from './providers/routeRequestGenerator';
+import { RouteRenameProvider } from './providers/routeRenameProvider';
+import { OpenApiGenerator, OpenApiCommands } from './providers/openApiGenerator';
+import { RouteReferenceIndex, RouteReferenceProvider } from './providers/routeReferenceProvider';
+import { ControllerRouteCommands } from './providers/controllerRouteCommands';
 
 let definitionProvider: LaravelDefinitionProvider | undefined;
 let configCompletionProvider: ConfigCompletionProvider | undefined;
@@ -44,6 +56,9 @@ let intelligentCompletionProvider: LaravelIntelligentCompletionProvider | undefi
 let requestCompletionProvider: LaravelRequestCompletionProvider | undefined;
 let validationCompletionProvider: LaravelValidationCompletionProvider | undefined;
 let validationDiagnosticsProvider: ValidationDiagnosticsProvider | undefined;
+let routeDiagnosticsProvider: RouteDiagnosticsProvider | undefined;
+let requestMessageDiagnosticsProvider: RequestMessageDiagnosticsProvider | undefined;
+let routeReferenceIndex: RouteReferenceIndex | undefined;
 
 export function activate(context: vscode.ExtensionContext) {
     const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
@@ -57,18 +72,28 @@ export function activate(context: vscode.ExtensionContext) {
     // Initialize all providers
     configCompletionProvider = new ConfigCompletionProvider(workspaceRoot);
     translationProvider = new TranslationProvider(workspaceRoot);
-    routeInlayProvider = new EnhancedRouteInlayProvider(workspaceRoot);
-    intelligentCompletionProvider = new LaravelIntelligentCompletionProvider(workspaceRoot);
+    const middlewareProvider = new MiddlewareProvider(workspaceRoot);
+    routeInlayProvider = new EnhancedRouteInlayProvider(workspaceRoot, middlewareProvider);
+    intelligentCompletionProvider = new LaravelIntelligentCompletionProvider(workspaceRoot, routeInlayProvider);
     requestCompletionProvider = new LaravelRequestCompletionProvider(workspaceRoot);
     validationCompletionProvider = new LaravelValidationCompletionProvider(workspaceRoot);
     definitionProvider = new LaravelDefinitionProvider(
         workspaceRoot,
         configCompletionProvider,
-        translationProvider
+        translationProvider,
+        routeInlayProvider,
+        middlewareProvider
     );
 
     // Initialize validation diagnostics provider
     validationDiagnosticsProvider = new ValidationDiagnosticsProvider(validationCompletionProvider);
+
+    // Initialize FormRequest messages() and attributes() diagnostics
+    requestMessageDiagnosticsProvider = new RequestMessageDiagnosticsProvider();
+
+    // Initialize route diagnostics provider
+    routeDiagnosticsProvider = new RouteDiagnosticsProvider(routeInlayProvider, workspaceRoot);
+    routeReferenceIndex = new RouteReferenceIndex();
     
     // Create enhanced model completion provider
     const enhancedModelProvider = new EnhancedModelCompletionProvider(
@@ -80,6 +105,24 @@ export function activate(context: vscode.ExtensionContext) {
     ArtisanCommands.register(context);
     TranslationCommands.register(context, translationProvider);
     RouteCommands.register(context, routeInlayProvider);
+    RouteTreeCommands.register(
+        context,
+        new RouteTreeProvider(routeInlayProvider, workspaceRoot, context.workspaceState),
+        routeInlayProvider
+    );
+    RouteRequestCommands.register(
+        context,
+        new RouteRequestGenerator(routeInlayProvider, requestCompletionProvider),
+        routeInlayProvider,
+        workspaceRoot
+    );
+    OpenApiCommands.register(
+        context,
+        new OpenApiGenerator(routeInlayProvider, requestCompletionProvider, workspaceRoot),
+        routeInlayProvider,
+        workspaceRoot
+    );
+    ControllerRouteCommands.register(context, routeInlayProvider, workspaceRoot);
     RequestFieldCommands.register(context, requestCompletionProvider);
     ValidationCommands.register(context, validationCompletionProvider);
     SettingsCommands.register(context);
@@ -106,6 +149,51 @@ export function activate(context: vscode.ExtensionContext) {
             '"', "'", '`'
         ),
         
+        // Route name completion
+        vscode.languages.registerCompletionItemProvider(
+            { scheme: 'file', language: 'php' },
+            new RouteNameCompletionProvider(routeInlayProvider),
+            '"', "'", '`', '.'
+        ),
+
+        vscode.languages.registerCompletionItemProvider(
+            { scheme: 'file', pattern: '**/*.blade.php' },
+            new RouteNameCompletionProvider(routeInlayProvider),
+            '"', "'", '`', '.'
+        ),
+
+        // Middleware alias and group completion
+        vscode.languages.registerCompletionItemProvider(
+            { scheme: 'file', language: 'php' },
+            new MiddlewareCompletionProvider(middlewareProvider),
+            '"', "'"
+        ),
+
+        // Route parameter keys and signature help
+        vscode.languages.registerCompletionItemProvider(
+            { scheme: 'file', language: 'php' },
+            new RouteParameterCompletionProvider(routeInlayProvider),
+            '[', '"', "'", ','
+        ),
+
+        vscode.languages.registerCompletionItemProvider(
+            { scheme: 'file', pattern: '**/*.blade.php' },
+            new RouteParameterCompletionProvider(routeInlayProvider),
+            '[', '"', "'", ','
+        ),
+
+        vscode.languages.registerSignatureHelpProvider(
+            { scheme: 'file', language: 'php' },
+            new RouteSignatureHelpProvider(routeInlayProvider),
+            '(', ',', '['
+        ),
+
+        vscode.languages.registerSignatureHelpProvider(
+            { scheme: 'file', pattern: '**/*.blade.php' },
+            new RouteSignatureHelpProvider(routeInlayProvider),
+            '(', ',', '['
+        ),
+        
         // Enhanced model and request completion for PHP files
         vscode.languages.registerCompletionItemProvider(
             { scheme: 'file', language: 'php' },
@@ -130,7 +218,7 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.languages.registerCompletionItemProvider(
             { scheme: 'file', language: 'php' },
             validationCompletionProvider,
-            '"', "'", '|', ','
+            '"', "'", '|', ',', ':', '>'
         ),
 
         // Config completion for PHP files
@@ -207,9 +295,9 @@ export function activate(context: vscode.ExtensionContext) {
         // Request field code actions
         vscode.languages.registerCodeActionsProvider(
             { scheme: 'file', language: 'php' },
-            new RequestFieldCodeActionProvider(requestCompletionProvider),
+            new RequestFieldCodeActionProvider(requestCompletionProvider, validationCompletionProvider),
             {
-                providedCodeActionKinds: [vscode.CodeActionKind.Refactor]
+                providedCodeActionKinds: [vscode.CodeActionKind.Refactor, vscode.CodeActionKind.QuickFix]
             }
         ),
         
@@ -224,6 +312,45 @@ export function activate(context: vscode.ExtensionContext) {
                     vscode.CodeActionKind.SourceOrganizeImports
                 ]
             }
+        ),
+
+        // Route diagnostics quick fixes
+        vscode.languages.registerCodeActionsProvider(
+            { scheme: 'file', language: 'php' },
+            new RouteCodeActionProvider(routeInlayProvider),
+            {
+                providedCodeActionKinds: [vscode.CodeActionKind.QuickFix]
+            }
+        ),
+
+        vscode.languages.registerCodeActionsProvider(
+            { scheme: 'file', pattern: '**/*.blade.php' },
+            new RouteCodeActionProvider(routeInlayProvider),
+            {
+                providedCodeActionKinds: [vscode.CodeActionKind.QuickFix]
+            }
+        ),
+
+        // Route name rename across declarations and usages
+        vscode.languages.registerRenameProvider(
+            { scheme: 'file', language: 'php' },
+            new RouteRenameProvider(routeInlayProvider)
+        ),
+
+        vscode.languages.registerRenameProvider(
+            { scheme: 'file', pattern: '**/*.blade.php' },
+            new RouteRenameProvider(routeInlayProvider)
+        ),
+
+        // Route name and controller action references
+        vscode.languages.registerReferenceProvider(
+            { scheme: 'file', language: 'php' },
+            new RouteReferenceProvider(routeInlayProvider, routeReferenceIndex)
+        ),
+
+        vscode.languages.registerReferenceProvider(
+            { scheme: 'file', pattern: '**/*.blade.php' },
+            new RouteReferenceProvider(routeInlayProvider, routeReferenceIndex)
         )
     );
     
@@ -687,4 +814,13 @@ export function deactivate() {
     if (validationDiagnosticsProvider) {
         validationDiagnosticsProvider.dispose();
     }
+    if (routeDiagnosticsProvider) {
+        routeDiagnosticsProvider.dispose();
+    }
+    if (requestMessageDiagnosticsProvider) {
+        requestMessageDiagnosticsProvider.dispose();
+    }
+    if (routeReferenceIndex) {
+        routeReferenceIndex.dispose();
+    }
 }
\ No newline at end of file
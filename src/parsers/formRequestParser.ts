@@ -0,0 +1,181 @@
+import { RouteCallParser } from './routeCallParser';
+
+// Rules that never fail on their own, so no message is ever shown for them
+const SILENT_RULES = ['bail', 'sometimes', 'nullable', 'exclude', 'exclude_if', 'exclude_unless', 'exclude_with', 'exclude_without'];
+
+export class FormRequestParser {
+    /**
+     * The array literal returned by a method such as rules(), messages() or attributes()
+     */
+    static findReturnedArray(text: string, method: string): ReturnedArray | undefined {
+        const methodMatch = new RegExp(`function\\s+${method}\\s*\\([^)]*\\)[^{;]*\\{`).exec(text);
+        if (!methodMatch) return undefined;
+
+        const bodyStart = methodMatch.index + methodMatch[0].length;
+        const { end: bodyEnd } = RouteCallParser.splitArguments(text, bodyStart - 1);
+        const returnMatch = /return\s*\[/g;
+        returnMatch.lastIndex = bodyStart;
+        const match = returnMatch.exec(text);
+        if (!match || match.index > bodyEnd) return undefined;
+
+        const open = match.index + match[0].length - 1;
+        const { arguments: elements, end } = RouteCallParser.splitArguments(text, open);
+        const entries: ArrayEntry[] = [];
+        let dynamic = false;
+
+        elements.forEach(element => {
+            if (element.text.trim() === '') return;
+
+            const keyMatch = element.text.match(/^(\s*)(['"])([^'"]*)\2\s*=>\s*/);
+            if (!keyMatch) {
+                // Spreads, merged arrays or computed keys hide entries from the parser
+                dynamic = true;
+                return;
+            }
+
+            entries.push({
+                key: keyMatch[3],
+                keyOffset: element.offset + keyMatch[1].length + 1,
+                value: element.text.substring(keyMatch[0].length).trimEnd(),
+                valueOffset: element.offset + keyMatch[0].length,
+                start: element.offset + keyMatch[1].length,
+                end: element.offset + element.text.trimEnd().length
+            });
+        });
+
+        return {
+            methodOffset: methodMatch.index,
+            methodEnd: bodyEnd,
+            open,
+            close: end,
+            closed: end < text.length,
+            entries,
+            dynamic
+        };
+    }
+
+    /**
+     * Rule names used by a rules() value, as they appear in message keys ('max:255' => 'max').
+     * Rules hidden behind variables or helper calls make the list incomplete.
+     */
+    static getRuleNames(value: string): { names: string[]; complete: boolean } {
+        const names: string[] = [];
+        const trimmed = value.trim();
+        let complete = true;
+
+        const addString = (literal: string) => literal.split('|')
+            .map(rule => rule.split(':')[0].trim())
+            .filter(rule => rule && !names.includes(rule))
+            .forEach(rule => names.push(rule));
+
+        const literal = trimmed.match(/^(['"])([^'"]*)\1$/);
+        if (literal) {
+            addString(literal[2]);
+            return { names, complete };
+        }
+        if (!trimmed.startsWith('[')) {
+            return { names, complete: false };
+        }
+
+        RouteCallParser.splitArrayElements(trimmed).forEach(element => {
+            const item = element.trim();
+            const stringMatch = item.match(/^(['"])([^'"]*)\1$/);
+
+            if (stringMatch) {
+                addString(stringMatch[2]);
+            } else if (/^new\s/.test(item) || /^(?:static\s+)?(?:function|fn)\b/.test(item)) {
+                // Rule classes and closures report their own messages
+            } else {
+                // Rule::requiredIf(...) fails with the required_if message
+                const ruleObject = item.match(/^\\?(?:Illuminate\\Validation\\)?Rule::(\w+)\s*\(/);
+                if (ruleObject) {
+                    const name = ruleObject[1].replace(/([a-z])([A-Z])/g, '$1_$2').toLowerCase();
+                    if (!names.includes(name)) names.push(name);
+                } else if (item) {
+                    // Password:: and File:: expand to string rules such as min or mimes, variables
+                    // and helper calls hide theirs
+                    complete = false;
+                }
+            }
+        });
+
+        return { names, complete };
+    }
+
+    /**
+     * Fields declared in rules() with the rules that can produce a message
+     */
+    static getDeclaredFields(rules: ReturnedArray): DeclaredField[] {
+        return rules.entries.map(entry => {
+            const { names, complete } = this.getRuleNames(entry.value);
+            return { field: entry.key, rules: names.filter(rule => !SILENT_RULES.includes(rule)), complete };
+        });
+    }
+
+    /**
+     * Split a messages() key into its field and rule, preferring the longest declared field
+     * so that nested keys such as 'address.city.required' resolve to 'address.city'
+     */
+    static splitMessageKey(key: string, fields: DeclaredField[]): { field?: string; rule: string } {
+        const dot = key.lastIndexOf('.');
+        if (dot === -1) {
+            // A bare rule name applies to every field
+            return { rule: key };
+        }
+
+        const declared = fields
+            .map(field => field.field)
+            .filter(field => key.startsWith(`${field}.`) && key.length > field.length + 1)
+            .sort((a, b) => b.length - a.length)[0];
+
+        return declared
+            ? { field: declared, rule: key.substring(declared.length + 1) }
+            : { field: key.substring(0, dot), rule: key.substring(dot + 1) };
+    }
+
+    /**
+     * Whether a field in messages() or attributes() refers to a declared field, either side may use * wildcards
+     */
+    static matchesField(key: string, field: string): boolean {
+        return key === field || this.matchesWildcard(key, field) || this.matchesWildcard(field, key);
+    }
+
+    static isSilentRule(rule: string): boolean {
+        return SILENT_RULES.includes(rule);
+    }
+
+    private static matchesWildcard(pattern: string, value: string): boolean {
+        if (!pattern.includes('*')) return false;
+        const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+        return new RegExp(`^${source}$`).test(value);
+    }
+}
+
+export interface ReturnedArray {
+    methodOffset: number;
+    // Offset of the closing brace of the method
+    methodEnd: number;
+    // Offsets of the brackets of the returned array
+    open: number;
+    close: number;
+    closed: boolean;
+    entries: ArrayEntry[];
+    // Set when some entries could not be read
+    dynamic: boolean;
+}
+
+export interface ArrayEntry {
+    key: string;
+    keyOffset: number;
+    value: string;
+    valueOffset: number;
+    start: number;
+    end: number;
+}
+
+export interface DeclaredField {
+    field: string;
+    rules: string[];
+    // False when some rules come from variables or helper calls
+    complete: boolean;
+}
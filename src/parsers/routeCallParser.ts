@@ -0,0 +1,324 @@
+export class RouteCallParser {
+    // route('x'), to_route('x'), redirect()->route('x'), Redirect::route('x'), URL::route('x')
+    private static readonly CALL_PATTERN = /(?<![\w>:$])(?:to_)?route\s*\(|(?:redirect\s*\(\s*\)\s*->|Redirect::|URL::|url\s*\(\s*\)\s*->)route\s*\(/g;
+    // Route::is('x'), request()->routeIs('x', 'y'), Route::has('x'), URL::signedRoute('x')
+    // action([C::class, 'm']), to_action(...), redirect()->action(...), URL::action(...)
+    private static readonly ACTION_PATTERN = /(?<![\w>:$])(?:to_)?action\s*\(|(?:redirect\s*\(\s*\)\s*->|Redirect::|URL::|url\s*\(\s*\)\s*->)action\s*\(/g;
+    private static readonly NAME_CHECK_PATTERN = /(?:->routeIs|->named|Route::(?:is|has|currentRouteNamed)|URL::(?:signedRoute|temporarySignedRoute))\s*\(/g;
+
+    /**
+     * Find every route helper call with a literal route name
+     */
+    static findAllCalls(text: string): RouteCall[] {
+        const calls: RouteCall[] = [];
+        const pattern = new RegExp(this.CALL_PATTERN.source, 'g');
+        let match;
+
+        while ((match = pattern.exec(text)) !== null) {
+            const call = this.parseCall(text, match.index + match[0].length - 1);
+            if (call) {
+                calls.push(call);
+            }
+        }
+
+        return calls;
+    }
+
+    /**
+     * Find every literal route name: helper calls plus Route::is(), routeIs() and signed URL checks
+     */
+    static findNameReferences(text: string): RouteNameReference[] {
+        const references: RouteNameReference[] = this.findAllCalls(text)
+            .map(call => ({ name: call.name, offset: call.nameStart, kind: 'call' as const }));
+
+        const pattern = new RegExp(this.NAME_CHECK_PATTERN.source, 'g');
+        let match;
+        while ((match = pattern.exec(text)) !== null) {
+            const { arguments: args } = this.splitArguments(text, match.index + match[0].length - 1);
+            const signed = /signedRoute/i.test(match[0]);
+
+            // Wildcard patterns such as routeIs('admin.*') are not names and are left alone
+            (signed ? args.slice(0, 1) : args).forEach(argument => {
+                const literal = argument.text.match(/^(\s*)(['"])([^'"$*]+)\2\s*$/);
+                if (literal) {
+                    references.push({
+                        name: literal[3],
+                        offset: argument.offset + literal[1].length + 1,
+                        kind: signed ? 'call' : 'check'
+                    });
+                }
+            });
+        }
+
+        return references.sort((a, b) => a.offset - b.offset);
+    }
+
+    /**
+     * Find every controller action passed to action() and its variants
+     */
+    static findActionReferences(text: string): RouteActionReference[] {
+        const references: RouteActionReference[] = [];
+        const pattern = new RegExp(this.ACTION_PATTERN.source, 'g');
+        let match;
+
+        while ((match = pattern.exec(text)) !== null) {
+            const { arguments: args } = this.splitArguments(text, match.index + match[0].length - 1);
+            const argument = args[0];
+            if (!argument) continue;
+
+            // [PostController::class, 'show']
+            const arrayAction = argument.text.match(/^(\s*\[\s*\\?([\w\\]+)::class\s*,\s*)(['"])(\w+)\3\s*\]\s*$/);
+            if (arrayAction) {
+                references.push({
+                    controller: arrayAction[2].split('\\').pop()!,
+                    method: arrayAction[4],
+                    offset: argument.offset + arrayAction[1].length + 1,
+                    length: arrayAction[4].length
+                });
+                continue;
+            }
+
+            // 'PostController@show'
+            const stringAction = argument.text.match(/^(\s*)(['"])\\?([\w\\]+)@(\w+)\2\s*$/);
+            if (stringAction) {
+                references.push({
+                    controller: stringAction[3].split('\\').pop()!,
+                    method: stringAction[4],
+                    offset: argument.offset + stringAction[1].length + 1,
+                    length: stringAction[3].length + stringAction[4].length + 1
+                });
+                continue;
+            }
+
+            // Invokable controller: ShowDashboard::class
+            const invokable = argument.text.match(/^(\s*)(\\?[\w\\]+)::class\s*$/);
+            if (invokable) {
+                references.push({
+                    controller: invokable[2].split('\\').pop()!,
+                    method: '__invoke',
+                    offset: argument.offset + invokable[1].length,
+                    length: invokable[2].length + '::class'.length
+                });
+            }
+        }
+
+        return references;
+    }
+
+    /**
+     * Find the route helper call whose argument list contains the offset
+     */
+    static findEnclosingCall(text: string, offset: number): RouteCall | undefined {
+        const calls = this.findAllCalls(text);
+
+        for (let i = calls.length - 1; i >= 0; i--) {
+            const call = calls[i];
+            if (call.argumentsStart <= offset && offset <= call.argumentsEnd) {
+                return call;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Parse the arguments of the call whose opening parenthesis is at openParen
+     */
+    static parseCall(text: string, openParen: number): RouteCall | undefined {
+        const { arguments: args, end } = this.splitArguments(text, openParen);
+
+        // Only literal names can be resolved, "{$prefix}.show" is built at runtime
+        const nameMatch = args[0].text.match(/^(\s*)(['"])([^'"$]+)\2\s*$/);
+        if (!nameMatch) {
+            return undefined;
+        }
+
+        return {
+            name: nameMatch[3],
+            nameStart: args[0].offset + nameMatch[1].length + 1,
+            argumentsStart: openParen + 1,
+            argumentsEnd: end,
+            closed: end < text.length,
+            arguments: args
+        };
+    }
+
+    /**
+     * Split the top-level arguments of a call, end is the offset of the closing parenthesis
+     */
+    static splitArguments(text: string, openParen: number): { arguments: RouteCallArgument[]; end: number } {
+        const args: RouteCallArgument[] = [];
+        let depth = 0;
+        let argumentStart = openParen + 1;
+        let index = openParen + 1;
+
+        while (index < text.length) {
+            const char = text[index];
+
+            if (char === '\'' || char === '"') {
+                index = this.skipString(text, index);
+                continue;
+            }
+
+            if (char === '(' || char === '[' || char === '{') {
+                depth++;
+            } else if (char === ')' || char === ']' || char === '}') {
+                if (depth === 0) break;
+                depth--;
+            } else if (char === ',' && depth === 0) {
+                args.push({ text: text.substring(argumentStart, index), offset: argumentStart });
+                argumentStart = index + 1;
+            }
+
+            index++;
+        }
+
+        args.push({ text: text.substring(argumentStart, index), offset: argumentStart });
+        return { arguments: args, end: index };
+    }
+
+    /**
+     * Index of the argument that contains the offset
+     */
+    static getArgumentIndex(call: RouteCall, offset: number): number {
+        for (let i = call.arguments.length - 1; i >= 0; i--) {
+            if (offset >= call.arguments[i].offset) {
+                return i;
+            }
+        }
+        return 0;
+    }
+
+    /**
+     * Keys and positional values passed in the parameters argument.
+     * Returns undefined when the argument is not an array literal and cannot be inspected.
+     */
+    static getProvidedParameters(argument: string | undefined): ProvidedParameters | undefined {
+        if (argument === undefined || argument.trim() === '') {
+            return { keys: [], positional: 0 };
+        }
+
+        const trimmed = argument.trim();
+        if (!trimmed.startsWith('[')) {
+            return undefined;
+        }
+
+        const elements = this.splitArrayElements(trimmed);
+        const keys: string[] = [];
+        let positional = 0;
+
+        elements.forEach(element => {
+            const keyMatch = element.match(/^\s*(['"])([^'"]+)\1\s*=>/);
+            if (keyMatch) {
+                keys.push(keyMatch[2]);
+            } else if (element.trim().length > 0) {
+                positional++;
+            }
+        });
+
+        return { keys, positional };
+    }
+
+    /**
+     * Split the top-level elements of an array literal, the closing bracket may be missing while typing
+     */
+    static splitArrayElements(arrayText: string): string[] {
+        const elements: string[] = [];
+        let depth = 0;
+        let elementStart = 1;
+        let index = 1;
+
+        while (index < arrayText.length) {
+            const char = arrayText[index];
+
+            if (char === '\'' || char === '"') {
+                index = this.skipString(arrayText, index);
+                continue;
+            }
+
+            if (char === '(' || char === '[' || char === '{') {
+                depth++;
+            } else if (char === ')' || char === ']' || char === '}') {
+                if (depth === 0) break;
+                depth--;
+            } else if (char === ',' && depth === 0) {
+                elements.push(arrayText.substring(elementStart, index));
+                elementStart = index + 1;
+            }
+
+            index++;
+        }
+
+        elements.push(arrayText.substring(elementStart, index));
+        return elements;
+    }
+
+    /**
+     * Split URI placeholders like {post}, {comment?} or {user:slug} into their parts
+     */
+    static parseUriParameters(parameters: string[]): UriParameter[] {
+        return parameters.map(parameter => {
+            const optional = parameter.endsWith('?');
+            const [name, bindingField] = parameter.replace(/\?$/, '').split(':');
+            return { name, optional, bindingField };
+        });
+    }
+
+    private static skipString(text: string, start: number): number {
+        const quote = text[start];
+        let index = start + 1;
+
+        while (index < text.length) {
+            if (text[index] === '\\') {
+                index += 2;
+                continue;
+            }
+            if (text[index] === quote) {
+                return index + 1;
+            }
+            index++;
+        }
+
+        return text.length;
+    }
+}
+
+export interface RouteCall {
+    name: string;
+    nameStart: number;
+    argumentsStart: number;
+    argumentsEnd: number;
+    closed: boolean;
+    arguments: RouteCallArgument[];
+}
+
+export interface RouteNameReference {
+    name: string;
+    // Offset of the first character of the name, inside the quotes
+    offset: number;
+    kind: 'call' | 'check';
+}
+
+export interface RouteActionReference {
+    // Short class name of the controller
+    controller: string;
+    method: string;
+    offset: number;
+    length: number;
+}
+
+export interface RouteCallArgument {
+    text: string;
+    offset: number;
+}
+
+export interface ProvidedParameters {
+    keys: string[];
+    positional: number;
+}
+
+export interface UriParameter {
+    name: string;
+    optional: boolean;
+    bindingField?: string;
+}
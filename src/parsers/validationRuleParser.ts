@@ -0,0 +1,561 @@
+import { RouteCallParser, RouteCallArgument } from './routeCallParser';
+import { FormRequestParser } from './formRequestParser';
+
+// Rule object classes and the names they are imported under
+const RULE_OBJECT_CLASSES: Record<string, RuleObjectFactory> = {
+    'Illuminate\\Validation\\Rule': 'Rule',
+    'Illuminate\\Validation\\Rules\\Password': 'Password',
+    'Illuminate\\Validation\\Rules\\File': 'File'
+};
+
+// Calls that take validation rules, and which argument holds them. 'first' takes the first
+// argument that is an array, so that $this->validate($request, [...]) and
+// $request->validateWithBag('bag', [...]) resolve to the rules.
+const VALIDATION_CALLS: Array<{ pattern: RegExp; argument: number | 'first'; allowString?: boolean }> = [
+    { pattern: /(?<![\w\\$>])\\?(?:Illuminate\\Support\\Facades\\)?Validator::(?:make|validate)\s*\(/g, argument: 1 },
+    { pattern: /(?<![\w\\$>]|function\s+)validator\s*\(/g, argument: 1 },
+    { pattern: /->\s*(?:validate|validateWithBag)\s*\(/g, argument: 'first' },
+    // $validator->sometimes('reason', 'required|max:500', fn ($input) => ...)
+    { pattern: /->\s*sometimes\s*\(/g, argument: 1, allowString: true },
+    // Livewire #[Validate('required|min:3')] and the older #[Rule(...)]
+    { pattern: /#\[\s*\\?(?:Livewire\\Attributes\\)?(?:Validate|Rule)\s*\(/g, argument: 0, allowString: true }
+];
+
+export class ValidationRuleParser {
+    /**
+     * Local names of Rule, Password and File in a file, honouring `use ... as Alias` imports.
+     * The File facade shares its short name with the rule, so only imported classes are recognized.
+     */
+    static getRuleObjectAliases(text: string): Map<string, RuleObjectFactory> {
+        const aliases = new Map<string, RuleObjectFactory>();
+        const useRegex = /^\s*use\s+\\?([\w\\]+)(?:\s+as\s+(\w+))?\s*;/gm;
+        let match;
+
+        while ((match = useRegex.exec(text)) !== null) {
+            const factory = RULE_OBJECT_CLASSES[match[1]];
+            if (factory) {
+                aliases.set(match[2] || factory, factory);
+            }
+        }
+
+        // Fully qualified calls work without an import
+        Object.entries(RULE_OBJECT_CLASSES).forEach(([className, factory]) => aliases.set(`\\${className}`, factory));
+        return aliases;
+    }
+
+    /**
+     * Every Rule::x(...)->y(...) chain in the text, including chains spanning several lines
+     */
+    static findRuleObjects(text: string): RuleObjectExpression[] {
+        const aliases = this.getRuleObjectAliases(text);
+        const names = Array.from(aliases.keys()).map(alias => alias.replace(/\\/g, '\\\\'));
+        const factoryRegex = new RegExp(`(?<![\\w\\\\$>])(${names.join('|')})::(\\w+)\\s*\\(`, 'g');
+        const expressions: RuleObjectExpression[] = [];
+        let match;
+
+        while ((match = factoryRegex.exec(text)) !== null) {
+            const nameOffset = match.index + match[1].length + 2;
+            const calls = [this.parseCall(text, match[2], nameOffset, match.index + match[0].length - 1)];
+
+            // Follow ->method(...) calls chained on the result
+            let end = calls[0].end;
+            const chainRegex = /(\s*->\s*)(\w+)\s*\(/y;
+            while (calls[calls.length - 1].closed) {
+                chainRegex.lastIndex = end + 1;
+                const chained = chainRegex.exec(text);
+                if (!chained) break;
+
+                const call = this.parseCall(text, chained[2], end + 1 + chained[1].length, chainRegex.lastIndex - 1);
+                calls.push(call);
+                end = call.end;
+            }
+
+            expressions.push({
+                factory: aliases.get(match[1])!,
+                start: match.index,
+                end: Math.min(end + 1, text.length),
+                calls
+            });
+            factoryRegex.lastIndex = match.index + match[0].length;
+        }
+
+        return expressions;
+    }
+
+    /**
+     * The chain and the call whose method name contains the offset
+     */
+    static findCallAt(text: string, offset: number): { expression: RuleObjectExpression; index: number } | undefined {
+        for (const expression of this.findRuleObjects(text)) {
+            if (offset < expression.start || offset > expression.end) continue;
+
+            const index = expression.calls.findIndex(call =>
+                offset >= call.nameOffset && offset <= call.nameOffset + call.name.length
+            );
+            if (index !== -1) {
+                return { expression, index };
+            }
+            // The class name itself documents the factory method
+            if (offset < expression.calls[0].nameOffset) {
+                return { expression, index: 0 };
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * The chain that ends right before `->` at the offset, used while typing a fluent method
+     */
+    static findChainBefore(text: string, arrowOffset: number): RuleObjectExpression | undefined {
+        const head = text.substring(0, arrowOffset).replace(/\s+$/, '');
+        return this.findRuleObjects(head).find(expression => expression.end === head.length);
+    }
+
+    /**
+     * Literal value of a quoted argument, undefined for expressions
+     */
+    static getStringArgument(argument: RouteCallArgument | undefined): { value: string; offset: number } | undefined {
+        if (!argument) return undefined;
+
+        const match = argument.text.match(/^(\s*)(['"])([^'"]*)\2\s*$/);
+        return match ? { value: match[3], offset: argument.offset + match[1].length + 1 } : undefined;
+    }
+
+    /**
+     * Short class name of a `Foo::class` argument
+     */
+    static getClassArgument(argument: RouteCallArgument | undefined): { name: string; offset: number } | undefined {
+        if (!argument) return undefined;
+
+        const match = argument.text.match(/^(\s*)\\?([\w\\]+)::class\s*$/);
+        return match ? { name: match[2].split('\\').pop()!, offset: argument.offset + match[1].length } : undefined;
+    }
+
+    /**
+     * Every array literal whose entries map field names to string or array rules, such as the
+     * array returned by rules() or passed to validate(). Nested rule lists are part of their field.
+     */
+    static findRuleArrays(text: string): RuleArray[] {
+        const arrays: RuleArray[] = [];
+        let index = 0;
+
+        while (index < text.length) {
+            const char = text[index];
+
+            if (char === '\'' || char === '"') {
+                index = this.skipString(text, index);
+                continue;
+            }
+            if (char === '/' && text[index + 1] === '/') {
+                const lineEnd = text.indexOf('\n', index);
+                index = lineEnd === -1 ? text.length : lineEnd;
+                continue;
+            }
+            if (char === '/' && text[index + 1] === '*') {
+                const commentEnd = text.indexOf('*/', index + 2);
+                index = commentEnd === -1 ? text.length : commentEnd + 2;
+                continue;
+            }
+
+            if (char === '[') {
+                const array = this.parseRuleArray(text, index);
+                if (array) {
+                    arrays.push(array);
+                    index = array.close + 1;
+                    continue;
+                }
+            }
+
+            index++;
+        }
+
+        return arrays;
+    }
+
+    /**
+     * Spans where validation rules are written: the array returned by rules(), the rules passed to
+     * validate(), Validator::make() or validator(), Livewire $rules properties and #[Validate]
+     * attributes, arrays assigned to a $rules variable and arrays that use Rule:: objects.
+     * Pass the result of findRuleArrays() when it is already at hand.
+     */
+    static findValidationContexts(text: string, ruleArrays: RuleArray[] = this.findRuleArrays(text)): ValidationContext[] {
+        const contexts: ValidationContext[] = [];
+
+        const rules = FormRequestParser.findReturnedArray(text, 'rules');
+        if (rules) {
+            contexts.push({ start: rules.open, end: rules.close, kind: 'fields' });
+        }
+
+        VALIDATION_CALLS.forEach(({ pattern, argument, allowString }) => {
+            pattern.lastIndex = 0;
+            let match;
+            while ((match = pattern.exec(text)) !== null) {
+                const { arguments: args } = RouteCallParser.splitArguments(text, match.index + match[0].length - 1);
+                const candidates = argument === 'first' ? args : args.slice(argument, argument + 1);
+
+                for (const candidate of candidates) {
+                    const found = this.getContextsAt(text, candidate.offset + candidate.text.search(/\S|$/), !!allowString);
+                    if (found.length > 0) {
+                        contexts.push(...found);
+                        break;
+                    }
+                }
+            }
+        });
+
+        // protected $rules = [...] on Livewire components, and $rules = [...] in controllers
+        const assignmentRegex = /(?:(?:public|protected|private)\s+(?:static\s+)?(?:array\s+)?)?\$\w*rules\s*=\s*(?=\[)/gi;
+        let match;
+        while ((match = assignmentRegex.exec(text)) !== null) {
+            contexts.push(...this.getContextsAt(text, match.index + match[0].length, false));
+        }
+
+        // $rules['email'] = 'required|email'
+        const elementRegex = /\$\w*rules\s*\[\s*(['"])[^'"]*\1\s*\]\s*=\s*(?=['"[])/gi;
+        while ((match = elementRegex.exec(text)) !== null) {
+            const start = match.index + match[0].length;
+            contexts.push(...this.getContextsAt(text, start, true).map(context => ({ ...context, kind: 'rules' as const })));
+        }
+
+        ruleArrays
+            .filter(array => array.fields.some(field => field.rules.some(rule => rule.object)))
+            .forEach(array => contexts.push({ start: array.open, end: array.close, kind: 'fields' }));
+
+        // Drop spans nested in another one, such as a $rules array returned by rules()
+        let coveredUntil = -1;
+        return contexts
+            .sort((a, b) => a.start - b.start || b.end - a.end)
+            .filter(context => {
+                if (context.end <= coveredUntil) return false;
+                coveredUntil = context.end;
+                return true;
+            });
+    }
+
+    /**
+     * The validation context that contains the offset
+     */
+    static findContextAt(text: string, offset: number): ValidationContext | undefined {
+        return this.findValidationContexts(text).find(context => offset > context.start && offset <= context.end);
+    }
+
+    /**
+     * Whether the offset is inside a string that holds rules, as opposed to a field name,
+     * a message or an argument of a rule class
+     */
+    static isInRuleString(text: string, offset: number): boolean {
+        const context = this.findContextAt(text, offset);
+        if (!context) return false;
+
+        const brackets: string[] = [];
+        let index = context.start;
+
+        while (index < offset) {
+            const char = text[index];
+
+            if (char === '\'' || char === '"') {
+                const end = this.skipString(text, index);
+                if (end > offset || end === text.length) {
+                    return this.isRulePosition(text, index, context, brackets);
+                }
+                index = end;
+                continue;
+            }
+            if (char === '/' && (text[index + 1] === '/' || text[index + 1] === '*')) {
+                const commentEnd = text[index + 1] === '/' ? text.indexOf('\n', index) : text.indexOf('*/', index + 2);
+                index = commentEnd === -1 ? text.length : commentEnd + 1;
+                continue;
+            }
+
+            if (char === '(' || char === '[' || char === '{') {
+                brackets.push(char);
+            } else if (char === ')' || char === ']' || char === '}') {
+                brackets.pop();
+            }
+            index++;
+        }
+
+        return false;
+    }
+
+    /**
+     * Rules written in a context, with string rules split on pipes. Rule objects are
+     * included, closures and rule classes are not.
+     */
+    static getContextRules(text: string, context: ValidationContext): RuleItem[] {
+        if (context.kind === 'rules') {
+            return this.parseRules(text, context.start);
+        }
+
+        return this.parseFields(text, context.start).fields.flatMap(field => field.rules);
+    }
+
+    /**
+     * Rules in the string literal or rule list that starts at the offset
+     */
+    static parseRules(text: string, start: number): RuleItem[] {
+        if (text[start] === '[') {
+            return this.parseRuleList(text, start);
+        }
+
+        if (text[start] !== '\'' && text[start] !== '"') {
+            return [];
+        }
+
+        const literal = text.substring(start, this.skipString(text, start));
+        return /^(['"])[^'"]*\1$/.test(literal) ? this.parseRuleString(literal, start, undefined) : [];
+    }
+
+    // The rules value of a call argument, or the arrays assigned to the variable passed instead
+    private static getContextsAt(text: string, start: number, allowString: boolean): ValidationContext[] {
+        const char = text[start];
+
+        if (char === '[') {
+            const { arguments: elements, end } = RouteCallParser.splitArguments(text, start);
+            // ['required', 'min:3'] lists the rules of a single field
+            const keyed = elements[0].text.trim() === '' || /^\s*(['"])[^'"]*\1\s*=>/.test(elements[0].text);
+            if (!keyed && !allowString) return [];
+            return [{ start, end, kind: keyed ? 'fields' : 'rules' }];
+        }
+        if (allowString && (char === '\'' || char === '"')) {
+            return [{ start, end: this.skipString(text, start) - 1, kind: 'rules' }];
+        }
+
+        const variable = text.substring(start).match(/^\$(\w+)\s*[,)]/);
+        if (!variable || variable[1] === 'this') return [];
+
+        // The closest assignment above the call
+        const assignmentRegex = new RegExp(`\\$${variable[1]}\\s*=\\s*(?=\\[)`, 'g');
+        let assignment: number | undefined;
+        let match;
+        while ((match = assignmentRegex.exec(text)) !== null && match.index < start) {
+            assignment = match.index + match[0].length;
+        }
+        return assignment === undefined ? [] : this.getContextsAt(text, assignment, false);
+    }
+
+    private static isRulePosition(text: string, quote: number, context: ValidationContext, brackets: string[]): boolean {
+        if (quote === context.start) {
+            return true;
+        }
+        // Strings inside calls are arguments of Rule:: objects or rule classes
+        if (brackets[brackets.length - 1] !== '[') {
+            return false;
+        }
+        if (context.kind === 'rules' || brackets.length > 1) {
+            return true;
+        }
+
+        // At the top level of a fields array only the values hold rules
+        return /=>\s*$/.test(text.substring(context.start, quote));
+    }
+
+    private static parseRuleArray(text: string, open: number): RuleArray | undefined {
+        const { fields, keys, dynamic, end } = this.parseFields(text, open);
+        return fields.length > 0 && end < text.length ? { open, close: end, fields, keys, dynamic } : undefined;
+    }
+
+    private static parseFields(text: string, open: number): { fields: RuleField[]; keys: string[]; dynamic: boolean; end: number } {
+        const { arguments: elements, end } = RouteCallParser.splitArguments(text, open);
+        const fields: RuleField[] = [];
+        const keys: string[] = [];
+        let dynamic = false;
+
+        elements.forEach(element => {
+            if (element.text.trim() === '') return;
+
+            const keyMatch = element.text.match(/^(\s*)(['"])([^'"]+)\2\s*=>\s*/);
+            if (!keyMatch) {
+                dynamic = true;
+                return;
+            }
+            keys.push(keyMatch[3]);
+
+            const valueOffset = element.offset + keyMatch[0].length;
+            const value = element.text.substring(keyMatch[0].length).trimEnd();
+            const rules = value.startsWith('[')
+                ? this.parseRuleList(text, valueOffset)
+                : /^(['"])[^'"]*\1$/.test(value) ? this.parseRuleString(value, valueOffset, undefined) : undefined;
+
+            if (rules) {
+                fields.push({
+                    field: keyMatch[3],
+                    keyOffset: element.offset + keyMatch[1].length + 1,
+                    entryEnd: valueOffset + value.length,
+                    format: value.startsWith('[') ? 'array' : 'string',
+                    rules
+                });
+            }
+        });
+
+        return { fields, keys, dynamic, end };
+    }
+
+    // ['required', 'max:255', Rule::unique('users')], each element can also hold pipe-separated rules
+    private static parseRuleList(text: string, open: number): RuleItem[] {
+        const { arguments: args } = RouteCallParser.splitArguments(text, open);
+        const elements = args
+            .filter(arg => arg.text.trim() !== '')
+            .map(arg => {
+                const start = arg.offset + arg.text.search(/\S/);
+                return { text: arg.text.trim(), start, end: start + arg.text.trim().length };
+            });
+        const rules: RuleItem[] = [];
+
+        elements.forEach((element, index) => {
+            // Deleting an element also deletes the comma that separates it from its neighbour
+            const removal = index < elements.length - 1
+                ? { start: element.start, end: elements[index + 1].start }
+                : { start: index > 0 ? elements[index - 1].end : element.start, end: element.end };
+
+            if (/^(['"])[^'"]*\1$/.test(element.text)) {
+                rules.push(...this.parseRuleString(element.text, element.start, removal));
+                return;
+            }
+
+            const ruleObject = element.text.match(/^\\?(?:Illuminate\\Validation\\)?Rule::(\w+)\s*\(/);
+            if (ruleObject) {
+                rules.push({
+                    name: ruleObject[1].replace(/([a-z])([A-Z])/g, '$1_$2').toLowerCase(),
+                    parameters: [],
+                    offset: element.start,
+                    length: element.text.length,
+                    parametersOffset: element.end,
+                    removeStart: removal.start,
+                    removeEnd: removal.end,
+                    object: true
+                });
+            }
+        });
+
+        return rules;
+    }
+
+    // 'required|max:255', the quotes are part of the literal
+    private static parseRuleString(literal: string, offset: number, elementRemoval: { start: number; end: number } | undefined): RuleItem[] {
+        const content = literal.slice(1, -1);
+        const segments = content.split('|');
+        const rules: RuleItem[] = [];
+        let position = offset + 1;
+
+        segments.forEach((segment, index) => {
+            const start = position;
+            position += segment.length + 1;
+            if (segment.trim() === '') return;
+
+            const colon = segment.indexOf(':');
+            const name = (colon === -1 ? segment : segment.substring(0, colon)).trim();
+            const parameterText = colon === -1 ? '' : segment.substring(colon + 1);
+            // Patterns may contain commas of their own
+            const parameters = parameterText === '' ? [] : /regex$/.test(name) ? [parameterText] : parameterText.split(',');
+
+            let removal: { start: number; end: number };
+            if (segments.length === 1) {
+                removal = elementRemoval || { start, end: start + segment.length };
+            } else if (index < segments.length - 1) {
+                removal = { start, end: start + segment.length + 1 };
+            } else {
+                removal = { start: start - 1, end: start + segment.length };
+            }
+
+            rules.push({
+                name,
+                parameters,
+                offset: start,
+                length: segment.length,
+                parametersOffset: start + colon + 1,
+                removeStart: removal.start,
+                removeEnd: removal.end
+            });
+        });
+
+        return rules;
+    }
+
+    private static skipString(text: string, start: number): number {
+        const quote = text[start];
+        let index = start + 1;
+
+        while (index < text.length) {
+            if (text[index] === '\\') {
+                index += 2;
+                continue;
+            }
+            if (text[index] === quote) {
+                return index + 1;
+            }
+            index++;
+        }
+
+        return text.length;
+    }
+
+    private static parseCall(text: string, name: string, nameOffset: number, openParen: number): RuleObjectCall {
+        const { arguments: args, end } = RouteCallParser.splitArguments(text, openParen);
+        const provided = args.length === 1 && args[0].text.trim() === '' ? [] : args;
+        return { name, nameOffset, openParen, arguments: provided, end, closed: end < text.length };
+    }
+}
+
+export type RuleObjectFactory = 'Rule' | 'Password' | 'File';
+
+export interface RuleObjectExpression {
+    factory: RuleObjectFactory;
+    start: number;
+    // Offset right after the closing parenthesis of the last call
+    end: number;
+    // The static factory call followed by the chained calls
+    calls: RuleObjectCall[];
+}
+
+export interface RuleObjectCall {
+    name: string;
+    nameOffset: number;
+    openParen: number;
+    arguments: RouteCallArgument[];
+    // Offset of the closing parenthesis
+    end: number;
+    closed: boolean;
+}
+
+export interface RuleArray {
+    open: number;
+    close: number;
+    fields: RuleField[];
+    // Every literal key in the array, including fields whose rules are not literals
+    keys: string[];
+    // Set when spreads or computed keys hide some fields
+    dynamic: boolean;
+}
+
+export interface RuleField {
+    field: string;
+    keyOffset: number;
+    // Offset right after the rules value
+    entryEnd: number;
+    format: 'string' | 'array';
+    rules: RuleItem[];
+}
+
+export interface RuleItem {
+    name: string;
+    parameters: string[];
+    // Span of the rule text such as max:255, or of the whole Rule:: expression
+    offset: number;
+    length: number;
+    parametersOffset: number;
+    // Span that removes the rule together with its separator
+    removeStart: number;
+    removeEnd: number;
+    // Set for Rule:: expressions
+    object?: boolean;
+}
+
+export interface ValidationContext {
+    // Offset of the opening bracket or quote
+    start: number;
+    // Offset of the closing bracket or quote, the end of the text while it is missing
+    end: number;
+    // 'fields' maps field names to rules, 'rules' holds the rules of a single field
+    kind: 'fields' | 'rules';
+}
@@ -0,0 +1,219 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EnhancedRouteInlayProvider, NON_ROUTE_METHODS } from './enhancedRouteInlayProvider';
+
+// Verb and URI suffix suggested for the conventional resource actions
+const RESOURCE_SUGGESTIONS: Record<string, { verb: string; suffix: string; member: boolean }> = {
+    index: { verb: 'get', suffix: '', member: false },
+    create: { verb: 'get', suffix: '/create', member: false },
+    store: { verb: 'post', suffix: '', member: false },
+    show: { verb: 'get', suffix: '', member: true },
+    edit: { verb: 'get', suffix: '/edit', member: true },
+    update: { verb: 'put', suffix: '', member: true },
+    destroy: { verb: 'delete', suffix: '', member: true }
+};
+
+interface ControllerMethod {
+    name: string;
+    line: number;
+}
+
+// "Add route" for unrouted controller methods and the report of controllers nothing routes to
+export class ControllerRouteCommands {
+    static register(context: vscode.ExtensionContext, routeProvider: EnhancedRouteInlayProvider, workspaceRoot: string) {
+        context.subscriptions.push(
+            vscode.commands.registerCommand('laravel.addControllerRoute', async (controller: string, method: string) => {
+                if (!controller || !method) return;
+                await this.addRoute(routeProvider, workspaceRoot, controller, method);
+            }),
+
+            vscode.commands.registerCommand('laravel.showUnroutedControllerMethods', async () => {
+                const document = await vscode.workspace.openTextDocument({
+                    content: this.generateReport(routeProvider, workspaceRoot),
+                    language: 'markdown'
+                });
+                await vscode.window.showTextDocument(document);
+            })
+        );
+    }
+
+    private static async addRoute(
+        routeProvider: EnhancedRouteInlayProvider,
+        workspaceRoot: string,
+        controller: string,
+        method: string
+    ) {
+        const routeFiles = routeProvider.getRouteFiles();
+        if (routeFiles.length === 0) {
+            vscode.window.showWarningMessage('No route files found');
+            return;
+        }
+
+        const className = this.getControllerClass(routeProvider, controller);
+        // Api\PostController most likely belongs in routes/api.php
+        const preferred = /\\Api\\/.test(className) ? 'api.php' : 'web.php';
+        const items = routeFiles
+            .map(filePath => ({ label: path.relative(workspaceRoot, filePath), filePath }))
+            .sort((a, b) => Number(path.basename(b.filePath) === preferred) - Number(path.basename(a.filePath) === preferred) ||
+                a.label.localeCompare(b.label));
+
+        const target = await vscode.window.showQuickPick(items, {
+            placeHolder: `Route file for ${controller}@${method}`
+        });
+        if (!target) return;
+
+        const suggestion = this.suggestRoute(controller, method);
+        const action = method === '__invoke' ? `${controller}::class` : `[${controller}::class, '${method}']`;
+        const statement = await vscode.window.showInputBox({
+            prompt: 'Route definition to add',
+            value: `Route::${suggestion.verb}('${suggestion.uri}', ${action})->name('${suggestion.name}');`
+        });
+        if (!statement) return;
+
+        try {
+            const document = await vscode.workspace.openTextDocument(target.filePath);
+            const content = document.getText();
+            const edit = new vscode.WorkspaceEdit();
+
+            const importLine = `use ${className};`;
+            if (className.includes('\\') && !content.includes(importLine)) {
+                edit.insert(document.uri, this.getImportPosition(document), `${importLine}\n`);
+            }
+
+            const end = document.positionAt(content.length);
+            const separator = content.endsWith('\n') ? '' : '\n';
+            edit.insert(document.uri, end, `${separator}\n${statement}\n`);
+
+            await vscode.workspace.applyEdit(edit);
+            const editor = await vscode.window.showTextDocument(document);
+            const lastLine = document.lineCount - 1;
+            editor.revealRange(new vscode.Range(lastLine, 0, lastLine, 0));
+        } catch (error) {
+            console.error(`Error adding route to ${target.filePath}:`, error);
+            vscode.window.showErrorMessage(`Could not add the route to ${target.label}`);
+        }
+    }
+
+    // PostController@show => get /posts/{post} named posts.show
+    private static suggestRoute(controller: string, method: string): { verb: string; uri: string; name: string } {
+        const resource = controller.replace(/Controller$/, '');
+        const words = resource.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase().split(' ');
+
+        if (method === '__invoke') {
+            const slug = words.join('-');
+            return { verb: 'get', uri: `/${slug}`, name: slug };
+        }
+
+        const plural = [...words.slice(0, -1), this.pluralize(words[words.length - 1])].join('-');
+        const parameter = `{${words.join('_')}}`;
+
+        const resourceAction = RESOURCE_SUGGESTIONS[method];
+        if (resourceAction) {
+            const member = resourceAction.member ? `/${parameter}` : '';
+            return {
+                verb: resourceAction.verb,
+                uri: `/${plural}${member}${resourceAction.suffix}`,
+                name: `${plural}.${method}`
+            };
+        }
+
+        const slug = method.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+        const verb = /^(store|save|add|send|upload|import)/.test(method) ? 'post'
+            : /^update/.test(method) ? 'put'
+            : /^(destroy|delete|remove)/.test(method) ? 'delete'
+            : 'get';
+        return { verb, uri: `/${plural}/${slug}`, name: `${plural}.${slug}` };
+    }
+
+    private static pluralize(word: string): string {
+        if (/[^aeiou]y$/.test(word)) return word.slice(0, -1) + 'ies';
+        if (/(s|x|z|ch|sh)$/.test(word)) return word + 'es';
+        return word + 's';
+    }
+
+    private static getControllerClass(routeProvider: EnhancedRouteInlayProvider, controller: string): string {
+        const filePath = routeProvider.getControllerFilePath(controller);
+        if (!filePath) return controller;
+
+        try {
+            const namespaceMatch = fs.readFileSync(filePath, 'utf8').match(/^namespace\s+([\w\\]+)\s*;/m);
+            return namespaceMatch ? `${namespaceMatch[1]}\\${controller}` : controller;
+        } catch (error) {
+            console.error(`Error reading controller ${filePath}:`, error);
+            return controller;
+        }
+    }
+
+    // Below the last use statement, or right after the opening tag
+    private static getImportPosition(document: vscode.TextDocument): vscode.Position {
+        let position = new vscode.Position(Math.min(1, document.lineCount - 1), 0);
+
+        for (let i = 0; i < document.lineCount; i++) {
+            const lineText = document.lineAt(i).text;
+            if (/^use\s+[\w\\]+/.test(lineText)) {
+                position = new vscode.Position(i + 1, 0);
+            } else if (/^\s*Route::/.test(lineText)) {
+                break;
+            }
+        }
+
+        return position;
+    }
+
+    private static generateReport(routeProvider: EnhancedRouteInlayProvider, workspaceRoot: string): string {
+        const unroutedControllers: string[] = [];
+        const unroutedMethods: string[] = [];
+        let deadMethodCount = 0;
+
+        routeProvider.getControllerNames().sort().forEach(controller => {
+            const filePath = routeProvider.getControllerFilePath(controller)!;
+            const methods = this.findPublicMethods(filePath);
+            if (methods.length === 0) return;
+
+            const link = (line: number) => `${vscode.Uri.file(filePath).toString()}#L${line}`;
+            const dead = methods.filter(method => routeProvider.getRoutesForController(controller, method.name).length === 0);
+
+            if (dead.length === methods.length) {
+                unroutedControllers.push(`- [${controller}](${link(1)}) — ${path.relative(workspaceRoot, filePath)}`);
+            } else if (dead.length > 0) {
+                unroutedMethods.push(`### ${controller}\n`);
+                dead.forEach(method => unroutedMethods.push(`- [\`${method.name}()\`](${link(method.line)})`));
+                unroutedMethods.push('');
+            }
+            deadMethodCount += dead.length;
+        });
+
+        let content = `# Unrouted Controller Methods\n\n`;
+        content += `Generated on: ${new Date().toLocaleString()}\n\n`;
+        content += `Public methods without a route: ${deadMethodCount}\n\n`;
+
+        content += `## Controllers Without Routes\n\n`;
+        content += unroutedControllers.length > 0 ? `${unroutedControllers.join('\n')}\n\n` : `_None_\n\n`;
+
+        content += `## Methods Without Routes\n\n`;
+        content += unroutedMethods.length > 0 ? `${unroutedMethods.join('\n')}\n` : `_None_\n`;
+
+        return content;
+    }
+
+    // Public instance methods of a concrete controller class
+    private static findPublicMethods(filePath: string): ControllerMethod[] {
+        try {
+            const content = fs.readFileSync(filePath, 'utf8');
+            if (/abstract\s+class/.test(content)) return [];
+
+            const methods: ControllerMethod[] = [];
+            content.split('\n').forEach((line, index) => {
+                const match = line.match(/public\s+function\s+(\w+)\s*\(/);
+                if (match && !NON_ROUTE_METHODS.includes(match[1])) {
+                    methods.push({ name: match[1], line: index + 1 });
+                }
+            });
+            return methods;
+        } catch (error) {
+            console.error(`Error reading controller ${filePath}:`, error);
+            return [];
+        }
+    }
+}
@@ -1,12 +1,16 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { EnhancedRouteInlayProvider } from './enhancedRouteInlayProvider';
+import { MiddlewareProvider, MIDDLEWARE_CALL_PATTERN } from './middlewareProvider';
 
 export class LaravelDefinitionProvider implements vscode.DefinitionProvider {
     constructor(
         private workspaceRoot: string,
         private configProvider?: any,
-        private translationProvider?: any
+        private translationProvider?: any,
+        private routeProvider?: EnhancedRouteInlayProvider,
+        private middlewareProvider?: MiddlewareProvider
     ) {}
 
     provideDefinition(
@@ -35,6 +39,20 @@ export class LaravelDefinitionProvider implements vscode.DefinitionProvider {
             return this.findTranslationKeyLocation(quotedText.text);
         }
 
+        if (this.isRouteCall(beforeQuote)) {
+            return this.findRouteNameLocation(quotedText.text);
+        }
+
+        if (this.middlewareProvider && MIDDLEWARE_CALL_PATTERN.test(beforeQuote)) {
+            return this.middlewareProvider.getMiddlewareLocation(quotedText.text);
+        }
+
+        // Route::view('/welcome', 'pages.welcome')
+        if (this.routeProvider && /Route::view\s*\(\s*['"][^'"]*['"]\s*,\s*['"`]?$/.test(beforeQuote)) {
+            const viewPath = this.routeProvider.getViewFilePath(quotedText.text);
+            return viewPath ? new vscode.Location(vscode.Uri.file(viewPath), new vscode.Position(0, 0)) : undefined;
+        }
+
         return undefined;
     }
 
@@ -127,6 +145,23 @@ export class LaravelDefinitionProvider implements vscode.DefinitionProvider {
         return false;
     }
 
+    private isRouteCall(beforeQuote: string): boolean {
+        const routePatterns = [
+            /(?<![\w>:])route\s*\(\s*['"`]?$/,
+            /to_route\s*\(\s*['"`]?$/,
+            /->route\s*\(\s*['"`]?$/,
+            /(?:URL|Redirect)::route\s*\(\s*['"`]?$/,
+            /Route::has\s*\(\s*['"`]?$/
+        ];
+
+        for (let i = 0; i < routePatterns.length; i++) {
+            const pattern = routePatterns[i];
+            if (pattern.test(beforeQuote)) return true;
+        }
+
+        return false;
+    }
+
     private findConfigKeyLocation(configKey: string): vscode.Location | undefined {
         const parts = configKey.split('.');
         if (parts.length < 2) {
@@ -303,6 +338,21 @@ export class LaravelDefinitionProvider implements vscode.DefinitionProvider {
         return undefined;
     }
 
+    private findRouteNameLocation(routeName: string): vscode.Location | undefined {
+        if (!this.routeProvider) {
+            return undefined;
+        }
+
+        const route = this.routeProvider.getRouteByName(routeName);
+        // Vendor routes only known from route:list have no file to open
+        if (!route || !route.filePath) {
+            return undefined;
+        }
+
+        const position = new vscode.Position(Math.max(route.line - 1, 0), Math.max(route.column, 0));
+        return new vscode.Location(vscode.Uri.file(route.filePath), position);
+    }
+
     private escapeRegex(str: string): string {
         return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
     }
@@ -1,15 +1,30 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as cp from 'child_process';
 import { LaravelSettings } from '../utils/settings';
+import { RouteCallParser, RouteCall, UriParameter } from '../parsers/routeCallParser';
+import { MiddlewareProvider } from './middlewareProvider';
 
 // Enhanced version of RouteInlayProvider with configuration support
 export class EnhancedRouteInlayProvider implements vscode.InlayHintsProvider {
     private routes: Map<string, RouteInfo[]> = new Map();
     private controllerRoutes: Map<string, RouteInfo[]> = new Map();
     private middleware: Map<string, string[]> = new Map();
-
-    constructor(private workspaceRoot: string) {
+    private controllerFiles: Map<string, string> = new Map();
+    private routesChanged = new vscode.EventEmitter<void>();
+    private externalRoutes: RouteInfo[] = [];
+    private parsedRouteFiles: Set<string> = new Set();
+    // Route::pattern('id', '[0-9]+') applies to every route using the parameter
+    private globalPatterns: Map<string, string> = new Map();
+    private routeListRequest = 0;
+    private routeListWarningShown = false;
+
+    // Fired after the route files have been parsed again
+    public readonly onDidChangeRoutes = this.routesChanged.event;
+
+    constructor(private workspaceRoot: string, private middlewareProvider?: MiddlewareProvider) {
+        this.indexControllerFiles();
         this.parseAllRoutes();
         this.setupWatchers();
     }
@@ -21,198 +36,1121 @@ export class EnhancedRouteInlayProvider implements vscode.InlayHintsProvider {
         routeWatcher.onDidCreate(() => this.parseAllRoutes());
         routeWatcher.onDidDelete(() => this.parseAllRoutes());
 
+        // Route files and their implicit prefix/middleware are registered here
+        const registrationWatcher = vscode.workspace.createFileSystemWatcher('**/{bootstrap/app.php,app/Providers/*.php}');
+        registrationWatcher.onDidChange(() => this.parseAllRoutes());
+        registrationWatcher.onDidCreate(() => this.parseAllRoutes());
+        registrationWatcher.onDidDelete(() => this.parseAllRoutes());
+
+        const controllerWatcher = vscode.workspace.createFileSystemWatcher('**/app/Http/Controllers/**/*.php');
+        controllerWatcher.onDidCreate(() => this.indexControllerFiles());
+        controllerWatcher.onDidDelete(() => this.indexControllerFiles());
+
         // Watch for settings changes
         vscode.workspace.onDidChangeConfiguration(e => {
             if (e.affectsConfiguration('laravelEnhanced')) {
                 // Refresh inlay hints when settings change
                 vscode.commands.executeCommand('editor.action.refreshInlayHints');
             }
+
+            if (e.affectsConfiguration('laravelEnhanced.routes.source') ||
+                e.affectsConfiguration('laravelEnhanced.routes.phpCommand') ||
+                e.affectsConfiguration('laravelEnhanced.routes.routeListFile')) {
+                this.parseAllRoutes();
+            }
+        });
+
+        // route:list is skipped until the workspace is trusted
+        vscode.workspace.onDidGrantWorkspaceTrust(() => {
+            if (LaravelSettings.routeSource === 'artisan') {
+                this.loadRouteList();
+            }
         });
     }
 
     private parseAllRoutes() {
         this.routes.clear();
-        this.controllerRoutes.clear();
+        this.externalRoutes = [];
         this.middleware.clear();
-        
-        const routesPath = path.join(this.workspaceRoot, 'routes');
-        if (!fs.existsSync(routesPath)) return;
+        this.parsedRouteFiles.clear();
 
-        const routeFiles = fs.readdirSync(routesPath)
-            .filter(file => file.endsWith('.php'));
-
-        routeFiles.forEach(file => {
-            const filePath = path.join(routesPath, file);
-            this.parseRouteFile(filePath);
+        this.discoverRouteFiles().forEach(registration => {
+            this.parseRouteFile(registration.filePath, registration.scope);
         });
 
+        // Files nobody registers or requires are still indexed, without implicit attributes
+        this.findRouteFiles(path.join(this.workspaceRoot, 'routes'))
+            .filter(filePath => !this.parsedRouteFiles.has(filePath))
+            .forEach(filePath => this.parseRouteFile(filePath));
+
+        this.loadGlobalPatterns();
         this.buildControllerRouteMap();
+        this.routesChanged.fire();
+
+        if (LaravelSettings.routeSource !== 'static') {
+            this.loadRouteList();
+        }
+    }
+
+    // Route::pattern() and Route::patterns() in service providers or route files
+    private loadGlobalPatterns() {
+        this.globalPatterns.clear();
+
+        const providersPath = path.join(this.workspaceRoot, 'app', 'Providers');
+        const providerFiles = fs.existsSync(providersPath)
+            ? fs.readdirSync(providersPath).filter(file => file.endsWith('.php')).map(file => path.join(providersPath, file))
+            : [];
+
+        [...providerFiles, ...this.parsedRouteFiles].forEach(filePath => {
+            try {
+                const content = fs.readFileSync(filePath, 'utf8');
+                const patternRegex = /Route::patterns?\s*\(/g;
+                let match;
+
+                while ((match = patternRegex.exec(content)) !== null) {
+                    const { arguments: args } = RouteCallParser.splitArguments(content, match.index + match[0].length - 1);
+                    if (match[0].startsWith('Route::patterns')) {
+                        Object.entries(this.extractStringPairs(args[0]?.text || ''))
+                            .forEach(([name, pattern]) => this.globalPatterns.set(name, pattern));
+                    } else {
+                        const name = this.extractStringLiterals(args[0]?.text || '')[0];
+                        const pattern = this.extractStringLiterals(args[1]?.text || '')[0];
+                        if (name && pattern !== undefined) {
+                            this.globalPatterns.set(name, pattern);
+                        }
+                    }
+                }
+            } catch (error) {
+                console.error(`Error reading route patterns from ${filePath}:`, error);
+            }
+        });
+    }
+
+    // Route files registered by bootstrap/app.php (Laravel 11+) or RouteServiceProvider, with their group scope
+    private discoverRouteFiles(): RouteFileRegistration[] {
+        const registrations: RouteFileRegistration[] = [];
+
+        const bootstrapPath = path.join(this.workspaceRoot, 'bootstrap', 'app.php');
+        if (fs.existsSync(bootstrapPath)) {
+            try {
+                const content = fs.readFileSync(bootstrapPath, 'utf8');
+                registrations.push(...this.parseWithRouting(content, bootstrapPath));
+                // then: function () { Route::prefix('webhooks')->group(base_path('routes/webhooks.php')); }
+                registrations.push(...this.findFileGroupRegistrations(content, bootstrapPath));
+            } catch (error) {
+                console.error(`Error parsing ${bootstrapPath}:`, error);
+            }
+        }
+
+        const providerPath = path.join(this.workspaceRoot, 'app', 'Providers', 'RouteServiceProvider.php');
+        if (fs.existsSync(providerPath)) {
+            try {
+                registrations.push(...this.findFileGroupRegistrations(fs.readFileSync(providerPath, 'utf8'), providerPath));
+            } catch (error) {
+                console.error(`Error parsing ${providerPath}:`, error);
+            }
+        }
+
+        if (registrations.length > 0) {
+            return registrations;
+        }
+
+        // Nothing registers routes explicitly: apply the framework defaults
+        const defaults: RouteFileRegistration[] = [
+            { filePath: path.join(this.workspaceRoot, 'routes', 'web.php'), scope: { prefix: '', middleware: ['web'], namePrefix: '' } },
+            { filePath: path.join(this.workspaceRoot, 'routes', 'api.php'), scope: { prefix: '/api', middleware: ['api'], namePrefix: '' } }
+        ];
+        return defaults.filter(registration => fs.existsSync(registration.filePath));
+    }
+
+    // ->withRouting(web: __DIR__.'/../routes/web.php', api: ..., apiPrefix: 'api/v1')
+    private parseWithRouting(content: string, filePath: string): RouteFileRegistration[] {
+        const match = content.match(/->withRouting\s*\(/);
+        if (!match || match.index === undefined) return [];
+
+        const namedArguments = new Map<string, string>();
+        RouteCallParser.splitArguments(content, match.index + match[0].length - 1).arguments.forEach(argument => {
+            const namedMatch = argument.text.match(/^\s*(\w+)\s*:\s*([\s\S]*?)\s*$/);
+            if (namedMatch) {
+                namedArguments.set(namedMatch[1], namedMatch[2]);
+            }
+        });
+
+        const apiPrefix = this.extractStringLiterals(namedArguments.get('apiPrefix') || '')[0] ?? 'api';
+        const registrations: RouteFileRegistration[] = [];
+        const register = (expression: string | undefined, scope: RouteScope) => {
+            if (!expression) return;
+
+            // A single path or an array of paths
+            const paths = expression.startsWith('[')
+                ? RouteCallParser.splitArrayElements(expression).map(element => element.trim()).filter(element => element)
+                : [expression];
+
+            paths.forEach(pathExpression => {
+                const routeFile = this.resolvePathExpression(pathExpression, filePath);
+                if (routeFile) {
+                    registrations.push({ filePath: routeFile, scope });
+                }
+            });
+        };
+
+        register(namedArguments.get('web'), { prefix: '', middleware: ['web'], namePrefix: '' });
+        register(namedArguments.get('api'), { prefix: this.joinUri(apiPrefix), middleware: ['api'], namePrefix: '' });
+        return registrations;
+    }
+
+    // Route::middleware('api')->prefix('api')->group(base_path('routes/api.php'));
+    private findFileGroupRegistrations(content: string, filePath: string): RouteFileRegistration[] {
+        const registrations: RouteFileRegistration[] = [];
+        const statementRegex = /Route::[^;]*;/g;
+        let match;
+
+        while ((match = statementRegex.exec(content)) !== null) {
+            const registration = this.resolveIncludedRouteFile(match[0], filePath, { prefix: '', middleware: [], namePrefix: '' });
+            if (registration) {
+                registrations.push(registration);
+            }
+        }
+
+        return registrations;
+    }
+
+    // require __DIR__.'/auth.php' and ->group(base_path('routes/admin.php')) pull in another route file
+    private resolveIncludedRouteFile(statement: string, filePath: string, scope: RouteScope): RouteFileRegistration | undefined {
+        const requireMatch = statement.match(/^\s*(?:require|include)(?:_once)?\b\s*([\s\S]*?)\s*;\s*$/);
+        if (requireMatch) {
+            const routeFile = this.resolvePathExpression(requireMatch[1], filePath);
+            return routeFile ? { filePath: routeFile, scope } : undefined;
+        }
+
+        const groupMatch = statement.match(/(?:->|::)group\s*\((?![\s\S]*(?:->|::)group\s*\()/);
+        if (!groupMatch || groupMatch.index === undefined) return undefined;
+
+        const args = RouteCallParser.splitArguments(statement, groupMatch.index + groupMatch[0].length - 1).arguments;
+        const target = args[args.length - 1].text.trim();
+        if (/^(?:static\s+)?(?:function|fn)\b/.test(target)) return undefined;
+
+        const routeFile = this.resolvePathExpression(target, filePath);
+        return routeFile ? { filePath: routeFile, scope: this.resolveGroupScope(statement, scope) } : undefined;
+    }
+
+    private resolvePathExpression(expression: string, filePath: string): string | undefined {
+        const trimmed = expression.trim().replace(/^\(([\s\S]*)\)$/, '$1').trim();
+        const directory = path.dirname(filePath);
+        let resolved: string | undefined;
+
+        let match = trimmed.match(/^base_path\s*\(\s*['"]([^'"]+)['"]\s*\)$/);
+        if (match) {
+            resolved = path.join(this.workspaceRoot, match[1]);
+        } else if ((match = trimmed.match(/^__DIR__\s*\.\s*['"]([^'"]+)['"]$/))) {
+            resolved = path.join(directory, match[1]);
+        } else if ((match = trimmed.match(/^dirname\s*\(\s*__DIR__\s*\)\s*\.\s*['"]([^'"]+)['"]$/))) {
+            resolved = path.join(path.dirname(directory), match[1]);
+        } else if ((match = trimmed.match(/^['"]([^'"]+\.php)['"]$/))) {
+            resolved = path.isAbsolute(match[1]) ? match[1] : path.join(this.workspaceRoot, match[1]);
+        }
+
+        return resolved && fs.existsSync(resolved) ? path.normalize(resolved) : undefined;
+    }
+
+    private findRouteFiles(dir: string): string[] {
+        if (!fs.existsSync(dir)) return [];
+
+        const files: string[] = [];
+        fs.readdirSync(dir, { withFileTypes: true }).forEach(entry => {
+            const entryPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                files.push(...this.findRouteFiles(entryPath));
+            } else if (entry.name.endsWith('.php')) {
+                files.push(entryPath);
+            }
+        });
+        return files;
+    }
+
+    // Merge the authoritative table from route:list into the parsed routes
+    private async loadRouteList() {
+        // Artisan boots the project's code, which an untrusted workspace must not run
+        if (LaravelSettings.routeSource === 'artisan' && !vscode.workspace.isTrusted) return;
+
+        const request = ++this.routeListRequest;
+
+        try {
+            const output = LaravelSettings.routeSource === 'file'
+                ? this.readRouteListFile()
+                : await this.runRouteListCommand();
+
+            // Route files changed again while artisan was running
+            if (request !== this.routeListRequest) return;
+
+            // Deprecation notices may be printed before the JSON
+            const entries: ArtisanRoute[] = JSON.parse(output.substring(output.indexOf('[')));
+            this.mergeRouteList(entries);
+            this.buildControllerRouteMap();
+            this.routesChanged.fire();
+        } catch (error) {
+            console.error('Error loading route:list, falling back to the route files:', error);
+
+            if (!this.routeListWarningShown) {
+                this.routeListWarningShown = true;
+                vscode.window.showWarningMessage(
+                    'Could not load routes from route:list, only the route files are used. Check the laravelEnhanced.routes settings.'
+                );
+            }
+        }
     }
 
-    private parseRouteFile(filePath: string) {
+    private readRouteListFile(): string {
+        const filePath = path.resolve(this.workspaceRoot, LaravelSettings.routeListFile);
+        return fs.readFileSync(filePath, 'utf8');
+    }
+
+    private runRouteListCommand(): Promise<string> {
+        const command = `${LaravelSettings.phpCommand} artisan route:list --json`;
+
+        return new Promise((resolve, reject) => {
+            cp.exec(command, { cwd: this.workspaceRoot, timeout: 30000, maxBuffer: 32 * 1024 * 1024 }, (error, stdout) => {
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve(stdout);
+                }
+            });
+        });
+    }
+
+    private mergeRouteList(entries: ArtisanRoute[]) {
+        const parsedRoutes = Array.from(this.routes.values()).flat();
+        const methodLines = new Map<string, number>();
+
+        entries.forEach(entry => {
+            const methods = entry.method.split('|');
+            const uri = this.joinUri(entry.uri);
+            const domain = entry.domain || undefined;
+            const middleware = Array.isArray(entry.middleware) ? entry.middleware : [];
+
+            // Parameter names may differ between the two sources, only the shape is compared
+            const parsed = parsedRoutes.find(route =>
+                this.normalizeUri(route.uri) === this.normalizeUri(uri) &&
+                (route.domain || undefined) === domain &&
+                route.method.some(method => methods.includes(method))
+            );
+
+            if (parsed) {
+                parsed.name = entry.name || parsed.name;
+                if (middleware.length > 0) {
+                    parsed.middleware = middleware;
+                }
+                return;
+            }
+
+            // Registered by a package, macro or service provider: point at the controller when known
+            const [controllerClass, controllerMethod] = entry.action.includes('@')
+                ? entry.action.split('@')
+                : [entry.action, entry.action.includes('\\') ? '__invoke' : undefined];
+            const controller = controllerMethod ? controllerClass.split('\\').pop() : undefined;
+            const controllerPath = controller ? this.getControllerFilePath(controller) : undefined;
+
+            let line = 0;
+            if (controllerPath && controllerMethod) {
+                const key = `${controllerPath}@${controllerMethod}`;
+                if (!methodLines.has(key)) {
+                    methodLines.set(key, this.findMethodLine(controllerPath, controllerMethod));
+                }
+                line = methodLines.get(key)!;
+            }
+
+            this.externalRoutes.push({
+                method: methods,
+                uri,
+                name: entry.name || undefined,
+                action: controller ? `${controller}@${controllerMethod}` : entry.action,
+                controller,
+                controllerMethod,
+                middleware,
+                domain,
+                filePath: controllerPath || '',
+                line,
+                column: 0,
+                source: 'artisan'
+            });
+        });
+    }
+
+    private normalizeUri(uri: string): string {
+        return uri.replace(/\{[^}?]+(\??)\}/g, '{$1}');
+    }
+
+    private findMethodLine(filePath: string, methodName: string): number {
         try {
             const content = fs.readFileSync(filePath, 'utf8');
-            const lines = content.split('\n');
+            const index = content.search(new RegExp(`function\\s+${methodName}\\s*\\(`));
+            return index === -1 ? 1 : content.substring(0, index).split('\n').length;
+        } catch (error) {
+            console.error(`Error reading controller ${filePath}:`, error);
+            return 1;
+        }
+    }
 
-            let currentMiddleware: string[] = [];
-            let currentPrefix = '';
-            let groupLevel = 0;
+    private indexControllerFiles() {
+        this.controllerFiles.clear();
 
-            lines.forEach((line, index) => {
-                const lineNumber = index + 1;
-                const trimmedLine = line.trim();
+        const controllersPath = path.join(this.workspaceRoot, 'app', 'Http', 'Controllers');
+        if (fs.existsSync(controllersPath)) {
+            this.scanControllerDirectory(controllersPath);
+        }
+    }
 
-                // Handle route groups
-                if (trimmedLine.includes('Route::group(')) {
-                    groupLevel++;
-                    this.parseRouteGroup(line, currentMiddleware, currentPrefix);
+    private scanControllerDirectory(dir: string) {
+        const files = fs.readdirSync(dir, { withFileTypes: true });
+
+        files.forEach(file => {
+            const filePath = path.join(dir, file.name);
+            if (file.isDirectory()) {
+                this.scanControllerDirectory(filePath);
+            } else if (file.name.endsWith('.php')) {
+                const controllerName = path.basename(file.name, '.php');
+                if (!this.controllerFiles.has(controllerName)) {
+                    this.controllerFiles.set(controllerName, filePath);
                 }
+            }
+        });
+    }
 
-                // Handle group closing
-                if (trimmedLine === '});' && groupLevel > 0) {
-                    groupLevel--;
-                    // Reset middleware and prefix when exiting group
-                    if (groupLevel === 0) {
-                        currentMiddleware = [];
-                        currentPrefix = '';
-                    }
+    private parseRouteFile(filePath: string, baseScope: RouteScope = { prefix: '', middleware: [], namePrefix: '' }) {
+        // Guards against require cycles between route files
+        if (this.parsedRouteFiles.has(filePath)) return;
+        this.parsedRouteFiles.add(filePath);
+
+        try {
+            const content = fs.readFileSync(filePath, 'utf8');
+            const lineStarts = this.computeLineStarts(content);
+
+            this.splitRouteStatements(content, baseScope).forEach(statement => {
+                const included = this.resolveIncludedRouteFile(statement.text, filePath, statement.scope);
+                if (included) {
+                    this.parseRouteFile(included.filePath, included.scope);
+                    return;
                 }
 
-                // Parse individual routes
-                this.parseRouteLine(line, lineNumber, filePath, currentMiddleware, currentPrefix);
+                const routeIndex = statement.text.indexOf('Route::');
+                if (routeIndex === -1) return;
+
+                const offset = statement.offset + routeIndex;
+                const lineIndex = this.findLineIndex(lineStarts, offset);
+
+                this.parseRouteDefinition(
+                    statement.text.substring(routeIndex),
+                    lineIndex + 1,
+                    offset - lineStarts[lineIndex],
+                    filePath,
+                    statement.scope
+                );
             });
         } catch (error) {
             console.error(`Error parsing route file ${filePath}:`, error);
         }
     }
 
-    private parseRouteGroup(line: string, currentMiddleware: string[], currentPrefix: string) {
-        // Extract group attributes
-        const middlewareMatch = line.match(/'middleware'\s*=>\s*\[([^\]]+)\]/);
-        if (middlewareMatch) {
-            const middleware = middlewareMatch[1]
-                .split(',')
-                .map(m => m.trim().replace(/['"]/g, ''));
-            currentMiddleware.push(...middleware);
+    // Split a route file into statements, tracking the group scope every statement is declared in.
+    // Group closures push a new scope, any other block at statement level (if, foreach...) inherits it.
+    private splitRouteStatements(content: string, baseScope: RouteScope): RouteStatement[] {
+        const statements: RouteStatement[] = [];
+        const frames: RouteFrame[] = [{ kind: 'group', scope: baseScope, start: -1, depth: 0, opensBlock: false }];
+        let index = 0;
+
+        while (index < content.length) {
+            const char = content[index];
+            const frame = frames[frames.length - 1];
+
+            // Skip comments
+            const commentEnd = this.skipComment(content, index);
+            if (commentEnd !== index) {
+                index = commentEnd;
+                continue;
+            }
+
+            if (frame.start === -1 && !/\s/.test(char)) {
+                frame.start = index;
+            }
+
+            // Skip string literals so quoted braces and semicolons are ignored
+            if (char === '\'' || char === '"') {
+                index = this.skipString(content, index);
+                continue;
+            }
+
+            if (char === '(' || char === '[') {
+                frame.depth++;
+            } else if (char === ')' || char === ']') {
+                frame.depth = Math.max(0, frame.depth - 1);
+            } else if (char === '{') {
+                const header = content.substring(frame.start, index);
+
+                if (frame.depth > 0 && GROUP_CLOSURE_PATTERN.test(header)) {
+                    frame.opensBlock = true;
+                    frames.push({
+                        kind: 'group',
+                        scope: this.resolveGroupScope(header, frame.scope),
+                        start: -1,
+                        depth: 0,
+                        opensBlock: false
+                    });
+                } else if (frame.depth === 0) {
+                    frame.opensBlock = true;
+                    frames.push({ kind: 'block', scope: frame.scope, start: -1, depth: 0, opensBlock: false });
+                } else {
+                    // Closure body of a route action
+                    frame.depth++;
+                }
+            } else if (char === '}') {
+                if (frame.depth > 0) {
+                    frame.depth--;
+                } else if (frames.length > 1) {
+                    frames.pop();
+
+                    // Blocks end without a semicolon, group calls still have to close with `});`
+                    if (frame.kind === 'block') {
+                        const parent = frames[frames.length - 1];
+                        parent.start = -1;
+                        parent.opensBlock = false;
+                    }
+                }
+            } else if (char === ';' && frame.depth === 0) {
+                if (frame.start !== -1 && !frame.opensBlock) {
+                    statements.push({
+                        text: content.substring(frame.start, index + 1),
+                        offset: frame.start,
+                        scope: frame.scope
+                    });
+                }
+
+                frame.start = -1;
+                frame.opensBlock = false;
+            }
+
+            index++;
+        }
+
+        return statements;
+    }
+
+    private skipComment(content: string, start: number): number {
+        const char = content[start];
+        const next = content[start + 1];
+
+        if ((char === '/' && next === '/') || (char === '#' && next !== '[')) {
+            const end = content.indexOf('\n', start);
+            return end === -1 ? content.length : end;
+        }
+
+        if (char === '/' && next === '*') {
+            const end = content.indexOf('*/', start + 2);
+            return end === -1 ? content.length : end + 2;
+        }
+
+        return start;
+    }
+
+    private skipString(content: string, start: number): number {
+        const quote = content[start];
+        let index = start + 1;
+
+        while (index < content.length) {
+            if (content[index] === '\\') {
+                index += 2;
+                continue;
+            }
+            if (content[index] === quote) {
+                return index + 1;
+            }
+            index++;
+        }
+
+        return content.length;
+    }
+
+    private computeLineStarts(content: string): number[] {
+        const lineStarts = [0];
+        for (let i = 0; i < content.length; i++) {
+            if (content[i] === '\n') {
+                lineStarts.push(i + 1);
+            }
         }
+        return lineStarts;
+    }
 
-        const prefixMatch = line.match(/'prefix'\s*=>\s*['"]([^'"]+)['"]/);
-        if (prefixMatch) {
-            currentPrefix = prefixMatch[1];
+    private findLineIndex(lineStarts: number[], offset: number): number {
+        let low = 0;
+        let high = lineStarts.length - 1;
+
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2);
+            if (lineStarts[mid] <= offset) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
         }
+
+        return low;
+    }
+
+    // Merge the attributes of a fluent or array-style group declaration into the parent scope
+    private resolveGroupScope(declaration: string, parent: RouteScope): RouteScope {
+        const attributes = this.extractGroupAttributes(declaration);
+
+        return {
+            prefix: attributes.prefix ? this.joinUri(parent.prefix, attributes.prefix) : parent.prefix,
+            middleware: [...parent.middleware, ...attributes.middleware],
+            namePrefix: parent.namePrefix + (attributes.name || ''),
+            domain: attributes.domain || parent.domain,
+            controller: attributes.controller || parent.controller,
+            scopeBindings: attributes.scopeBindings ?? parent.scopeBindings
+        };
+    }
+
+    private extractGroupAttributes(declaration: string): {
+        prefix?: string;
+        middleware: string[];
+        name?: string;
+        domain?: string;
+        controller?: string;
+        scopeBindings?: boolean;
+    } {
+        const stringAttribute = (method: string, key: string): string | undefined => {
+            const fluentMatch = declaration.match(new RegExp(`(?:->|::)${method}\\s*\\(\\s*['"]([^'"]*)['"]`));
+            if (fluentMatch) return fluentMatch[1];
+
+            const arrayMatch = declaration.match(new RegExp(`['"]${key}['"]\\s*=>\\s*['"]([^'"]*)['"]`));
+            return arrayMatch ? arrayMatch[1] : undefined;
+        };
+
+        const middleware: string[] = [];
+        const fluentMiddleware = declaration.match(/(?:->|::)middleware\s*\(\s*(\[[^\]]*\]|['"][^)]*)\)/);
+        if (fluentMiddleware) {
+            middleware.push(...this.extractStringLiterals(fluentMiddleware[1]));
+        }
+        const arrayMiddleware = declaration.match(/['"]middleware['"]\s*=>\s*(\[[^\]]*\]|['"][^'"]*['"])/);
+        if (arrayMiddleware) {
+            middleware.push(...this.extractStringLiterals(arrayMiddleware[1]));
+        }
+
+        const controllerMatch = declaration.match(/(?:(?:->|::)controller\s*\(|['"]controller['"]\s*=>)\s*(?:\\?([\w\\]+)::class|['"]([^'"]+)['"])/);
+        const controller = controllerMatch ? (controllerMatch[1] || controllerMatch[2]) : undefined;
+
+        return {
+            prefix: stringAttribute('prefix', 'prefix'),
+            middleware,
+            name: stringAttribute('(?:name|as)', 'as'),
+            domain: this.extractDomain(declaration, true),
+            controller: controller ? controller.split('\\').pop() : undefined,
+            scopeBindings: this.extractScopeBindings(declaration)
+        };
+    }
+
+    // ->domain('{account}.example.com'), Route::domain(...) or 'domain' => ... in a group array
+    private extractDomain(declaration: string, allowArray: boolean): string | undefined {
+        const fluentMatch = /(?:->|::)domain\s*\(/.exec(declaration);
+        if (fluentMatch) {
+            const { arguments: args } = RouteCallParser.splitArguments(declaration, fluentMatch.index + fluentMatch[0].length - 1);
+            return args[0] ? this.resolveDomainExpression(args[0].text) : undefined;
+        }
+
+        const arrayMatch = allowArray ? declaration.match(/['"]domain['"]\s*=>\s*([^,\]]+)/) : null;
+        return arrayMatch ? this.resolveDomainExpression(arrayMatch[1]) : undefined;
     }
 
-    private parseRouteLine(
-        line: string, 
-        lineNumber: number, 
-        filePath: string, 
-        groupMiddleware: string[], 
-        groupPrefix: string
+    private resolveDomainExpression(expression: string): string | undefined {
+        const literal = expression.match(/^\s*(['"])([^'"]+)\1\s*$/);
+        if (literal) return literal[2];
+
+        // '{account}.' . config('app.domain') usually appends the application host
+        const subdomain = expression.match(/^\s*(['"])([^'"]+\.)\1\s*\./);
+        if (subdomain) {
+            return subdomain[2] + this.getAppUrl().replace(/^\w+:\/\//, '').replace(/[:/].*$/, '');
+        }
+
+        return undefined;
+    }
+
+    // ->scopeBindings(), ->withoutScopedBindings() or 'scope_bindings' => true
+    private extractScopeBindings(declaration: string): boolean | undefined {
+        if (/(?:->|::)withoutScopedBindings\s*\(/.test(declaration)) return false;
+        if (/(?:->|::)scopeBindings\s*\(/.test(declaration)) return true;
+
+        const arrayMatch = declaration.match(/['"]scope_bindings['"]\s*=>\s*(true|false)/);
+        return arrayMatch ? arrayMatch[1] === 'true' : undefined;
+    }
+
+    private parseRouteDefinition(
+        statement: string,
+        lineNumber: number,
+        column: number,
+        filePath: string,
+        scope: RouteScope
     ) {
-        // Standard routes with controller@method
-        let match = line.match(/Route::(get|post|put|patch|delete|options|head|any)\s*\(\s*['"`]([^'"`]+)['"`]\s*,\s*['"`]([^'"`@]+)@([^'"`]+)['"`]/);
+        const definition = this.stripClosureBodies(statement);
+
+        // Route::middleware('auth')->get(...) registers through a one-off group scope
+        const verbMatch = definition.match(/(?:Route::|->)(get|post|put|patch|delete|options|head|any|match|redirect|permanentRedirect|view|fallback|resources?|apiResources?|singleton|apiSingleton)\s*\(/);
+        if (!verbMatch || verbMatch.index === undefined) return;
+
+        const registrar = definition.substring(0, verbMatch.index);
+        const routeScope = registrar.length > 'Route::'.length ? this.resolveGroupScope(registrar, scope) : scope;
+        const routeDefinition = definition.substring(verbMatch.index);
+
+        const name = this.extractRouteName(routeDefinition);
+        const middleware = [...routeScope.middleware, ...this.extractInlineMiddleware(routeDefinition)]
+            .filter(m => !this.extractExcludedMiddleware(routeDefinition).includes(m));
+
+        const baseRoute = {
+            name: name !== undefined ? routeScope.namePrefix + name : undefined,
+            middleware,
+            domain: this.extractDomain(routeDefinition, false) || routeScope.domain,
+            scopeBindings: this.extractScopeBindings(routeDefinition) ?? routeScope.scopeBindings,
+            withTrashed: /->withTrashed\s*\(/.test(routeDefinition) || undefined,
+            wheres: this.extractWhereConstraints(routeDefinition),
+            filePath,
+            line: lineNumber,
+            column
+        };
+
+        // Resource routes
+        if (/^(?:Route::|->)(?:resources?|apiResources?|singleton|apiSingleton)\s*\(/.test(routeDefinition)) {
+            this.addResourceRoutes(routeDefinition, baseRoute, routeScope);
+            return;
+        }
+
+        const verb = verbMatch[1];
+        const args = RouteCallParser.splitArguments(routeDefinition, routeDefinition.indexOf('('))
+            .arguments.map(argument => argument.text.trim());
+
+        switch (verb) {
+            case 'match': {
+                // Route::match(['get', 'post'], '/uri', action)
+                const uri = this.extractStringLiterals(args[1] || '')[0];
+                if (uri === undefined) return;
+
+                this.addRoute({
+                    ...baseRoute,
+                    method: this.extractStringLiterals(args[0]).map(method => method.toUpperCase()),
+                    uri: this.joinUri(routeScope.prefix, uri),
+                    ...this.resolveRouteAction(args[2], routeScope)
+                });
+                return;
+            }
+            case 'redirect':
+            case 'permanentRedirect': {
+                // Route::redirect('/here', '/there', 301)
+                const [uri, destination] = [args[0], args[1]].map(argument => this.extractStringLiterals(argument || '')[0]);
+                if (uri === undefined) return;
+
+                const status = verb === 'permanentRedirect' ? '301' : (args[2] && /^\d+$/.test(args[2]) ? args[2] : '302');
+                this.addRoute({
+                    ...baseRoute,
+                    method: ['ANY'],
+                    uri: this.joinUri(routeScope.prefix, uri),
+                    action: `Redirect → ${destination || '?'} (${status})`
+                });
+                return;
+            }
+            case 'view': {
+                // Route::view('/welcome', 'pages.welcome', ['data' => ...])
+                const [uri, view] = [args[0], args[1]].map(argument => this.extractStringLiterals(argument || '')[0]);
+                if (uri === undefined) return;
+
+                this.addRoute({
+                    ...baseRoute,
+                    method: ['GET'],
+                    uri: this.joinUri(routeScope.prefix, uri),
+                    action: view ? `View: ${view}` : 'View',
+                    view
+                });
+                return;
+            }
+            case 'fallback':
+                // Laravel registers the fallback as {fallbackPlaceholder} matching anything
+                this.addRoute({
+                    ...baseRoute,
+                    method: ['GET'],
+                    uri: this.joinUri(routeScope.prefix, '{fallbackPlaceholder}'),
+                    wheres: { ...baseRoute.wheres, fallbackPlaceholder: '.*' },
+                    ...this.resolveRouteAction(args[0], routeScope)
+                });
+                return;
+            default: {
+                const uri = this.extractStringLiterals(args[0] || '')[0];
+                if (uri === undefined) return;
+
+                this.addRoute({
+                    ...baseRoute,
+                    method: [verb.toUpperCase()],
+                    uri: this.joinUri(routeScope.prefix, uri),
+                    ...this.resolveRouteAction(args[1], routeScope)
+                });
+            }
+        }
+    }
+
+    // Controller and method behind the action argument of a route definition
+    private resolveRouteAction(
+        argument: string | undefined,
+        scope: RouteScope
+    ): Pick<RouteInfo, 'action' | 'controller' | 'controllerMethod'> {
+        if (!argument) return {};
+
+        const controllerAction = (controller: string, controllerMethod: string) => ({
+            controller: controller.split('\\').pop() || controller,
+            controllerMethod,
+            action: `${controller}@${controllerMethod}`
+        });
+
+        // 'PostController@show'
+        let match = argument.match(/^['"`]\\?([\w\\]+)@(\w+)['"`]$/);
         if (match) {
-            const [, method, uri, controller, controllerMethod] = match;
-            const fullUri = groupPrefix ? `${groupPrefix}/${uri}`.replace('//', '/') : uri;
-            
-            this.addRoute({
-                method: [method.toUpperCase()],
-                uri: fullUri,
-                controller,
-                controllerMethod,
-                action: `${controller}@${controllerMethod}`,
-                middleware: [...groupMiddleware, ...this.extractInlineMiddleware(line)],
-                filePath,
-                line: lineNumber,
-                column: line.indexOf('Route::')
-            });
+            return controllerAction(match[1], match[2]);
         }
 
-        // Routes with [Controller::class, 'method']
-        match = line.match(/Route::(get|post|put|patch|delete|options|head|any)\s*\(\s*['"`]([^'"`]+)['"`]\s*,\s*\[\s*([^:]+)::class\s*,\s*['"`]([^'"`]+)['"`]\s*\]/);
+        // [PostController::class, 'show']
+        match = argument.match(/^\[\s*\\?([\w\\]+)::class\s*,\s*['"`](\w+)['"`]\s*,?\s*\]$/);
         if (match) {
-            const [, method, uri, controller, controllerMethod] = match;
-            const fullUri = groupPrefix ? `${groupPrefix}/${uri}`.replace('//', '/') : uri;
-            const shortController = controller.split('\\').pop() || controller;
-            
-            this.addRoute({
-                method: [method.toUpperCase()],
-                uri: fullUri,
-                controller: shortController,
-                controllerMethod,
-                action: `${controller}@${controllerMethod}`,
-                middleware: [...groupMiddleware, ...this.extractInlineMiddleware(line)],
-                filePath,
-                line: lineNumber,
-                column: line.indexOf('Route::')
-            });
+            return controllerAction(match[1], match[2]);
         }
 
-        // Resource routes
-        match = line.match(/Route::(resource|apiResource)\s*\(\s*['"`]([^'"`]+)['"`]\s*,\s*([^:]+)::class/);
+        // Invokable controllers: ShowDashboard::class or 'App\Http\Controllers\ShowDashboard'
+        match = argument.match(/^\\?([\w\\]+)::class$/) || argument.match(/^['"`]\\?([A-Z][\w\\]*)['"`]$/);
         if (match) {
-            const [, resourceType, uri, controller] = match;
-            const fullUri = groupPrefix ? `${groupPrefix}/${uri}`.replace('//', '/') : uri;
-            const shortController = controller.split('\\').pop() || controller;
-            const methods = resourceType === 'apiResource' 
-                ? ['GET', 'POST', 'PUT', 'PATCH', 'DELETE']
-                : ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
-            
+            return controllerAction(match[1], '__invoke');
+        }
+
+        // Routes inside Route::controller(...)->group() that only name the method
+        match = argument.match(/^['"`](\w+)['"`]$/);
+        if (match && scope.controller) {
+            return controllerAction(scope.controller, match[1]);
+        }
+
+        // ['uses' => 'PostController@show'] and ['uses' => [PostController::class, 'show']]
+        match = argument.match(/['"]uses['"]\s*=>\s*(?:['"`]\\?([\w\\]+)@(\w+)['"`]|\[\s*\\?([\w\\]+)::class\s*,\s*['"`](\w+)['"`]\s*\])/);
+        if (match) {
+            return controllerAction(match[1] || match[3], match[2] || match[4]);
+        }
+
+        if (/^(?:static\s+)?(?:function|fn)\b/.test(argument)) {
+            return { action: 'Closure' };
+        }
+
+        return {};
+    }
+
+    // Expand resource, apiResource, resources, apiResources, singleton and apiSingleton into their actions
+    private addResourceRoutes(definition: string, baseRoute: Omit<RouteInfo, 'method' | 'uri'>, scope: RouteScope) {
+        const typeMatch = definition.match(/^(?:Route::|->)(resources?|apiResources?|singleton|apiSingleton)\s*\(/);
+        if (!typeMatch) return;
+
+        const type = typeMatch[1];
+
+        // Route::resources(['photos' => PhotoController::class, ...])
+        if (type === 'resources' || type === 'apiResources') {
+            const entryRegex = /['"`]([^'"`]+)['"`]\s*=>\s*(?:\\?([\w\\]+)::class|['"`]([^'"`]+)['"`])/g;
+            let entry;
+
+            while ((entry = entryRegex.exec(definition)) !== null) {
+                const resourceType = type === 'apiResources' ? 'apiResource' : 'resource';
+                this.addResourceActions(resourceType, entry[1], entry[2] || entry[3], '', baseRoute, scope);
+            }
+            return;
+        }
+
+        const match = definition.match(/^(?:Route::|->)\w+\s*\(\s*['"`]([^'"`]+)['"`]\s*,\s*(?:\\?([\w\\]+)::class|['"`]([^'"`]+)['"`])/);
+        if (!match) return;
+
+        const modifiers = definition.substring(match[0].length);
+        this.addResourceActions(type, match[1], match[2] || match[3], modifiers, baseRoute, scope);
+    }
+
+    private addResourceActions(
+        type: string,
+        resourceName: string,
+        controller: string,
+        modifiers: string,
+        baseRoute: Omit<RouteInfo, 'method' | 'uri'>,
+        scope: RouteScope
+    ) {
+        const isSingleton = type === 'singleton' || type === 'apiSingleton';
+        const isApi = type === 'apiResource' || type === 'apiSingleton';
+        const shortController = controller.split('\\').pop() || controller;
+
+        let actions = isSingleton
+            ? this.getSingletonActions(isApi, modifiers)
+            : isApi ? ['index', 'store', 'show', 'update', 'destroy'] : Object.keys(RESOURCE_ACTIONS);
+
+        const only = this.extractModifierArguments(modifiers, 'only');
+        if (only) {
+            actions = actions.filter(action => only.includes(action));
+        }
+
+        const except = this.extractModifierArguments(modifiers, 'except');
+        if (except) {
+            actions = actions.filter(action => !except.includes(action));
+        }
+
+        const parameters = this.extractResourceParameters(modifiers);
+        const names = this.extractResourceNames(modifiers);
+        const shallow = /->shallow\s*\(/.test(modifiers);
+
+        // ->scoped(['comment' => 'slug']) binds by a custom key and scopes the child to its parent
+        const scopedMatch = modifiers.match(/->scoped\s*\(([^)]*)\)/);
+        const bindingFields = scopedMatch ? this.extractStringPairs(scopedMatch[1]) : {};
+        const placeholder = (segment: string) => {
+            const parameter = this.getResourceParameter(segment, parameters);
+            return bindingFields[parameter] ? `{${parameter}:${bindingFields[parameter]}}` : `{${parameter}}`;
+        };
+
+        // 'photos.comments' nests the comments resource below a single photo
+        const segments = resourceName.split('.');
+        const resource = segments[segments.length - 1];
+        const parentPath = segments.slice(0, -1)
+            .map(segment => `${segment}/${placeholder(segment)}`)
+            .join('/');
+        const collectionUri = this.joinUri(scope.prefix, parentPath, resource);
+        const memberParameter = placeholder(resource);
+        const shallowUri = shallow ? this.joinUri(scope.prefix, resource) : collectionUri;
+
+        actions.forEach(action => {
+            const definition = RESOURCE_ACTIONS[action];
+            if (!definition) return;
+
+            let uri: string;
+            if (isSingleton) {
+                uri = this.joinUri(collectionUri, definition.suffix);
+            } else if (definition.member) {
+                uri = this.joinUri(shallowUri, memberParameter, definition.suffix);
+            } else {
+                uri = this.joinUri(collectionUri, definition.suffix);
+            }
+
+            let name: string;
+            if (typeof names === 'string') {
+                name = `${names}.${action}`;
+            } else if (names && names[action]) {
+                name = names[action];
+            } else {
+                // Shallow member routes drop the parent from their name: comments.show
+                name = `${shallow && definition.member && !isSingleton ? resource : resourceName}.${action}`;
+            }
+
             this.addRoute({
-                method: methods,
-                uri: `${fullUri}/{id?}`,
+                ...baseRoute,
+                method: definition.methods,
+                uri,
+                name: scope.namePrefix + name,
                 controller: shortController,
-                controllerMethod: 'resource',
-                action: `${controller} (${resourceType})`,
-                middleware: [...groupMiddleware, ...this.extractInlineMiddleware(line)],
-                filePath,
-                line: lineNumber,
-                column: line.indexOf('Route::')
+                controllerMethod: action,
+                action: `${controller}@${action}`,
+                scopeBindings: scopedMatch ? true : baseRoute.scopeBindings,
+                resource: true
             });
+        });
+    }
+
+    private getSingletonActions(isApi: boolean, modifiers: string): string[] {
+        const actions = isApi ? ['show', 'update'] : ['show', 'edit', 'update'];
+
+        if (/->creatable\s*\(/.test(modifiers)) {
+            actions.push(...(isApi ? ['store', 'destroy'] : ['create', 'store', 'destroy']));
+        } else if (/->destroyable\s*\(/.test(modifiers)) {
+            actions.push('destroy');
+        }
+
+        return actions;
+    }
+
+    private extractModifierArguments(modifiers: string, method: string): string[] | undefined {
+        const match = modifiers.match(new RegExp(`->${method}\\s*\\(([^)]*)\\)`));
+        return match ? this.extractStringLiterals(match[1]) : undefined;
+    }
+
+    private extractResourceParameters(modifiers: string): Record<string, string> {
+        const parameters: Record<string, string> = {};
+
+        const parametersMatch = modifiers.match(/->parameters\s*\(\s*\[([^\]]*)\]/);
+        if (parametersMatch) {
+            const pairRegex = /['"`]([^'"`]+)['"`]\s*=>\s*['"`]([^'"`]+)['"`]/g;
+            let pair;
+            while ((pair = pairRegex.exec(parametersMatch[1])) !== null) {
+                parameters[pair[1]] = pair[2];
+            }
+        }
+
+        const parameterRegex = /->parameter\s*\(\s*['"`]([^'"`]+)['"`]\s*,\s*['"`]([^'"`]+)['"`]/g;
+        let parameter;
+        while ((parameter = parameterRegex.exec(modifiers)) !== null) {
+            parameters[parameter[1]] = parameter[2];
+        }
+
+        return parameters;
+    }
+
+    private extractStringPairs(text: string): Record<string, string> {
+        const pairs: Record<string, string> = {};
+        const pairRegex = /['"`]([^'"`]+)['"`]\s*=>\s*['"`]([^'"`]+)['"`]/g;
+        let pair;
+        while ((pair = pairRegex.exec(text)) !== null) {
+            pairs[pair[1]] = pair[2];
+        }
+        return pairs;
+    }
+
+    private extractResourceNames(modifiers: string): string | Record<string, string> | undefined {
+        const namesMatch = modifiers.match(/->names\s*\(\s*(\[[^\]]*\]|['"`][^'"`]*['"`])/);
+        if (!namesMatch) return undefined;
+
+        if (!namesMatch[1].startsWith('[')) {
+            return this.extractStringLiterals(namesMatch[1])[0];
+        }
+
+        const names: Record<string, string> = {};
+        const pairRegex = /['"`]([^'"`]+)['"`]\s*=>\s*['"`]([^'"`]+)['"`]/g;
+        let pair;
+        while ((pair = pairRegex.exec(namesMatch[1])) !== null) {
+            names[pair[1]] = pair[2];
+        }
+        return names;
+    }
+
+    private getResourceParameter(resource: string, parameters: Record<string, string>): string {
+        if (parameters[resource]) {
+            return parameters[resource];
         }
+        return this.singularize(resource).replace(/-/g, '_');
+    }
+
+    private singularize(word: string): string {
+        const irregular: Record<string, string> = {
+            people: 'person',
+            children: 'child',
+            men: 'man',
+            women: 'woman',
+            mice: 'mouse',
+            geese: 'goose',
+            feet: 'foot',
+            teeth: 'tooth'
+        };
+
+        if (irregular[word]) return irregular[word];
+        if (/[^aeiou]ies$/.test(word)) return word.slice(0, -3) + 'y';
+        if (/(ss|x|z|ch|sh|[^aeiou]us)es$/.test(word)) return word.slice(0, -2);
+        if (/(ss|us|is)$/.test(word)) return word;
+        if (word.endsWith('s')) return word.slice(0, -1);
+        return word;
+    }
+
+    // Drop closure bodies so chained calls inside them are not mistaken for route modifiers
+    private stripClosureBodies(statement: string): string {
+        let result = '';
+        let depth = 0;
+
+        for (let i = 0; i < statement.length; i++) {
+            const char = statement[i];
+            const commentEnd = this.skipComment(statement, i);
+
+            if (commentEnd !== i) {
+                i = commentEnd - 1;
+            } else if (char === '\'' || char === '"') {
+                const end = this.skipString(statement, i);
+                if (depth === 0) {
+                    result += statement.substring(i, end);
+                }
+                i = end - 1;
+            } else if (char === '{') {
+                if (depth === 0) result += char;
+                depth++;
+            } else if (char === '}') {
+                depth = Math.max(0, depth - 1);
+                if (depth === 0) result += char;
+            } else if (depth === 0) {
+                result += char;
+            }
+        }
+
+        return result;
+    }
+
+    private extractRouteName(definition: string): string | undefined {
+        const nameMatch = definition.match(/->name\s*\(\s*['"`]([^'"`]+)['"`]\s*\)/) ||
+            // Legacy action arrays: ['as' => 'posts.show', 'uses' => '...']
+            definition.match(/['"]as['"]\s*=>\s*['"`]([^'"`]+)['"`]/);
+        return nameMatch ? nameMatch[1] : undefined;
+    }
+
+    // ->where('id', '[0-9]+'), ->where([...]), ->whereNumber('id'), ->whereIn('type', [...])
+    private extractWhereConstraints(definition: string): Record<string, string> | undefined {
+        const constraints: Record<string, string> = {};
+        const whereRegex = /->where(\w*)\s*\(/g;
+        let match;
+
+        while ((match = whereRegex.exec(definition)) !== null) {
+            const helper = match[1];
+            const { arguments: args } = RouteCallParser.splitArguments(definition, match.index + match[0].length - 1);
+            const first = args[0]?.text.trim() || '';
+
+            if (helper === '') {
+                if (first.startsWith('[')) {
+                    Object.assign(constraints, this.extractStringPairs(first));
+                } else {
+                    const name = this.extractStringLiterals(first)[0];
+                    const pattern = this.extractStringLiterals(args[1]?.text || '')[0];
+                    if (name && pattern !== undefined) {
+                        constraints[name] = pattern;
+                    }
+                }
+            } else if (helper === 'In') {
+                const values = this.extractStringLiterals(args[1]?.text || '');
+                this.extractStringLiterals(first).slice(0, 1).forEach(name => {
+                    if (values.length > 0) {
+                        constraints[name] = values.join('|');
+                    }
+                });
+            } else if (WHERE_HELPER_PATTERNS[helper]) {
+                this.extractStringLiterals(first).forEach(name => {
+                    constraints[name] = WHERE_HELPER_PATTERNS[helper];
+                });
+            }
+        }
+
+        return Object.keys(constraints).length > 0 ? constraints : undefined;
+    }
+
+    private extractInlineMiddleware(definition: string): string[] {
+        const middlewareMatch = definition.match(/->middleware\s*\(\s*(\[[^\]]*\]|['"`][^)]*)\)/);
+        return middlewareMatch ? this.extractStringLiterals(middlewareMatch[1]) : [];
+    }
+
+    private extractExcludedMiddleware(definition: string): string[] {
+        const withoutMatch = definition.match(/->withoutMiddleware\s*\(\s*(\[[^\]]*\]|['"`][^)]*)\)/);
+        return withoutMatch ? this.extractStringLiterals(withoutMatch[1]) : [];
+    }
+
+    private extractStringLiterals(text: string): string[] {
+        const literals: string[] = [];
+        const literalRegex = /['"`]([^'"`]*)['"`]/g;
+        let match;
 
-        // Closure routes
-        match = line.match(/Route::(get|post|put|patch|delete|options|head|any)\s*\(\s*['"`]([^'"`]+)['"`]\s*,\s*function/);
-        if (match) {
-            const [, method, uri] = match;
-            const fullUri = groupPrefix ? `${groupPrefix}/${uri}`.replace('//', '/') : uri;
-            
-            this.addRoute({
-                method: [method.toUpperCase()],
-                uri: fullUri,
-                action: 'Closure',
-                middleware: [...groupMiddleware, ...this.extractInlineMiddleware(line)],
-                filePath,
-                line: lineNumber,
-                column: line.indexOf('Route::')
-            });
+        while ((match = literalRegex.exec(text)) !== null) {
+            literals.push(match[1]);
         }
 
-        // Named routes
-        const nameMatch = line.match(/->name\s*\(\s*['"`]([^'"`]+)['"`]\s*\)/);
-        if (nameMatch && this.routes.has(filePath)) {
-            const routes = this.routes.get(filePath)!;
-            const lastRoute = routes[routes.length - 1];
-            if (lastRoute && Math.abs(lastRoute.line - lineNumber) <= 2) {
-                lastRoute.name = nameMatch[1];
-            }
-        }
+        return literals;
     }
 
-    private extractInlineMiddleware(line: string): string[] {
-        const middlewareMatch = line.match(/->middleware\s*\(\s*['"`]([^'"`]+)['"`]\s*\)/);
-        if (middlewareMatch) {
-            return [middlewareMatch[1]];
-        }
-        
-        const middlewareArrayMatch = line.match(/->middleware\s*\(\s*\[([^\]]+)\]/);
-        if (middlewareArrayMatch) {
-            return middlewareArrayMatch[1]
-                .split(',')
-                .map(m => m.trim().replace(/['"]/g, ''));
-        }
-        
-        return [];
+    private joinUri(...segments: string[]): string {
+        const joined = segments
+            .map(segment => segment.trim().replace(/^\/+|\/+$/g, ''))
+            .filter(segment => segment.length > 0)
+            .join('/');
+
+        return `/${joined}`;
     }
 
     private addRoute(route: RouteInfo) {
@@ -224,7 +1162,9 @@ export class EnhancedRouteInlayProvider implements vscode.InlayHintsProvider {
     }
 
     private buildControllerRouteMap() {
-        this.routes.forEach(routes => {
+        this.controllerRoutes.clear();
+
+        [...this.routes.values(), this.externalRoutes].forEach(routes => {
             routes.forEach(route => {
                 if (route.controller && route.controllerMethod) {
                     // Create multiple possible key combinations for better matching
@@ -274,15 +1214,26 @@ export class EnhancedRouteInlayProvider implements vscode.InlayHintsProvider {
         const text = document.getText();
         const lines = text.split('\n');
 
+        // Resource registrations expand into several routes declared on the same line
+        const routesByLine = new Map<number, RouteInfo[]>();
         routes.forEach(route => {
-            if (route.line >= range.start.line && route.line <= range.end.line) {
-                const line = lines[route.line - 1];
+            if (!routesByLine.has(route.line)) {
+                routesByLine.set(route.line, []);
+            }
+            routesByLine.get(route.line)!.push(route);
+        });
+
+        routesByLine.forEach((lineRoutes, lineNumber) => {
+            if (lineNumber >= range.start.line && lineNumber <= range.end.line) {
+                const line = lines[lineNumber - 1];
                 const routeMatch = line.match(/Route::/);
                 
                 if (routeMatch) {
-                    const position = new vscode.Position(route.line - 1, line.length);
+                    const position = new vscode.Position(lineNumber - 1, line.length);
 
-                    let hintText = ` // ${this.formatRouteHint(route)}`;
+                    let hintText = lineRoutes.length === 1
+                        ? ` // ${this.formatRouteHint(lineRoutes[0])}`
+                        : ` // ${this.formatResourceHint(lineRoutes)}`;
                     
                     const hint = new vscode.InlayHint(
                         position,
@@ -290,7 +1241,9 @@ export class EnhancedRouteInlayProvider implements vscode.InlayHintsProvider {
                         vscode.InlayHintKind.Parameter
                     );
                     
-                    hint.tooltip = this.createRouteTooltip(route);
+                    hint.tooltip = lineRoutes.length === 1
+                        ? this.createRouteTooltip(lineRoutes[0])
+                        : this.createResourceTooltip(lineRoutes);
                     
                     // Color coding based on HTTP method
                     hint.textEdits = [];
@@ -304,12 +1257,32 @@ export class EnhancedRouteInlayProvider implements vscode.InlayHintsProvider {
         return hints;
     }
 
+    private formatResourceHint(routes: RouteInfo[]): string {
+        const actions = routes.map(route => route.controllerMethod || route.method.join('|'));
+        return `${routes.length} routes: ${actions.join(', ')}`;
+    }
+
+    private createResourceTooltip(routes: RouteInfo[]): vscode.MarkdownString {
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`## Resource Routes\n\n`);
+        tooltip.appendMarkdown(`| Method | URI | Name | Action |\n`);
+        tooltip.appendMarkdown(`|--------|-----|------|--------|\n`);
+
+        routes.forEach(route => {
+            tooltip.appendMarkdown(
+                `| ${route.method.join('\\|')} | \`${this.getDisplayUri(route)}\` | ${route.name || '-'} | ${route.controllerMethod || '-'} |\n`
+            );
+        });
+
+        return tooltip;
+    }
+
     private formatRouteHint(route: RouteInfo): string {
         const style = LaravelSettings.inlayHintStyle;
         let hintText = '';
 
         if (style === 'compact') {
-            hintText = `${route.method.join('|')} ${route.uri}`;
+            hintText = `${route.method.join('|')} ${this.getDisplayUri(route)}`;
             if (route.name) {
                 hintText += ` [${route.name}]`;
             }
@@ -318,7 +1291,7 @@ export class EnhancedRouteInlayProvider implements vscode.InlayHintsProvider {
             }
         } else {
             // Detailed style
-            hintText = `${route.method.join('|')} ${route.uri}`;
+            hintText = `${route.method.join('|')} ${this.getDisplayUri(route)}`;
             if (route.name) {
                 hintText += ` → ${route.name}`;
             }
@@ -338,6 +1311,10 @@ export class EnhancedRouteInlayProvider implements vscode.InlayHintsProvider {
         tooltip.appendMarkdown(`## Route Information\n\n`);
         tooltip.appendMarkdown(`**Methods:** ${route.method.join(', ')}\n\n`);
         tooltip.appendMarkdown(`**URI Pattern:** \`${route.uri}\`\n\n`);
+
+        if (route.domain) {
+            tooltip.appendMarkdown(`**Domain:** \`${route.domain}\`\n\n`);
+        }
         
         if (route.name) {
             tooltip.appendMarkdown(`**Route Name:** \`${route.name}\`\n\n`);
@@ -346,18 +1323,41 @@ export class EnhancedRouteInlayProvider implements vscode.InlayHintsProvider {
         if (route.action) {
             tooltip.appendMarkdown(`**Action:** ${route.action}\n\n`);
         }
+
+        if (route.view) {
+            tooltip.appendMarkdown(`**View:** ${this.formatViewLink(route.view)}\n\n`);
+        }
         
         if (route.middleware && route.middleware.length > 0) {
             tooltip.appendMarkdown(`**Middleware:** ${route.middleware.join(', ')}\n\n`);
+            this.appendMiddlewareDetails(tooltip, route.middleware);
+        }
+
+        const bindings = this.getRouteBindings(route).filter(binding => binding.model);
+        if (bindings.length > 0) {
+            tooltip.appendMarkdown(`**Bindings:**\n`);
+            bindings.forEach(binding => {
+                tooltip.appendMarkdown(`- \`${this.formatBinding(binding)}\`\n`);
+            });
+            tooltip.appendMarkdown(`\n`);
         }
         
         // Add route parameters if any
         if (LaravelSettings.showParameters) {
+            const domainParameters = this.extractRouteParameters(route.domain || '');
             const parameters = this.extractRouteParameters(route.uri);
-            if (parameters.length > 0) {
+            const constraints = this.getParameterConstraints(route);
+            const describe = (param: string) => {
+                const constraint = constraints[param.replace(/[:?].*$/, '')];
+                return constraint !== undefined ? `\`${param}\` matches \`${constraint}\`` : `\`${param}\``;
+            };
+            if (domainParameters.length + parameters.length > 0) {
                 tooltip.appendMarkdown(`**Parameters:**\n`);
+                domainParameters.forEach(param => {
+                    tooltip.appendMarkdown(`- ${describe(param)} (domain)\n`);
+                });
                 parameters.forEach(param => {
-                    tooltip.appendMarkdown(`- \`${param}\`\n`);
+                    tooltip.appendMarkdown(`- ${describe(param)}\n`);
                 });
                 tooltip.appendMarkdown(`\n`);
             }
@@ -365,7 +1365,7 @@ export class EnhancedRouteInlayProvider implements vscode.InlayHintsProvider {
         
         // Add example URLs
         tooltip.appendMarkdown(`**Example URLs:**\n`);
-        const exampleUrls = this.generateExampleUrls(route.uri);
+        const exampleUrls = this.generateExampleUrls(route);
         exampleUrls.forEach(url => {
             tooltip.appendMarkdown(`- \`${url}\`\n`);
         });
@@ -373,7 +1373,37 @@ export class EnhancedRouteInlayProvider implements vscode.InlayHintsProvider {
         return tooltip;
     }
 
-    private extractRouteParameters(uri: string): string[] {
+    // Groups expand to the classes they run, aliases resolve to their class
+    private appendMiddlewareDetails(tooltip: vscode.MarkdownString, middleware: string[]) {
+        if (!this.middlewareProvider) return;
+
+        const provider = this.middlewareProvider;
+        const lines = middleware.map(entry => {
+            const classes = provider.expandMiddleware(entry).map(className => `\`${className.split('\\').pop()}\``);
+            const isGroup = provider.getGroups().has(entry);
+            const isAlias = provider.getAlias(entry) !== undefined;
+            return isGroup || isAlias ? `- \`${entry}\` → ${classes.join(', ')}` : `- \`${entry}\``;
+        });
+
+        tooltip.appendMarkdown(`${lines.join('\n')}\n\n`);
+    }
+
+    public formatViewLink(view: string): string {
+        const viewPath = this.getViewFilePath(view);
+        return viewPath ? `[${codeSpan(view)}](${vscode.Uri.file(viewPath).toString()})` : codeSpan(view);
+    }
+
+    /**
+     * Parameters route() accepts for the route. Domain parameters come last and are never required,
+     * URL::defaults() often fills them.
+     */
+    public getUrlParameters(route: RouteInfo): UriParameter[] {
+        const domainParameters = RouteCallParser.parseUriParameters(this.extractRouteParameters(route.domain || ''))
+            .map(parameter => ({ ...parameter, optional: true }));
+        return [...RouteCallParser.parseUriParameters(this.extractRouteParameters(route.uri)), ...domainParameters];
+    }
+
+    public extractRouteParameters(uri: string): string[] {
         const paramRegex = /\{([^}]+)\}/g;
         const parameters: string[] = [];
         let match;
@@ -385,20 +1415,23 @@ export class EnhancedRouteInlayProvider implements vscode.InlayHintsProvider {
         return parameters;
     }
 
-    private generateExampleUrls(uri: string): string[] {
+    public generateExampleUrls(route: RouteInfo): string[] {
+        const uri = route.uri;
         const examples: string[] = [];
+        const constraints = this.getParameterConstraints(route);
+        const fill = (text: string) => text.replace(
+            /\{(\w+)(?::\w+)?\??\}/g,
+            (_match, name: string) => this.getExampleValue(name, constraints[name])
+        );
         
         if (uri.includes('{')) {
             // Generate example with sample values
-            let exampleUri = uri;
-            exampleUri = exampleUri.replace(/\{id\??\}/g, '123');
-            exampleUri = exampleUri.replace(/\{slug\??\}/g, 'example-slug');
-            exampleUri = exampleUri.replace(/\{[^}]+\??\}/g, 'value');
+            const exampleUri = fill(uri);
             examples.push(exampleUri);
             
             // If optional parameters, show without them too
             if (uri.includes('?}')) {
-                let withoutOptional = uri.replace(/\{[^}]*\?\}/g, '');
+                let withoutOptional = fill(uri.replace(/\{[^}]*\?\}/g, ''));
                 withoutOptional = withoutOptional.replace(/\/+$/, ''); // Remove trailing slashes
                 if (withoutOptional !== exampleUri && withoutOptional) {
                     examples.push(withoutOptional);
@@ -407,10 +1440,84 @@ export class EnhancedRouteInlayProvider implements vscode.InlayHintsProvider {
         } else {
             examples.push(uri);
         }
+
+        // {account}.example.com becomes account.example.com
+        if (route.domain) {
+            const host = route.domain.replace(
+                /\{(\w+)\??\}/g,
+                (_match, name: string) => this.getExampleValue(name, constraints[name], name)
+            );
+            return examples.map(example => `${host}${example}`);
+        }
         
         return examples;
     }
 
+    // A sample value for the parameter that satisfies its where() constraint
+    private getExampleValue(name: string, constraint?: string, preferred?: string): string {
+        const fallback = preferred ?? (name === 'id' ? '123' : name === 'slug' ? 'example-slug' : 'value');
+        if (constraint === undefined) return fallback;
+
+        let pattern: RegExp;
+        try {
+            pattern = new RegExp(`^(?:${constraint})$`);
+        } catch (error) {
+            // PCRE-only syntax such as possessive quantifiers
+            return fallback;
+        }
+
+        // whereIn('type', ['post', 'page']) compiles to post|page
+        const alternatives = /^[\w-]+(\|[\w-]+)*$/.test(constraint) ? constraint.split('|') : [];
+        const candidates = [fallback, ...alternatives, ...EXAMPLE_VALUES];
+        return candidates.find(candidate => pattern.test(candidate)) ?? fallback;
+    }
+
+    // Effective where() constraints of the URI and domain parameters, route constraints win over Route::pattern()
+    public getParameterConstraints(route: RouteInfo): Record<string, string> {
+        const constraints: Record<string, string> = {};
+
+        RouteCallParser.parseUriParameters(this.extractRouteParameters(this.getDisplayUri(route))).forEach(parameter => {
+            const constraint = route.wheres?.[parameter.name] ?? this.globalPatterns.get(parameter.name);
+            if (constraint !== undefined) {
+                constraints[parameter.name] = constraint;
+            }
+        });
+
+        return constraints;
+    }
+
+    // Regex matching the request paths the route accepts, ignoring the domain
+    public getUriPattern(route: RouteInfo): RegExp {
+        const constraints = this.getParameterConstraints(route);
+        const placeholderRegex = /(\/?)\{(\w+)(?::\w+)?(\?)?\}/g;
+        let source = '';
+        let lastIndex = 0;
+        let match;
+
+        while ((match = placeholderRegex.exec(route.uri)) !== null) {
+            const [placeholder, slash, name, optional] = match;
+            source += this.escapeRegExp(route.uri.substring(lastIndex, match.index));
+
+            let constraint = constraints[name] ?? '[^/]+';
+            try {
+                new RegExp(constraint);
+            } catch (error) {
+                constraint = '[^/]+';
+            }
+
+            const segment = `${this.escapeRegExp(slash)}(?:${constraint})`;
+            source += optional ? `(?:${segment})?` : segment;
+            lastIndex = match.index + placeholder.length;
+        }
+        source += this.escapeRegExp(route.uri.substring(lastIndex));
+
+        return new RegExp(`^${source.replace(/\\\/$/, '')}/?$`);
+    }
+
+    private escapeRegExp(text: string): string {
+        return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+
     // Public methods for external access
     public getRoutesForController(controllerName: string, methodName: string): RouteInfo[] {
         const possibleKeys = [
@@ -439,6 +1546,7 @@ export class EnhancedRouteInlayProvider implements vscode.InlayHintsProvider {
         this.routes.forEach(routes => {
             allRoutes.push(...routes);
         });
+        allRoutes.push(...this.externalRoutes);
         return allRoutes;
     }
 
@@ -452,13 +1560,166 @@ export class EnhancedRouteInlayProvider implements vscode.InlayHintsProvider {
         const lowerQuery = query.toLowerCase();
         return this.getAllRoutes().filter(route => 
             route.uri.toLowerCase().includes(lowerQuery) ||
+            (route.domain && route.domain.toLowerCase().includes(lowerQuery)) ||
             (route.name && route.name.toLowerCase().includes(lowerQuery)) ||
             (route.action && route.action.toLowerCase().includes(lowerQuery))
         );
     }
+
+    public getNamedRoutes(): RouteInfo[] {
+        const namedRoutes = new Map<string, RouteInfo>();
+        this.getAllRoutes().forEach(route => {
+            if (route.name && !namedRoutes.has(route.name)) {
+                namedRoutes.set(route.name, route);
+            }
+        });
+        return Array.from(namedRoutes.values());
+    }
+
+    public getRouteByName(name: string): RouteInfo | undefined {
+        return this.getAllRoutes().find(route => route.name === name);
+    }
+
+    public getRoutesForFile(filePath: string): RouteInfo[] {
+        return this.routes.get(filePath) || [];
+    }
+
+    public getControllerNames(): string[] {
+        return Array.from(this.controllerFiles.keys());
+    }
+
+    public getRouteFiles(): string[] {
+        return Array.from(this.parsedRouteFiles);
+    }
+
+    public getControllerFilePath(controller: string): string | undefined {
+        const shortName = controller.split('\\').pop() || controller;
+        return this.controllerFiles.get(shortName);
+    }
+
+    // Parameter name => short type hint of a controller method, undefined when the method is not found
+    public getControllerMethodParameters(controller: string, methodName: string): Map<string, string | undefined> | undefined {
+        const controllerPath = this.getControllerFilePath(controller);
+        if (!controllerPath) return undefined;
+
+        let content: string;
+        try {
+            content = fs.readFileSync(controllerPath, 'utf8');
+        } catch (error) {
+            console.error(`Error reading controller ${controllerPath}:`, error);
+            return undefined;
+        }
+
+        const signature = new RegExp(`function\\s+${methodName}\\s*\\(`).exec(content);
+        if (!signature) return undefined;
+
+        const { arguments: args } = RouteCallParser.splitArguments(content, signature.index + signature[0].length - 1);
+        const parameters = new Map<string, string | undefined>();
+        args.forEach(argument => {
+            const declaration = argument.text.replace(/#\[[^\]]*\]/g, '').trim();
+            const match = declaration.match(/^(?:(?:public|protected|private|readonly)\s+)*(\??[\w\\|]+\s+)?&?\s*(?:\.\.\.)?\$(\w+)/);
+            if (match) {
+                const type = match[1] ? match[1].trim().replace(/^\?/, '').split('\\').pop() : undefined;
+                parameters.set(match[2], type);
+            }
+        });
+        return parameters;
+    }
+
+    // Short name of the FormRequest type-hinted in the route's controller method
+    public getFormRequest(route: RouteInfo): string | undefined {
+        if (!route.controller || !route.controllerMethod) return undefined;
+
+        const parameters = this.getControllerMethodParameters(route.controller, route.controllerMethod);
+        return parameters
+            ? Array.from(parameters.values()).find(type => type !== undefined && type.endsWith('Request') && type !== 'Request')
+            : undefined;
+    }
+
+    // Implicit model bindings: {post} resolves to the Post $post argument of the controller method
+    public getRouteBindings(route: RouteInfo): RouteBinding[] {
+        const uriParameters = RouteCallParser.parseUriParameters(
+            this.extractRouteParameters(route.uri).filter(parameter => parameter !== 'fallbackPlaceholder')
+        );
+        if (uriParameters.length === 0) return [];
+
+        const methodParameters = route.controller && route.controllerMethod
+            ? this.getControllerMethodParameters(route.controller, route.controllerMethod)
+            : undefined;
+
+        const bindings: RouteBinding[] = [];
+        uriParameters.forEach((parameter, index) => {
+            const type = methodParameters?.get(parameter.name);
+            const model = type && !SCALAR_TYPES.has(type.toLowerCase()) && !type.endsWith('Request') ? type : undefined;
+            const parentIsModel = index > 0 && bindings[index - 1].model !== undefined;
+
+            bindings.push({
+                parameter: parameter.name,
+                model,
+                bindingField: parameter.bindingField,
+                // Child bindings are scoped to their parent when forced or when a custom key is used
+                scoped: model !== undefined && parentIsModel && route.scopeBindings !== false &&
+                    (route.scopeBindings === true || parameter.bindingField !== undefined),
+                withTrashed: model !== undefined && route.withTrashed === true,
+                hasArgument: methodParameters ? methodParameters.has(parameter.name) : undefined
+            });
+        });
+        return bindings;
+    }
+
+    public formatBinding(binding: RouteBinding): string {
+        let text = `{${binding.parameter}} → ${binding.model}`;
+        if (binding.bindingField) text += ` by ${binding.bindingField}`;
+        if (binding.scoped) text += ', scoped';
+        if (binding.withTrashed) text += ', with trashed';
+        return text;
+    }
+
+    // URI prefixed with the route's domain, as shown in hints and listings
+    public getDisplayUri(route: RouteInfo): string {
+        return route.domain ? `${route.domain}${route.uri}` : route.uri;
+    }
+
+    public getViewFilePath(view: string): string | undefined {
+        const viewPath = path.join(this.workspaceRoot, 'resources', 'views', ...view.split('.')) + '.blade.php';
+        return fs.existsSync(viewPath) ? viewPath : undefined;
+    }
+
+    public refreshRoutes() {
+        this.parseAllRoutes();
+    }
+
+    public getAppUrl(): string {
+        const envPath = path.join(this.workspaceRoot, '.env');
+
+        try {
+            if (fs.existsSync(envPath)) {
+                const match = fs.readFileSync(envPath, 'utf8').match(/^APP_URL\s*=\s*['"]?([^'"\s#]+)/m);
+                if (match) {
+                    return match[1].replace(/\/+$/, '');
+                }
+            }
+        } catch (error) {
+            console.error(`Error reading ${envPath}:`, error);
+        }
+
+        return 'http://localhost';
+    }
+
+    public getRouteUrl(route: RouteInfo): string {
+        const appUrl = this.getAppUrl();
+        const uriPath = route.uri === '/' ? '' : route.uri;
+
+        if (route.domain) {
+            const scheme = appUrl.match(/^(\w+):\/\//)?.[1] || 'http';
+            return `${scheme}://${route.domain}${uriPath}`;
+        }
+
+        return appUrl + uriPath;
+    }
 }
 
-interface RouteInfo {
+export interface RouteInfo {
     method: string[];
     uri: string;
     name?: string;
@@ -466,11 +1727,121 @@ interface RouteInfo {
     controller?: string;
     controllerMethod?: string;
     middleware?: string[];
+    domain?: string;
+    // Blade view rendered by Route::view
+    view?: string;
+    scopeBindings?: boolean;
+    withTrashed?: boolean;
+    // Parameter => regex from ->where() and its helpers
+    wheres?: Record<string, string>;
+    // Set for routes only known from route:list
+    source?: 'artisan';
+    // Set for routes expanded from Route::resource(), apiResource() or singleton(), whose names are generated
+    resource?: boolean;
     filePath: string;
     line: number;
     column: number;
 }
 
+// Entry of `php artisan route:list --json`
+interface ArtisanRoute {
+    domain: string | null;
+    method: string;
+    uri: string;
+    name: string | null;
+    action: string;
+    middleware: string[] | string;
+}
+
+// Effective group attributes for the routes declared inside a group
+interface RouteScope {
+    prefix: string;
+    middleware: string[];
+    namePrefix: string;
+    domain?: string;
+    controller?: string;
+    scopeBindings?: boolean;
+}
+
+interface RouteFileRegistration {
+    filePath: string;
+    scope: RouteScope;
+}
+
+interface RouteStatement {
+    text: string;
+    offset: number;
+    scope: RouteScope;
+}
+
+interface RouteFrame {
+    kind: 'group' | 'block';
+    scope: RouteScope;
+    start: number;
+    depth: number;
+    opensBlock: boolean;
+}
+
+export interface RouteBinding {
+    parameter: string;
+    // Short class name of the type-hinted model
+    model?: string;
+    bindingField?: string;
+    scoped: boolean;
+    withTrashed: boolean;
+    // Undefined when the controller method could not be read
+    hasArgument?: boolean;
+}
+
+// Patterns registered by ->whereNumber(), ->whereAlpha() and friends
+const WHERE_HELPER_PATTERNS: Record<string, string> = {
+    Number: '[0-9]+',
+    Alpha: '[a-zA-Z]+',
+    AlphaNumeric: '[a-zA-Z0-9]+',
+    Uuid: '[\\da-fA-F]{8}-[\\da-fA-F]{4}-[\\da-fA-F]{4}-[\\da-fA-F]{4}-[\\da-fA-F]{12}',
+    Ulid: '[0-7][0-9a-hjkmnp-tv-zA-HJKMNP-TV-Z]{25}'
+};
+
+// Values tried in order when an example has to satisfy a where() constraint
+const EXAMPLE_VALUES = [
+    '123',
+    'abc',
+    'abc123',
+    'example-slug',
+    '9b2e7a4c-1f3d-4e5a-8c6b-2d7f9e1a3b5c',
+    '01ARZ3NDEKTSV4RRFFQ69G5FAV'
+];
+
+// Magic methods a controller may declare publicly that never handle a route
+export const NON_ROUTE_METHODS = [
+    '__construct', '__destruct', '__call', '__callStatic',
+    '__get', '__set', '__isset', '__unset', '__sleep',
+    '__wakeup', '__toString', '__set_state',
+    '__clone', '__debugInfo'
+];
+
+// Type hints that never resolve through implicit binding
+const SCALAR_TYPES = new Set(['int', 'string', 'float', 'bool', 'array', 'mixed', 'callable', 'iterable', 'object', 'null']);
+
+// HTTP verbs and URI suffixes registered for each resource action
+const RESOURCE_ACTIONS: Record<string, { methods: string[]; suffix: string; member: boolean }> = {
+    index: { methods: ['GET'], suffix: '', member: false },
+    create: { methods: ['GET'], suffix: 'create', member: false },
+    store: { methods: ['POST'], suffix: '', member: false },
+    show: { methods: ['GET'], suffix: '', member: true },
+    edit: { methods: ['GET'], suffix: 'edit', member: true },
+    update: { methods: ['PUT', 'PATCH'], suffix: '', member: true },
+    destroy: { methods: ['DELETE'], suffix: '', member: true }
+};
+
+// Matches the text up to the `{` of a group closure: ->group(function () use ($x) {
+const GROUP_CLOSURE_PATTERN = /(?:->|::)group\s*\([\s\S]*(?:function|fn)\s*\([^)]*\)\s*(?:use\s*\([^)]*\)\s*)?(?::\s*\??[\w\\]+\s*)?$/;
+
+// Renders route file text inertly, a code span cannot open links or run commands
+function codeSpan(value: string): string {
+    return `\`${value.replace(/[`\r\n]/g, '')}\``;
+}
+
 // Enhanced Controller CodeLens with settings
 export class EnhancedControllerCodeLensProvider implements vscode.CodeLensProvider {
     constructor(private routeProvider: EnhancedRouteInlayProvider) {}
@@ -494,6 +1865,11 @@ export class EnhancedControllerCodeLensProvider implements vscode.CodeLensProvid
         const controllerName = this.extractControllerName(document.fileName);
         if (!controllerName) return codeLenses;
 
+        // Abstract base controllers are never routed directly, and without parsed routes every method would qualify
+        const showUnrouted = LaravelSettings.showUnroutedLens &&
+            !/abstract\s+class/.test(text) &&
+            this.routeProvider.getAllRoutes().length > 0;
+
         // Find public functions (controller methods)
         lines.forEach((line, index) => {
             const methodMatch = line.match(/public\s+function\s+(\w+)\s*\(/);
@@ -504,19 +1880,35 @@ export class EnhancedControllerCodeLensProvider implements vscode.CodeLensProvid
                 if (this.isRouteMethod(methodName)) {
                     const routes = this.routeProvider.getRoutesForController(controllerName, methodName);
                     
+                    if (routes.length === 0 && showUnrouted) {
+                        const position = new vscode.Position(index, 0);
+                        const addLens = new vscode.CodeLens(new vscode.Range(position, position));
+                        addLens.command = {
+                            title: '$(add) Add route',
+                            command: 'laravel.addControllerRoute',
+                            arguments: [controllerName, methodName]
+                        };
+                        codeLenses.push(addLens);
+                    }
+
                     if (routes.length > 0) {
                         const position = new vscode.Position(index, 0);
                         
                         routes.forEach((route, routeIndex) => {
                             const lens = new vscode.CodeLens(new vscode.Range(position, position));
                             
-                            let title = `${route.method.join('|')} ${route.uri}`;
+                            let title = `${route.method.join('|')} ${this.routeProvider.getDisplayUri(route)}`;
                             if (route.name) {
                                 title += ` [${route.name}]`;
                             }
                             if (LaravelSettings.showMiddleware && route.middleware && route.middleware.length > 0) {
                                 title += ` | ${route.middleware.join(', ')}`;
                             }
+
+                            const bindings = this.routeProvider.getRouteBindings(route).filter(binding => binding.model);
+                            if (bindings.length > 0) {
+                                title += ` | ${bindings.map(binding => this.routeProvider.formatBinding(binding)).join('; ')}`;
+                            }
                             
                             lens.command = {
                                 title,
@@ -526,6 +1918,14 @@ export class EnhancedControllerCodeLensProvider implements vscode.CodeLensProvid
                             
                             codeLenses.push(lens);
                         });
+
+                        const requestLens = new vscode.CodeLens(new vscode.Range(position, position));
+                        requestLens.command = {
+                            title: '$(file-code) .http',
+                            command: 'laravel.generateHttpRequest',
+                            arguments: [routes]
+                        };
+                        codeLenses.push(requestLens);
                     }
                 }
             }
@@ -547,14 +1947,226 @@ export class EnhancedControllerCodeLensProvider implements vscode.CodeLensProvid
 
     private isRouteMethod(methodName: string): boolean {
         // Skip common non-route methods
-        const skipMethods = [
-            '__construct', '__destruct', '__call', '__callStatic',
-            '__get', '__set', '__isset', '__unset', '__sleep',
-            '__wakeup', '__toString', '__invoke', '__set_state',
-            '__clone', '__debugInfo'
+        return !NON_ROUTE_METHODS.includes(methodName);
+    }
+}
+
+// Completion provider for route names in route(), to_route() and redirect()->route()
+export class RouteNameCompletionProvider implements vscode.CompletionItemProvider {
+    constructor(private routeProvider: EnhancedRouteInlayProvider) {}
+
+    provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): vscode.CompletionItem[] {
+        if (!LaravelSettings.routesCompletionEnabled) {
+            return [];
+        }
+
+        const lineText = document.lineAt(position).text;
+        const beforeCursor = lineText.substring(0, position.character);
+
+        // Check if we're inside a route helper call
+        const routeNamePatterns = [
+            /(?<![\w>:])route\s*\(\s*['"`]([^'"`]*)$/,
+            /to_route\s*\(\s*['"`]([^'"`]*)$/,
+            /->route\s*\(\s*['"`]([^'"`]*)$/,
+            /(?:URL|Redirect)::route\s*\(\s*['"`]([^'"`]*)$/,
+            /Route::has\s*\(\s*['"`]([^'"`]*)$/,
+            /->routeIs\s*\(\s*['"`]([^'"`]*)$/,
+            /Route::is\s*\(\s*['"`]([^'"`]*)$/
         ];
-        
-        return !skipMethods.includes(methodName);
+
+        let typedName: string | undefined;
+        for (const pattern of routeNamePatterns) {
+            const match = beforeCursor.match(pattern);
+            if (match) {
+                typedName = match[1];
+                break;
+            }
+        }
+
+        if (typedName === undefined) {
+            return [];
+        }
+
+        // Replace everything typed since the opening quote, dots included
+        const replaceRange = new vscode.Range(
+            position.line,
+            position.character - typedName.length,
+            position.line,
+            position.character
+        );
+
+        return this.routeProvider.getNamedRoutes().map(route => {
+            const item = new vscode.CompletionItem(route.name!, vscode.CompletionItemKind.Reference);
+            item.detail = `${route.method.join('|')} ${this.routeProvider.getDisplayUri(route)}`;
+            item.documentation = this.createRouteDocumentation(route);
+            item.insertText = route.name;
+            item.range = replaceRange;
+            return item;
+        });
+    }
+
+    private createRouteDocumentation(route: RouteInfo): vscode.MarkdownString {
+        const doc = new vscode.MarkdownString();
+        doc.appendMarkdown(`**Methods:** ${route.method.join(', ')}\n\n`);
+        doc.appendMarkdown(`**URI Pattern:** \`${route.uri}\`\n\n`);
+        doc.appendMarkdown(`**Action:** ${route.action || 'Closure'}\n\n`);
+
+        if (route.middleware && route.middleware.length > 0) {
+            doc.appendMarkdown(`**Middleware:** ${route.middleware.join(', ')}\n\n`);
+        }
+
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        const file = workspaceRoot ? path.relative(workspaceRoot, route.filePath) : route.filePath;
+        doc.appendMarkdown(`_Defined in ${file}:${route.line}_`);
+        return doc;
+    }
+}
+
+// Completion provider for parameter keys in route('name', [...])
+export class RouteParameterCompletionProvider implements vscode.CompletionItemProvider {
+    constructor(private routeProvider: EnhancedRouteInlayProvider) {}
+
+    provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): vscode.CompletionItem[] {
+        if (!LaravelSettings.routesCompletionEnabled) {
+            return [];
+        }
+
+        const context = RouteSignatureHelpProvider.findCallAt(document, position);
+        if (!context || RouteCallParser.getArgumentIndex(context.call, context.offset) !== 1) {
+            return [];
+        }
+
+        const route = this.routeProvider.getRouteByName(context.call.name);
+        const argument = context.call.arguments[1];
+        const beforeCursor = argument.text.substring(0, context.offset - argument.offset);
+        if (!route || !beforeCursor.trim().startsWith('[')) {
+            return [];
+        }
+
+        // Only complete in key position of the current array element
+        const elements = RouteCallParser.splitArrayElements(beforeCursor.trimStart());
+        const keyMatch = elements[elements.length - 1].match(/^\s*(['"]?)(\w*)$/);
+        if (!keyMatch) {
+            return [];
+        }
+
+        const [, quote, typed] = keyMatch;
+        const provided = RouteCallParser.getProvidedParameters(argument.text);
+        const usedKeys = provided ? provided.keys : [];
+        const replaceRange = new vscode.Range(
+            position.line,
+            position.character - typed.length,
+            position.line,
+            position.character
+        );
+
+        return this.routeProvider.getUrlParameters(route)
+            .filter(parameter => !usedKeys.includes(parameter.name))
+            .map((parameter, index) => {
+                const item = new vscode.CompletionItem(parameter.name, vscode.CompletionItemKind.Field);
+                item.detail = parameter.optional ? 'optional' : 'required';
+                item.documentation = new vscode.MarkdownString(`\`${this.routeProvider.getDisplayUri(route)}\``);
+                item.sortText = String(index).padStart(3, '0');
+                item.range = replaceRange;
+                // An opening quote is usually auto-closed, only the key itself is needed then
+                item.insertText = quote ? parameter.name : new vscode.SnippetString(`'${parameter.name}' => $0`);
+                return item;
+            });
+    }
+}
+
+// Signature help for route('name', [parameters], absolute)
+export class RouteSignatureHelpProvider implements vscode.SignatureHelpProvider {
+    constructor(private routeProvider: EnhancedRouteInlayProvider) {}
+
+    provideSignatureHelp(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): vscode.SignatureHelp | undefined {
+        const context = RouteSignatureHelpProvider.findCallAt(document, position);
+        if (!context) {
+            return undefined;
+        }
+
+        const route = this.routeProvider.getRouteByName(context.call.name);
+        if (!route) {
+            return undefined;
+        }
+
+        const parameters = this.routeProvider.getUrlParameters(route);
+        const nameLabel = `'${route.name}'`;
+        const parametersLabel = parameters.length > 0
+            ? `[${parameters.map(parameter => `'${parameter.name}'${parameter.optional ? '?' : ''} => …`).join(', ')}]`
+            : 'array $parameters = []';
+        const absoluteLabel = 'bool $absolute = true';
+        const label = `route(${nameLabel}, ${parametersLabel}, ${absoluteLabel})`;
+
+        const signature = new vscode.SignatureInformation(label, this.createDocumentation(route));
+        const nameStart = label.indexOf(nameLabel);
+        const parametersStart = nameStart + nameLabel.length + 2;
+        const absoluteStart = parametersStart + parametersLabel.length + 2;
+
+        signature.parameters = [
+            new vscode.ParameterInformation([nameStart, nameStart + nameLabel.length], 'Route name'),
+            new vscode.ParameterInformation(
+                [parametersStart, parametersStart + parametersLabel.length],
+                this.createParametersDocumentation(parameters)
+            ),
+            new vscode.ParameterInformation(
+                [absoluteStart, absoluteStart + absoluteLabel.length],
+                'Generate an absolute URL including the application URL'
+            )
+        ];
+
+        const help = new vscode.SignatureHelp();
+        help.signatures = [signature];
+        help.activeSignature = 0;
+        help.activeParameter = Math.min(RouteCallParser.getArgumentIndex(context.call, context.offset), 2);
+        return help;
+    }
+
+    // Route helper calls may span several lines, look at the surrounding text only
+    static findCallAt(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): { call: RouteCall; offset: number } | undefined {
+        const start = new vscode.Position(Math.max(0, position.line - 20), 0);
+        const end = document.lineAt(Math.min(document.lineCount - 1, position.line + 20)).range.end;
+        const text = document.getText(new vscode.Range(start, end));
+        const offset = document.offsetAt(position) - document.offsetAt(start);
+
+        const call = RouteCallParser.findEnclosingCall(text, offset);
+        return call ? { call, offset } : undefined;
+    }
+
+    private createDocumentation(route: RouteInfo): vscode.MarkdownString {
+        const doc = new vscode.MarkdownString();
+        doc.appendMarkdown(`\`${route.method.join('|')} ${this.routeProvider.getDisplayUri(route)}\``);
+        if (route.action) {
+            doc.appendMarkdown(` → ${route.action}`);
+        }
+        return doc;
+    }
+
+    private createParametersDocumentation(parameters: UriParameter[]): vscode.MarkdownString {
+        const doc = new vscode.MarkdownString();
+
+        if (parameters.length === 0) {
+            doc.appendMarkdown('This route has no URI parameters, extra values are appended as a query string');
+            return doc;
+        }
+
+        parameters.forEach(parameter => {
+            const binding = parameter.bindingField ? ` (bound by \`${parameter.bindingField}\`)` : '';
+            doc.appendMarkdown(`- \`${parameter.name}\` ${parameter.optional ? 'optional' : 'required'}${binding}\n`);
+        });
+        return doc;
     }
 }
 
@@ -569,37 +2181,57 @@ export class RouteHoverProvider implements vscode.HoverProvider {
         const line = document.lineAt(position).text;
         
         // Check if hovering over a route definition
-        const routeMatch = line.match(/Route::(get|post|put|patch|delete|options|head|any|resource|apiResource|match|group)/);
+        const routeMatch = line.match(/Route::(get|post|put|patch|delete|options|head|any|resources?|apiResources?|singleton|apiSingleton|match|redirect|permanentRedirect|view|fallback|group)/);
         if (routeMatch) {
             const allRoutes = this.routeInlayProvider.getAllRoutes();
-            const currentRoute = allRoutes.find(route => 
+            const lineRoutes = allRoutes.filter(route => 
                 route.filePath === document.fileName && 
                 route.line === position.line + 1
             );
             
-            if (currentRoute) {
+            if (lineRoutes.length > 0) {
                 const content = new vscode.MarkdownString();
                 content.appendMarkdown(`## Route Information\n\n`);
-                content.appendMarkdown(`**Methods:** ${currentRoute.method.join(', ')}\n\n`);
-                content.appendMarkdown(`**URI Pattern:** \`${currentRoute.uri}\`\n\n`);
-                
-                if (currentRoute.name) {
-                    content.appendMarkdown(`**Route Name:** \`${currentRoute.name}\`\n\n`);
-                }
-                
-                if (currentRoute.action) {
-                    content.appendMarkdown(`**Action:** ${currentRoute.action}\n\n`);
-                }
-                
-                // Add example URLs
-                content.appendMarkdown(`**Example URLs:**\n`);
-                if (currentRoute.uri.includes('{')) {
-                    const exampleUri = currentRoute.uri.replace(/\{[^}]+\}/g, '1');
-                    content.appendMarkdown(`- \`${exampleUri}\`\n`);
-                } else {
-                    content.appendMarkdown(`- \`${currentRoute.uri}\`\n`);
-                }
-                
+
+                lineRoutes.forEach((currentRoute, index) => {
+                    if (index > 0) {
+                        content.appendMarkdown(`---\n\n`);
+                    }
+
+                    content.appendMarkdown(`**Methods:** ${currentRoute.method.map(codeSpan).join(', ')}\n\n`);
+                    content.appendMarkdown(`**URI Pattern:** ${codeSpan(currentRoute.uri)}\n\n`);
+
+                    if (currentRoute.domain) {
+                        content.appendMarkdown(`**Domain:** ${codeSpan(currentRoute.domain)}\n\n`);
+                    }
+                    
+                    if (currentRoute.name) {
+                        content.appendMarkdown(`**Route Name:** ${codeSpan(currentRoute.name)}\n\n`);
+                    }
+                    
+                    if (currentRoute.action) {
+                        content.appendMarkdown(`**Action:** ${codeSpan(currentRoute.action)}\n\n`);
+                    }
+
+                    if (currentRoute.view) {
+                        content.appendMarkdown(`**View:** ${this.routeInlayProvider.formatViewLink(currentRoute.view)}\n\n`);
+                    }
+                    
+                    // Add example URLs
+                    content.appendMarkdown(`**Example URLs:**\n`);
+                    this.routeInlayProvider.generateExampleUrls(currentRoute).forEach(url => {
+                        content.appendMarkdown(`- ${codeSpan(url)}\n`);
+                    });
+                    content.appendMarkdown(`\n`);
+
+                    const args = encodeURIComponent(JSON.stringify([currentRoute]));
+                    content.appendMarkdown(`[$(file-code) .http request](command:laravel.generateHttpRequest?${args}) · `);
+                    content.appendMarkdown(`[$(terminal) Copy curl](command:laravel.copyCurlCommand?${args})\n\n`);
+                });
+
+                // Only the two request commands may run, whatever else the route file put in the hover
+                content.isTrusted = { enabledCommands: ['laravel.generateHttpRequest', 'laravel.copyCurlCommand'] };
+                content.supportThemeIcons = true;
                 return new vscode.Hover(content);
             }
         }
@@ -614,6 +2246,11 @@ export class RouteCommands {
         // Open route definition from controller
         context.subscriptions.push(
             vscode.commands.registerCommand('laravel.openRoute', (filePath: string, line: number) => {
+                if (!filePath) {
+                    vscode.window.showInformationMessage('This route is registered outside the project and has no source location');
+                    return;
+                }
+
                 vscode.workspace.openTextDocument(filePath).then(doc => {
                     vscode.window.showTextDocument(doc).then(editor => {
                         const position = new vscode.Position(line - 1, 0);
@@ -629,7 +2266,7 @@ export class RouteCommands {
             vscode.commands.registerCommand('laravel.showAllRoutes', () => {
                 const routes = routeProvider.getAllRoutes();
                 const items: vscode.QuickPickItem[] = routes.map(route => ({
-                    label: `${route.method.join('|')} ${route.uri}`,
+                    label: `${route.method.join('|')} ${routeProvider.getDisplayUri(route)}`,
                     description: route.action || 'Closure',
                     detail: route.name ? `Named: ${route.name}` : undefined,
                     // Store route info in custom property
@@ -653,13 +2290,13 @@ export class RouteCommands {
         context.subscriptions.push(
             vscode.commands.registerCommand('laravel.generateRouteList', () => {
                 const routes = routeProvider.getAllRoutes();
-                this.generateRouteListDocument(routes);
+                this.generateRouteListDocument(routes, routeProvider);
             })
         );
     }
 
-    private static generateRouteListDocument(routes: RouteInfo[]) {
-        const content = this.generateRouteListContent(routes);
+    private static generateRouteListDocument(routes: RouteInfo[], routeProvider: EnhancedRouteInlayProvider) {
+        const content = this.generateRouteListContent(routes, routeProvider);
         
         vscode.workspace.openTextDocument({
             content,
@@ -669,7 +2306,7 @@ export class RouteCommands {
         });
     }
 
-    private static generateRouteListContent(routes: RouteInfo[]): string {
+    private static generateRouteListContent(routes: RouteInfo[], routeProvider: EnhancedRouteInlayProvider): string {
         let content = `# Laravel Routes\n\n`;
         content += `Generated on: ${new Date().toLocaleString()}\n\n`;
         content += `Total routes: ${routes.length}\n\n`;
@@ -693,7 +2330,7 @@ export class RouteCommands {
             groupedRoutes[method].forEach(route => {
                 const action = route.action || 'Closure';
                 const name = route.name || '-';
-                content += `| \`${route.uri}\` | ${action} | ${name} |\n`;
+                content += `| \`${routeProvider.getDisplayUri(route)}\` | ${action} | ${name} |\n`;
             });
             
             content += `\n`;
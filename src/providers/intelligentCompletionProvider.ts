@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { EnhancedRouteInlayProvider } from './enhancedRouteInlayProvider';
 
 interface ModelField {
     name: string;
@@ -39,7 +40,7 @@ export class LaravelIntelligentCompletionProvider implements vscode.CompletionIt
     private views: Map<string, ViewInfo> = new Map();
     private migrations: Map<string, ModelField[]> = new Map();
 
-    constructor(private workspaceRoot: string) {
+    constructor(private workspaceRoot: string, private routeProvider?: EnhancedRouteInlayProvider) {
         this.analyzeProject();
         this.setupWatchers();
     }
@@ -637,6 +638,11 @@ export class LaravelIntelligentCompletionProvider implements vscode.CompletionIt
     ): string | null {
         const text = document.getText();
 
+        const boundModel = this.inferModelFromRouteBinding(document, position, variableName);
+        if (boundModel) {
+            return boundModel;
+        }
+
         // Look for variable assignment patterns
         const patterns = [
             // $user = User::find()
@@ -660,6 +666,32 @@ export class LaravelIntelligentCompletionProvider implements vscode.CompletionIt
         return null;
     }
 
+    // Inside a controller action, {post} in the route URI binds $post to the type-hinted model
+    private inferModelFromRouteBinding(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        variableName: string
+    ): string | null {
+        if (!this.routeProvider) return null;
+
+        const controllerName = path.basename(document.fileName, '.php');
+        const textBefore = document.getText(new vscode.Range(new vscode.Position(0, 0), position));
+        const methods = Array.from(textBefore.matchAll(/function\s+(\w+)\s*\(/g));
+        const enclosingMethod = methods[methods.length - 1];
+        if (!enclosingMethod) return null;
+
+        const routes = this.routeProvider.getRoutesForController(controllerName, enclosingMethod[1]);
+        for (const route of routes) {
+            const binding = this.routeProvider.getRouteBindings(route)
+                .find(candidate => candidate.parameter === variableName && candidate.model);
+            if (binding) {
+                return binding.model!;
+            }
+        }
+
+        return null;
+    }
+
     private inferModelFromClass(document: vscode.TextDocument): string | null {
         const text = document.getText();
 
@@ -0,0 +1,357 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LaravelSettings } from '../utils/settings';
+
+interface MiddlewareAlias {
+    name: string;
+    className: string;
+    source: 'framework' | 'kernel' | 'bootstrap';
+}
+
+// Aliases registered by the framework itself (Illuminate\Foundation\Configuration\Middleware)
+const FRAMEWORK_ALIASES: Record<string, string> = {
+    'auth': 'Illuminate\\Auth\\Middleware\\Authenticate',
+    'auth.basic': 'Illuminate\\Auth\\Middleware\\AuthenticateWithBasicAuth',
+    'auth.session': 'Illuminate\\Session\\Middleware\\AuthenticateSession',
+    'cache.headers': 'Illuminate\\Http\\Middleware\\SetCacheHeaders',
+    'can': 'Illuminate\\Auth\\Middleware\\Authorize',
+    'guest': 'Illuminate\\Auth\\Middleware\\RedirectIfAuthenticated',
+    'password.confirm': 'Illuminate\\Auth\\Middleware\\RequirePassword',
+    'precognitive': 'Illuminate\\Foundation\\Http\\Middleware\\HandlePrecognitiveRequests',
+    'signed': 'Illuminate\\Routing\\Middleware\\ValidateSignature',
+    'throttle': 'Illuminate\\Routing\\Middleware\\ThrottleRequests',
+    'verified': 'Illuminate\\Auth\\Middleware\\EnsureEmailIsVerified'
+};
+
+const FRAMEWORK_GROUPS: Record<string, string[]> = {
+    'web': [
+        'Illuminate\\Cookie\\Middleware\\EncryptCookies',
+        'Illuminate\\Cookie\\Middleware\\AddQueuedCookiesToResponse',
+        'Illuminate\\Session\\Middleware\\StartSession',
+        'Illuminate\\View\\Middleware\\ShareErrorsFromSession',
+        'Illuminate\\Foundation\\Http\\Middleware\\ValidateCsrfToken',
+        'Illuminate\\Routing\\Middleware\\SubstituteBindings'
+    ],
+    'api': [
+        'Illuminate\\Routing\\Middleware\\SubstituteBindings'
+    ]
+};
+
+// ->middleware('auth'), Route::middleware(['web', 'auth']), withoutMiddleware(...), 'middleware' => [...]
+export const MIDDLEWARE_CALL_PATTERN = /(?:(?:->|::)(?:middleware|withoutMiddleware)\s*\(\s*|['"]middleware['"]\s*=>\s*)(?:\[[^\]]*?)?['"`]([^'"`]*)$/;
+
+// Resolves middleware aliases and groups from app/Http/Kernel.php and bootstrap/app.php
+export class MiddlewareProvider {
+    private aliases: Map<string, MiddlewareAlias> = new Map();
+    private groups: Map<string, string[]> = new Map();
+    private namespaceRoots: Map<string, string> = new Map();
+
+    constructor(private workspaceRoot: string) {
+        this.loadMiddleware();
+        this.setupWatchers();
+    }
+
+    private setupWatchers() {
+        const patterns = ['**/app/Http/Kernel.php', '**/bootstrap/app.php'];
+
+        patterns.forEach(pattern => {
+            const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+            watcher.onDidChange(() => this.loadMiddleware());
+            watcher.onDidCreate(() => this.loadMiddleware());
+            watcher.onDidDelete(() => this.loadMiddleware());
+        });
+    }
+
+    private loadMiddleware() {
+        this.aliases.clear();
+        this.groups.clear();
+        this.loadNamespaceRoots();
+
+        Object.entries(FRAMEWORK_ALIASES).forEach(([name, className]) => {
+            this.aliases.set(name, { name, className, source: 'framework' });
+        });
+        Object.entries(FRAMEWORK_GROUPS).forEach(([name, classes]) => {
+            this.groups.set(name, [...classes]);
+        });
+
+        this.parseKernel(path.join(this.workspaceRoot, 'app', 'Http', 'Kernel.php'));
+        this.parseBootstrap(path.join(this.workspaceRoot, 'bootstrap', 'app.php'));
+    }
+
+    private loadNamespaceRoots() {
+        this.namespaceRoots.clear();
+        this.namespaceRoots.set('App\\', 'app');
+        this.namespaceRoots.set('Illuminate\\', path.join('vendor', 'laravel', 'framework', 'src', 'Illuminate'));
+
+        try {
+            const composerPath = path.join(this.workspaceRoot, 'composer.json');
+            if (!fs.existsSync(composerPath)) return;
+
+            const composer = JSON.parse(fs.readFileSync(composerPath, 'utf8'));
+            const psr4: Record<string, string | string[]> = composer.autoload?.['psr-4'] || {};
+            Object.entries(psr4).forEach(([namespace, directory]) => {
+                const target = Array.isArray(directory) ? directory[0] : directory;
+                this.namespaceRoots.set(namespace, target.replace(/\/+$/, ''));
+            });
+        } catch (error) {
+            console.error('Error parsing composer.json:', error);
+        }
+    }
+
+    // Laravel 10 and earlier: $middlewareAliases / $routeMiddleware and $middlewareGroups
+    private parseKernel(filePath: string) {
+        if (!fs.existsSync(filePath)) return;
+
+        try {
+            const content = this.stripComments(fs.readFileSync(filePath, 'utf8'));
+            const imports = this.extractImports(content);
+
+            const aliasesMatch = content.match(/\$(?:middlewareAliases|routeMiddleware)\s*=\s*\[([\s\S]*?)\];/);
+            if (aliasesMatch) {
+                this.parseAliasArray(aliasesMatch[1], imports, 'kernel');
+            }
+
+            const groupsMatch = content.match(/\$middlewareGroups\s*=\s*\[([\s\S]*?)\]\s*;/);
+            if (groupsMatch) {
+                const groupRegex = /['"]([\w.-]+)['"]\s*=>\s*\[([\s\S]*?)\]/g;
+                let group;
+                while ((group = groupRegex.exec(groupsMatch[1])) !== null) {
+                    this.groups.set(group[1], this.extractMiddlewareList(group[2], imports));
+                }
+            }
+        } catch (error) {
+            console.error(`Error parsing ${filePath}:`, error);
+        }
+    }
+
+    // Laravel 11+: ->withMiddleware(function (Middleware $middleware) { ... })
+    private parseBootstrap(filePath: string) {
+        if (!fs.existsSync(filePath)) return;
+
+        try {
+            const content = this.stripComments(fs.readFileSync(filePath, 'utf8'));
+            const imports = this.extractImports(content);
+            let match;
+
+            const aliasRegex = /->alias\s*\(\s*\[([\s\S]*?)\]\s*\)/g;
+            while ((match = aliasRegex.exec(content)) !== null) {
+                this.parseAliasArray(match[1], imports, 'bootstrap');
+            }
+
+            // $middleware->group('admin', [...]) replaces, append/prependToGroup extend
+            const groupRegex = /->(group|appendToGroup|prependToGroup)\s*\(\s*['"]([\w.-]+)['"]\s*,\s*(\[[\s\S]*?\]|[^)]+)\)/g;
+            while ((match = groupRegex.exec(content)) !== null) {
+                const [, method, name, list] = match;
+                const middleware = this.extractMiddlewareList(list, imports);
+                const existing = method === 'group' ? [] : (this.groups.get(name) || []);
+
+                this.groups.set(name, method === 'prependToGroup' ? [...middleware, ...existing] : [...existing, ...middleware]);
+            }
+
+            // $middleware->web(append: [...], prepend: [...], remove: [...])
+            const namedGroupRegex = /->(web|api)\s*\(([\s\S]*?)\)\s*;/g;
+            while ((match = namedGroupRegex.exec(content)) !== null) {
+                const [, name, args] = match;
+                const argument = (key: string) => {
+                    const argumentMatch = args.match(new RegExp(`${key}\\s*:\\s*(\\[[\\s\\S]*?\\]|[^,)]+)`));
+                    return argumentMatch ? this.extractMiddlewareList(argumentMatch[1], imports) : [];
+                };
+
+                const removed = argument('remove');
+                const current = (this.groups.get(name) || []).filter(middleware => !removed.includes(middleware));
+                this.groups.set(name, [...argument('prepend'), ...current, ...argument('append')]);
+            }
+        } catch (error) {
+            console.error(`Error parsing ${filePath}:`, error);
+        }
+    }
+
+    private parseAliasArray(content: string, imports: Map<string, string>, source: MiddlewareAlias['source']) {
+        const entryRegex = /['"]([\w.-]+)['"]\s*=>\s*([\\\w]+)::class/g;
+        let entry;
+
+        while ((entry = entryRegex.exec(content)) !== null) {
+            this.aliases.set(entry[1], {
+                name: entry[1],
+                className: this.resolveClassName(entry[2], imports),
+                source
+            });
+        }
+    }
+
+    // Class references become fully qualified names, string entries stay aliases like 'throttle:api'
+    private extractMiddlewareList(content: string, imports: Map<string, string>): string[] {
+        const middleware: string[] = [];
+        const itemRegex = /([\\\w]+)::class|['"]([^'"]+)['"]/g;
+        let item;
+
+        while ((item = itemRegex.exec(content)) !== null) {
+            middleware.push(item[1] ? this.resolveClassName(item[1], imports) : item[2]);
+        }
+
+        return middleware;
+    }
+
+    private extractImports(content: string): Map<string, string> {
+        const imports = new Map<string, string>();
+        const useRegex = /^use\s+([\w\\]+)(?:\s+as\s+(\w+))?\s*;/gm;
+        let match;
+
+        while ((match = useRegex.exec(content)) !== null) {
+            const alias = match[2] || match[1].split('\\').pop()!;
+            imports.set(alias, match[1]);
+        }
+
+        return imports;
+    }
+
+    private resolveClassName(name: string, imports: Map<string, string>): string {
+        if (name.startsWith('\\')) {
+            return name.substring(1);
+        }
+
+        const [first, ...rest] = name.split('\\');
+        const imported = imports.get(first);
+        return imported ? [imported, ...rest].join('\\') : name;
+    }
+
+    private stripComments(content: string): string {
+        return content
+            .replace(/\/\*[\s\S]*?\*\//g, '')
+            .replace(/^\s*(?:\/\/|#).*$/gm, '');
+    }
+
+    public getAliases(): MiddlewareAlias[] {
+        return Array.from(this.aliases.values());
+    }
+
+    public getGroups(): Map<string, string[]> {
+        return this.groups;
+    }
+
+    public getAlias(middleware: string): MiddlewareAlias | undefined {
+        return this.aliases.get(middleware.split(':')[0]);
+    }
+
+    /**
+     * Expand a route middleware string into the classes it runs, groups are expanded recursively
+     */
+    public expandMiddleware(middleware: string, seen: Set<string> = new Set()): string[] {
+        const group = this.groups.get(middleware);
+        if (group) {
+            if (seen.has(middleware)) return [];
+            seen.add(middleware);
+            return group.flatMap(entry => this.expandMiddleware(entry, seen));
+        }
+
+        const alias = this.getAlias(middleware);
+        if (alias) {
+            const parameters = middleware.includes(':') ? middleware.substring(middleware.indexOf(':')) : '';
+            return [alias.className + parameters];
+        }
+
+        return [middleware];
+    }
+
+    public getClassFilePath(className: string): string | undefined {
+        const normalized = className.replace(/^\\/, '').split(':')[0];
+
+        // Longest namespace prefix wins, App\Http\ before App\
+        const roots = Array.from(this.namespaceRoots.keys()).sort((a, b) => b.length - a.length);
+        for (const namespace of roots) {
+            if (normalized.startsWith(namespace)) {
+                const relative = normalized.substring(namespace.length).split('\\');
+                const filePath = path.join(this.workspaceRoot, this.namespaceRoots.get(namespace)!, ...relative) + '.php';
+                return fs.existsSync(filePath) ? filePath : undefined;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Location of the handle() method of an alias or middleware class
+     */
+    public getMiddlewareLocation(middleware: string): vscode.Location | undefined {
+        const alias = this.getAlias(middleware);
+        const filePath = this.getClassFilePath(alias ? alias.className : middleware);
+        if (!filePath) return undefined;
+
+        try {
+            const lines = fs.readFileSync(filePath, 'utf8').split('\n');
+            const handleLine = lines.findIndex(line => /function\s+handle\s*\(/.test(line));
+            const line = handleLine === -1 ? 0 : handleLine;
+            const character = handleLine === -1 ? 0 : lines[handleLine].indexOf('handle');
+            return new vscode.Location(vscode.Uri.file(filePath), new vscode.Position(line, character));
+        } catch (error) {
+            console.error(`Error reading middleware ${filePath}:`, error);
+            return undefined;
+        }
+    }
+}
+
+// Completion for middleware aliases and groups in ->middleware('...') and group arrays
+export class MiddlewareCompletionProvider implements vscode.CompletionItemProvider {
+    constructor(private middlewareProvider: MiddlewareProvider) {}
+
+    provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): vscode.CompletionItem[] {
+        if (!LaravelSettings.routesCompletionEnabled) {
+            return [];
+        }
+
+        const lineText = document.lineAt(position).text;
+        const beforeCursor = lineText.substring(0, position.character);
+
+        const match = beforeCursor.match(MIDDLEWARE_CALL_PATTERN);
+        if (!match) {
+            return [];
+        }
+
+        const typed = match[1];
+        const replaceRange = new vscode.Range(
+            position.line,
+            position.character - typed.length,
+            position.line,
+            position.character
+        );
+
+        const items: vscode.CompletionItem[] = [];
+
+        this.middlewareProvider.getGroups().forEach((classes, name) => {
+            const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Module);
+            item.detail = `Middleware group (${classes.length})`;
+            item.documentation = new vscode.MarkdownString(
+                classes.map(entry => `- \`${entry.split('\\').pop()}\``).join('\n')
+            );
+            item.range = replaceRange;
+            item.sortText = `0${name}`;
+            items.push(item);
+        });
+
+        this.middlewareProvider.getAliases().forEach(alias => {
+            const item = new vscode.CompletionItem(alias.name, vscode.CompletionItemKind.Class);
+            item.detail = alias.className;
+            item.documentation = new vscode.MarkdownString(`Registered in ${this.describeSource(alias.source)}`);
+            item.range = replaceRange;
+            item.sortText = `1${alias.name}`;
+            items.push(item);
+        });
+
+        return items;
+    }
+
+    private describeSource(source: MiddlewareAlias['source']): string {
+        switch (source) {
+            case 'kernel':
+                return '`app/Http/Kernel.php`';
+            case 'bootstrap':
+                return '`bootstrap/app.php`';
+            default:
+                return 'the framework';
+        }
+    }
+}
@@ -0,0 +1,486 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EnhancedRouteInlayProvider, RouteInfo, RouteBinding } from './enhancedRouteInlayProvider';
+import { LaravelRequestCompletionProvider } from './requestCompletionProvider';
+
+// Schema keywords generated from validation rules
+interface JsonSchema {
+    type?: string;
+    format?: string;
+    properties?: Record<string, JsonSchema>;
+    items?: JsonSchema;
+    required?: string[];
+    enum?: Array<string | number | boolean>;
+    nullable?: boolean;
+    pattern?: string;
+    minLength?: number;
+    maxLength?: number;
+    minimum?: number;
+    maximum?: number;
+    minItems?: number;
+    maxItems?: number;
+}
+
+// Document, operation, parameter and response objects around the schemas
+type OpenApiObject = Record<string, unknown>;
+
+// A generated document and the routes it could not hold
+interface OpenApiResult {
+    document: OpenApiObject;
+    // Same verb and URI as an earlier route, usually on another domain, a path item has one operation per verb
+    skipped: RouteInfo[];
+}
+
+// Security schemes implied by the authentication middleware of a route
+const SECURITY_SCHEMES: { pattern: RegExp; name: string; scheme: OpenApiObject }[] = [
+    { pattern: /^auth:(sanctum|api)\b/, name: 'bearerAuth', scheme: { type: 'http', scheme: 'bearer' } },
+    { pattern: /^auth\.basic\b/, name: 'basicAuth', scheme: { type: 'http', scheme: 'basic' } },
+    { pattern: /^auth(:web)?$/, name: 'sessionAuth', scheme: { type: 'apiKey', in: 'cookie', name: 'laravel_session' } }
+];
+
+// Validation rules that only set a string format
+const RULE_FORMATS: Record<string, string> = {
+    email: 'email',
+    url: 'uri',
+    active_url: 'uri',
+    uuid: 'uuid',
+    ulid: 'ulid',
+    ip: 'ip',
+    ipv4: 'ipv4',
+    ipv6: 'ipv6',
+    date: 'date',
+    password: 'password'
+};
+
+// Builds an OpenAPI 3 document from parsed routes and their FormRequest rules
+export class OpenApiGenerator {
+    constructor(
+        private routeProvider: EnhancedRouteInlayProvider,
+        private requestProvider: LaravelRequestCompletionProvider,
+        private workspaceRoot: string
+    ) {}
+
+    public generate(routes: RouteInfo[]): OpenApiResult {
+        const paths: Record<string, Record<string, OpenApiObject>> = {};
+        const securitySchemes: Record<string, OpenApiObject> = {};
+        const skipped = new Set<RouteInfo>();
+
+        routes.forEach(route => {
+            const pathKey = this.toPath(route.uri);
+            paths[pathKey] = paths[pathKey] || {};
+
+            route.method
+                .filter(method => method !== 'HEAD')
+                .map(method => method === 'ANY' ? 'GET' : method)
+                .forEach(method => {
+                    const verb = method.toLowerCase();
+                    if (paths[pathKey][verb]) {
+                        skipped.add(route);
+                        return;
+                    }
+                    paths[pathKey][verb] = this.createOperation(route, method, securitySchemes);
+                });
+        });
+
+        const document: OpenApiObject = {
+            openapi: '3.0.3',
+            info: { title: this.getTitle(), version: '1.0.0' },
+            servers: [{ url: this.routeProvider.getAppUrl() }],
+            paths
+        };
+        if (Object.keys(securitySchemes).length > 0) {
+            document.components = { securitySchemes };
+        }
+        return { document, skipped: Array.from(skipped) };
+    }
+
+    private createOperation(route: RouteInfo, method: string, securitySchemes: Record<string, OpenApiObject>): OpenApiObject {
+        // PUT|PATCH routes share a name, the verb keeps their operation ids unique
+        const sharedName = route.method.filter(verb => verb !== 'HEAD').length > 1;
+        const operation: OpenApiObject = {
+            operationId: route.name
+                ? (sharedName ? `${route.name}.${method.toLowerCase()}` : route.name)
+                : `${method.toLowerCase()}${this.toPath(route.uri)}`,
+            summary: route.action || 'Closure'
+        };
+
+        // Subdomain routes are served from their own host, {account} becomes a server variable
+        if (route.domain) {
+            const variables: Record<string, OpenApiObject> = {};
+            this.routeProvider.extractRouteParameters(route.domain).forEach(parameter => {
+                const name = parameter.replace(/\?$/, '');
+                variables[name] = { default: name };
+            });
+            const url = this.routeProvider.getRouteUrl({ ...route, uri: '/' }).replace(/\/$/, '').replace(/\{(\w+)\??\}/g, '{$1}');
+            operation.servers = [Object.keys(variables).length > 0 ? { url, variables } : { url }];
+        }
+
+        const tag = route.controller ? route.controller.replace(/Controller$/, '') : route.uri.split('/').filter(part => part)[0];
+        if (tag) {
+            operation.tags = [tag];
+        }
+
+        const bindings = this.routeProvider.getRouteBindings(route);
+        const parameters = this.createPathParameters(bindings);
+
+        const requestName = this.routeProvider.getFormRequest(route);
+        const request = requestName ? this.requestProvider.getRequest(requestName) : undefined;
+        if (request && request.fields.length > 0) {
+            const schema = this.createRequestSchema(request.fields);
+            if (method === 'GET' || method === 'DELETE') {
+                // GET input arrives as query string parameters
+                Object.entries(schema.properties || {}).forEach(([name, property]) => {
+                    parameters.push({
+                        name,
+                        in: 'query',
+                        required: (schema.required || []).includes(name),
+                        schema: property
+                    });
+                });
+            } else {
+                const hasFiles = JSON.stringify(schema).includes('"binary"');
+                operation.requestBody = {
+                    required: (schema.required || []).length > 0,
+                    content: { [hasFiles ? 'multipart/form-data' : 'application/json']: { schema } }
+                };
+            }
+        }
+
+        if (parameters.length > 0) {
+            operation.parameters = parameters;
+        }
+
+        const security = this.getSecurity(route, securitySchemes);
+        if (security.length > 0) {
+            operation.security = security.map(name => ({ [name]: [] }));
+        }
+
+        operation.responses = this.createResponses(route, {
+            secured: security.length > 0,
+            bindsModels: bindings.some(binding => binding.model),
+            validates: request !== undefined
+        });
+        return operation;
+    }
+
+    // OpenAPI path templates know neither binding fields nor optional markers
+    private toPath(uri: string): string {
+        return uri.replace(/\{(\w+)(?::\w+)?\??\}/g, '{$1}');
+    }
+
+    private createPathParameters(bindings: RouteBinding[]): OpenApiObject[] {
+        return bindings.map(binding => {
+            const parameter: OpenApiObject = {
+                name: binding.parameter,
+                in: 'path',
+                required: true,
+                // Models bound by their default key are looked up by id
+                schema: { type: binding.model && !binding.bindingField ? 'integer' : 'string' }
+            };
+            if (binding.model) {
+                parameter.description = `${binding.model} ${binding.bindingField ? `by ${binding.bindingField}` : 'id'}`;
+            }
+            return parameter;
+        });
+    }
+
+    private createResponses(
+        route: RouteInfo,
+        traits: { secured: boolean; bindsModels: boolean; validates: boolean }
+    ): OpenApiObject {
+        const responses: Record<string, OpenApiObject> = { '200': { description: 'Successful response' } };
+        const middleware = route.middleware || [];
+
+        if (traits.secured) {
+            responses['401'] = { description: 'Unauthenticated' };
+        }
+        if (traits.bindsModels) {
+            responses['404'] = { description: 'Model not found' };
+        }
+        if (traits.validates) {
+            responses['422'] = { description: 'Validation error' };
+        }
+        if (middleware.some(entry => /^throttle\b/.test(entry))) {
+            responses['429'] = { description: 'Too many requests' };
+        }
+        return responses;
+    }
+
+    private getSecurity(route: RouteInfo, securitySchemes: Record<string, OpenApiObject>): string[] {
+        const names: string[] = [];
+
+        (route.middleware || []).forEach(middleware => {
+            const match = SECURITY_SCHEMES.find(candidate => candidate.pattern.test(middleware));
+            if (match && !names.includes(match.name)) {
+                names.push(match.name);
+                securitySchemes[match.name] = match.scheme;
+            }
+        });
+        return names;
+    }
+
+    public createRequestSchema(fields: { field: string; rules: string[] }[]): JsonSchema {
+        const root: JsonSchema = { type: 'object', properties: {} };
+
+        fields.forEach(({ field, rules }) => {
+            const segments = field.split('.');
+            let parent = root;
+
+            // items.*.name lives in the object schema of the items array
+            for (let i = 0; i < segments.length - 1; i++) {
+                parent = this.getChildSchema(parent, segments[i], segments[i + 1] === '*');
+            }
+
+            const name = segments[segments.length - 1];
+            const schema = this.getChildSchema(parent, name, false);
+            this.applyRules(schema, rules);
+
+            if (rules.some(rule => rule === 'required') && name !== '*') {
+                parent.required = parent.required || [];
+                if (!parent.required.includes(name)) {
+                    parent.required.push(name);
+                }
+            }
+
+            // confirmed expects a matching <field>_confirmation input
+            if (rules.includes('confirmed') && name !== '*' && parent.properties) {
+                parent.properties[`${name}_confirmation`] = { ...schema };
+            }
+        });
+
+        return root;
+    }
+
+    private getChildSchema(parent: JsonSchema, segment: string, isArray: boolean): JsonSchema {
+        if (segment === '*') {
+            parent.type = 'array';
+            parent.items = parent.items || {};
+            return parent.items;
+        }
+
+        parent.type = parent.type || 'object';
+        parent.properties = parent.properties || {};
+        const child = parent.properties[segment] = parent.properties[segment] || {};
+        if (isArray) {
+            child.type = 'array';
+        }
+        return child;
+    }
+
+    private applyRules(schema: JsonSchema, rules: string[]) {
+        const names = rules.map(rule => rule.split(':')[0]);
+
+        if (names.includes('integer')) schema.type = 'integer';
+        else if (names.includes('numeric') || names.includes('decimal')) schema.type = 'number';
+        else if (names.includes('boolean') || names.includes('accepted') || names.includes('declined')) schema.type = 'boolean';
+        else if (names.includes('array') || names.includes('list')) schema.type = 'array';
+        else if (names.some(name => name === 'file' || name === 'image' || name === 'mimes' || name === 'mimetypes')) {
+            schema.type = 'string';
+            schema.format = 'binary';
+        } else if (!schema.type || schema.type === 'object' && !schema.properties) {
+            schema.type = 'string';
+        }
+
+        if (schema.type === 'array') {
+            schema.items = schema.items || {};
+        }
+
+        rules.forEach(rule => {
+            const [name, argument = ''] = rule.split(/:(.*)/s);
+            const values = argument.split(',');
+
+            if (RULE_FORMATS[name] && schema.type === 'string') {
+                schema.format = RULE_FORMATS[name];
+            }
+
+            switch (name) {
+                case 'nullable':
+                    schema.nullable = true;
+                    break;
+                case 'in':
+                    schema.enum = values.map(value => this.castValue(value.replace(/^"|"$/g, ''), schema.type));
+                    break;
+                case 'min':
+                case 'max':
+                case 'size':
+                    this.applyLimit(schema, name === 'max' ? 'max' : 'min', Number(values[0]));
+                    if (name === 'size') this.applyLimit(schema, 'max', Number(values[0]));
+                    break;
+                case 'between':
+                    this.applyLimit(schema, 'min', Number(values[0]));
+                    this.applyLimit(schema, 'max', Number(values[1]));
+                    break;
+                case 'digits':
+                    schema.pattern = `^\\d{${values[0]}}$`;
+                    break;
+                case 'regex':
+                    schema.pattern = argument.replace(/^(.)(.*)\1[a-z]*$/s, '$2');
+                    break;
+                case 'date_format':
+                    schema.format = /[HhGgis]/.test(argument) ? 'date-time' : 'date';
+                    break;
+            }
+        });
+    }
+
+    // min/max constrain the length of strings, the value of numbers and the count of arrays
+    private applyLimit(schema: JsonSchema, bound: 'min' | 'max', value: number) {
+        if (isNaN(value)) return;
+
+        if (schema.type === 'array') {
+            schema[bound === 'min' ? 'minItems' : 'maxItems'] = value;
+        } else if (schema.type === 'integer' || schema.type === 'number') {
+            schema[bound === 'min' ? 'minimum' : 'maximum'] = value;
+        } else {
+            schema[bound === 'min' ? 'minLength' : 'maxLength'] = value;
+        }
+    }
+
+    private castValue(value: string, type: string | undefined): string | number | boolean {
+        if ((type === 'integer' || type === 'number') && !isNaN(Number(value))) return Number(value);
+        if (type === 'boolean') return value === 'true' || value === '1';
+        return value;
+    }
+
+    private getTitle(): string {
+        const envPath = path.join(this.workspaceRoot, '.env');
+
+        try {
+            if (fs.existsSync(envPath)) {
+                const match = fs.readFileSync(envPath, 'utf8').match(/^APP_NAME\s*=\s*['"]?([^'"\n#]+)/m);
+                if (match) {
+                    return `${match[1].trim()} API`;
+                }
+            }
+        } catch (error) {
+            console.error(`Error reading ${envPath}:`, error);
+        }
+
+        return `${path.basename(this.workspaceRoot)} API`;
+    }
+
+    public toYaml(value: unknown, indent = 0): string {
+        const padding = ' '.repeat(indent);
+
+        if (Array.isArray(value)) {
+            if (value.length === 0) return '[]';
+            return value.map(item => {
+                const rendered = this.toYaml(item, indent + 2);
+                return this.isScalar(item) || this.isEmpty(item)
+                    ? `${padding}- ${rendered}`
+                    : `${padding}- ${rendered.trimStart()}`;
+            }).join('\n');
+        }
+
+        if (value !== null && typeof value === 'object') {
+            const entries = Object.entries(value as Record<string, unknown>);
+            if (entries.length === 0) return '{}';
+            return entries.map(([key, child]) => {
+                const renderedKey = this.formatScalar(key);
+                return this.isScalar(child) || this.isEmpty(child)
+                    ? `${padding}${renderedKey}: ${this.toYaml(child, indent + 2)}`
+                    : `${padding}${renderedKey}:\n${this.toYaml(child, indent + 2)}`;
+            }).join('\n');
+        }
+
+        return this.formatScalar(value);
+    }
+
+    private isScalar(value: unknown): boolean {
+        return value === null || typeof value !== 'object';
+    }
+
+    private isEmpty(value: unknown): boolean {
+        return Array.isArray(value) ? value.length === 0 : Object.keys(value as object).length === 0;
+    }
+
+    private formatScalar(value: unknown): string {
+        if (typeof value === 'number' || typeof value === 'boolean' || value === null) {
+            return String(value);
+        }
+
+        const text = String(value);
+        // Quote anything YAML could read as another type or as syntax
+        return /^[A-Za-z_][\w .\/@-]*$/.test(text) && !/^(true|false|null|yes|no|on|off|~)$/i.test(text) && !/\s$/.test(text)
+            ? text
+            : JSON.stringify(text);
+    }
+}
+
+export class OpenApiCommands {
+    static register(
+        context: vscode.ExtensionContext,
+        generator: OpenApiGenerator,
+        routeProvider: EnhancedRouteInlayProvider,
+        workspaceRoot: string
+    ) {
+        context.subscriptions.push(
+            vscode.commands.registerCommand('laravel.generateOpenApi', async () => {
+                const routes = await this.pickRoutes(routeProvider);
+                if (!routes) return;
+                if (routes.length === 0) {
+                    vscode.window.showWarningMessage('No routes match the selection');
+                    return;
+                }
+
+                const format = await vscode.window.showQuickPick(['yaml', 'json'], {
+                    placeHolder: 'OpenAPI document format'
+                });
+                if (!format) return;
+
+                const target = await vscode.window.showSaveDialog({
+                    defaultUri: vscode.Uri.file(path.join(workspaceRoot, `openapi.${format}`)),
+                    filters: format === 'yaml' ? { YAML: ['yaml', 'yml'] } : { JSON: ['json'] }
+                });
+                if (!target) return;
+
+                const { document, skipped } = generator.generate(routes);
+                const content = format === 'yaml'
+                    ? generator.toYaml(document) + '\n'
+                    : JSON.stringify(document, null, 2) + '\n';
+
+                try {
+                    fs.writeFileSync(target.fsPath, content);
+                    await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(target));
+                    if (skipped.length > 0) {
+                        const listed = skipped.map(route => `${route.method.join('|')} ${routeProvider.getDisplayUri(route)}`);
+                        vscode.window.showWarningMessage(
+                            `OpenAPI document written without ${skipped.length} routes that repeat the path and verb of an earlier route: ${listed.join(', ')}`
+                        );
+                    } else {
+                        vscode.window.showInformationMessage(`OpenAPI document written with ${routes.length} routes`);
+                    }
+                } catch (error) {
+                    console.error(`Error writing ${target.fsPath}:`, error);
+                    vscode.window.showErrorMessage(`Could not write ${path.basename(target.fsPath)}`);
+                }
+            })
+        );
+    }
+
+    private static async pickRoutes(routeProvider: EnhancedRouteInlayProvider): Promise<RouteInfo[] | undefined> {
+        const routes = routeProvider.getAllRoutes();
+        const selection = await vscode.window.showQuickPick([
+            { label: 'API routes', description: "'api' middleware or /api prefix", scope: 'api' },
+            { label: 'Routes under a prefix...', scope: 'prefix' },
+            { label: 'All routes', scope: 'all' }
+        ], { placeHolder: 'Routes to include in the OpenAPI document' });
+        if (!selection) return undefined;
+
+        switch (selection.scope) {
+            case 'api':
+                return routes.filter(route =>
+                    (route.middleware || []).includes('api') || route.uri === '/api' || route.uri.startsWith('/api/')
+                );
+            case 'prefix': {
+                const prefix = await vscode.window.showInputBox({ prompt: 'URI prefix', value: '/api/' });
+                if (prefix === undefined) return undefined;
+                const normalized = '/' + prefix.replace(/^\/+/, '');
+                return routes.filter(route => route.uri.startsWith(normalized));
+            }
+            default:
+                return routes;
+        }
+    }
+}
@@ -1,16 +1,36 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { FormRequestParser, DeclaredField, ReturnedArray } from '../parsers/formRequestParser';
+import { LaravelSettings } from '../utils/settings';
+import { LaravelValidationCompletionProvider } from './validationCompletionProvider';
 
 interface RequestRule {
     field: string;
+    // Segments of the dotted field name, '*' stands for every array element: items.*.product_id => ['items', '*', 'product_id']
+    path: string[];
     rules: string[];
     comment?: string;
 }
 
+// A key one level below a path, built from every field declared underneath it
+interface RequestFieldNode {
+    name: string;
+    path: string[];
+    // Rules declared for the node itself, empty when only its children are declared
+    rules: string[];
+    hasChildren: boolean;
+}
+
+// Request methods that read input by key, e.g. $request->input('items.0.product_id')
+const REQUEST_KEY_METHODS = 'input|validated|get|post|query|string|str|integer|float|boolean|date|enum|collect|array|has|filled|missing|only|except';
+
 interface RequestInfo {
     name: string;
     fields: RequestRule[];
+    // Custom messages keyed by 'field.rule' and display names keyed by field
+    messages: Record<string, string>;
+    attributes: Record<string, string>;
     filePath: string;
 }
 
@@ -64,16 +84,21 @@ export class LaravelRequestCompletionProvider implements vscode.CompletionItemPr
             const request: RequestInfo = {
                 name: requestName,
                 fields: [],
+                messages: {},
+                attributes: {},
                 filePath
             };
 
             // Extract validation rules from rules() method
-            const rulesMethodMatch = content.match(/public\s+function\s+rules\s*\(\s*\)\s*{([\s\S]*?)return\s*\[([\s\S]*?)\];/);
+            const rulesMethodMatch = content.match(/public\s+function\s+rules\s*\(\s*\)\s*(?::\s*\??\w+\s*)?{([\s\S]*?)return\s*\[([\s\S]*?)\];/);
             if (rulesMethodMatch) {
                 const rulesContent = rulesMethodMatch[2];
                 request.fields = this.parseValidationRules(rulesContent);
             }
 
+            request.messages = this.parseStringArray(content, 'messages');
+            request.attributes = this.parseStringArray(content, 'attributes');
+
             this.requests.set(requestName, request);
         } catch (error) {
             console.error(`Error parsing request file ${filePath}:`, error);
@@ -94,6 +119,7 @@ export class LaravelRequestCompletionProvider implements vscode.CompletionItemPr
             
             fields.push({
                 field: fieldName,
+                path: fieldName.split('.'),
                 rules: rules
             });
         }
@@ -107,6 +133,7 @@ export class LaravelRequestCompletionProvider implements vscode.CompletionItemPr
             
             fields.push({
                 field: fieldName,
+                path: fieldName.split('.'),
                 rules: rules
             });
         }
@@ -114,6 +141,19 @@ export class LaravelRequestCompletionProvider implements vscode.CompletionItemPr
         return fields;
     }
 
+    // Literal entries returned by messages() or attributes()
+    private parseStringArray(content: string, method: string): Record<string, string> {
+        const values: Record<string, string> = {};
+        const array = FormRequestParser.findReturnedArray(content, method);
+
+        array?.entries.forEach(entry => {
+            const literal = entry.value.match(/^(['"])([\s\S]*)\1$/);
+            values[entry.key] = literal ? literal[2] : entry.value;
+        });
+
+        return values;
+    }
+
     private extractArrayRules(arrayContent: string): string[] {
         const rules: string[] = [];
         const rulePattern = /['"`]([^'"`]+)['"`]/g;
@@ -134,6 +174,18 @@ export class LaravelRequestCompletionProvider implements vscode.CompletionItemPr
     ): vscode.CompletionItem[] {
         const lineText = document.lineAt(position).text;
         const beforeCursor = lineText.substring(0, position.character);
+
+        // Keys of messages() and attributes() in a FormRequest
+        const keyCompletions = this.provideMessageKeyCompletion(document, position);
+        if (keyCompletions.length > 0) {
+            return keyCompletions;
+        }
+
+        // $request->input('items.*.') and $data['items'][0][' with the shape of the FormRequest
+        const inputCompletions = this.provideInputKeyCompletion(beforeCursor, document, position);
+        if (inputCompletions.length > 0) {
+            return inputCompletions;
+        }
         
         // Check for model creation/update patterns with request fields
         const completions = this.provideRequestFieldCompletion(beforeCursor, document, position);
@@ -172,27 +224,258 @@ export class LaravelRequestCompletionProvider implements vscode.CompletionItemPr
         return [];
     }
 
-    private inferRequestTypeFromMethod(document: vscode.TextDocument, position: vscode.Position): string | null {
+    private provideMessageKeyCompletion(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] {
         const text = document.getText();
-        const lines = text.split('\n');
-        
-        // Look backwards for method signature to find request parameter
-        for (let i = position.line; i >= 0; i--) {
-            const line = lines[i];
-            
-            // Look for method parameters with Request types
-            const methodMatch = line.match(/function\s+\w+\s*\([^)]*(\w+Request)\s+\$\w+/);
-            if (methodMatch) {
-                return methodMatch[1];
-            }
-            
-            // Look for public function declaration
-            if (line.includes('public function') || line.includes('private function') || line.includes('protected function')) {
-                break;
+        if (!text.includes('extends FormRequest')) return [];
+
+        // Only array keys: an opening quote right after `[` or `,`
+        const offset = document.offsetAt(position);
+        const keyMatch = text.substring(Math.max(0, offset - 200), offset).match(/[[,]\s*['"]([^'"\n]*)$/);
+        if (!keyMatch) return [];
+
+        // The open document may hold rules that are not saved yet
+        const rules = FormRequestParser.findReturnedArray(text, 'rules');
+        if (!rules) return [];
+
+        const fields = FormRequestParser.getDeclaredFields(rules);
+        const keyStart = offset - keyMatch[1].length;
+        const range = new vscode.Range(document.positionAt(keyStart), position);
+
+        for (const method of ['messages', 'attributes']) {
+            const array = FormRequestParser.findReturnedArray(text, method);
+            if (!array || offset <= array.open || offset > array.close) continue;
+
+            const existing = array.entries.filter(entry => entry.keyOffset !== keyStart).map(entry => entry.key);
+            return method === 'messages'
+                ? this.getMessageKeyCompletions(fields, existing, range)
+                : this.getAttributeCompletions(fields, existing, range);
+        }
+
+        return [];
+    }
+
+    private getMessageKeyCompletions(fields: DeclaredField[], existing: string[], range: vscode.Range): vscode.CompletionItem[] {
+        const completions: vscode.CompletionItem[] = [];
+        const sharedRules: string[] = [];
+
+        fields.forEach((field, fieldIndex) => {
+            field.rules.forEach((rule, ruleIndex) => {
+                if (!sharedRules.includes(rule)) sharedRules.push(rule);
+
+                const key = `${field.field}.${rule}`;
+                if (existing.includes(key)) return;
+
+                const item = new vscode.CompletionItem(key, vscode.CompletionItemKind.Property);
+                item.detail = `Message for '${rule}' on ${field.field}`;
+                item.documentation = new vscode.MarkdownString(
+                    `**Field:** ${field.field}\n\n` +
+                    `**Validation Rules:** ${field.rules.map(name => name === rule ? `**${name}**` : name).join(' | ')}`
+                );
+                item.range = range;
+                item.sortText = `0${String(fieldIndex).padStart(3, '0')}${String(ruleIndex).padStart(3, '0')}`;
+                completions.push(item);
+            });
+        });
+
+        // A bare rule name sets the message for every field using that rule
+        sharedRules.filter(rule => !existing.includes(rule)).forEach(rule => {
+            const item = new vscode.CompletionItem(rule, vscode.CompletionItemKind.Property);
+            item.detail = `Message for '${rule}' on every field`;
+            item.range = range;
+            item.sortText = `1${rule}`;
+            completions.push(item);
+        });
+
+        return completions;
+    }
+
+    private getAttributeCompletions(fields: DeclaredField[], existing: string[], range: vscode.Range): vscode.CompletionItem[] {
+        return fields
+            .filter(field => !existing.includes(field.field))
+            .map((field, index) => {
+                const item = new vscode.CompletionItem(field.field, vscode.CompletionItemKind.Field);
+                item.detail = field.rules.join(' | ');
+                item.documentation = new vscode.MarkdownString(`Display name used for \`:attribute\` in the messages of **${field.field}**`);
+                item.range = range;
+                item.sortText = String(index).padStart(3, '0');
+                return item;
+            });
+    }
+
+    private provideInputKeyCompletion(
+        beforeCursor: string,
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): vscode.CompletionItem[] {
+        const parameter = this.findRequestParameter(document, position);
+        const request = parameter ? this.requests.get(parameter.type) : undefined;
+        if (!parameter || !request) return [];
+
+        const variable = parameter.variable.replace('$', '\\$');
+        const keyMatch = beforeCursor.match(new RegExp(
+            `${variable}->(?:${REQUEST_KEY_METHODS})\\s*\\(\\s*(?:\\[\\s*)?(?:['"][^'"]*['"]\\s*,\\s*)*['"]([\\w.*-]*)$`
+        ));
+        if (keyMatch) {
+            // Complete the segment after the last dot
+            const typed = keyMatch[1].split('.');
+            const segment = typed.pop()!;
+            const range = new vscode.Range(position.translate(0, -segment.length), position);
+            return this.getFieldNodeCompletions(request, this.getChildFields(request, typed), range);
+        }
+
+        const accessMatch = beforeCursor.match(/(\$\w+)((?:\[[^\[\]]*\])*)\[\s*['"]([\w-]*)$/);
+        if (accessMatch) {
+            const methodText = document.getText().substring(parameter.methodOffset, document.offsetAt(position));
+            const basePath = this.resolveVariablePath(methodText, accessMatch[1], parameter.variable, 0);
+            if (!basePath) return [];
+
+            const range = new vscode.Range(position.translate(0, -accessMatch[3].length), position);
+            const children = this.getChildFields(request, [...basePath, ...this.parseAccessors(accessMatch[2])])
+                .filter(node => node.name !== '*');
+            return this.getFieldNodeCompletions(request, children, range);
+        }
+
+        return [];
+    }
+
+    private getFieldNodeCompletions(request: RequestInfo, nodes: RequestFieldNode[], range: vscode.Range): vscode.CompletionItem[] {
+        return nodes.map((node, index) => {
+            const item = new vscode.CompletionItem(node.name, node.hasChildren ? vscode.CompletionItemKind.Module : vscode.CompletionItemKind.Field);
+            item.detail = node.rules.join(' | ') || this.describeShape(request, node.path);
+            item.documentation = this.getShapeDocumentation(request, node);
+            item.range = range;
+            item.sortText = String(index).padStart(3, '0');
+            return item;
+        });
+    }
+
+    // Path of the validated data held by a variable: $data = $request->validated('items') or foreach ($data['items'] as $item)
+    private resolveVariablePath(methodText: string, variable: string, requestVariable: string, depth: number): string[] | undefined {
+        if (variable === requestVariable) return [];
+        if (depth > 5) return undefined;
+
+        const name = variable.replace('$', '\\$');
+        const assignments = [
+            ...Array.from(methodText.matchAll(new RegExp(`${name}\\s*=\\s*([^;]+);`, 'g'))).map(match => ({ index: match.index || 0, expression: match[1], element: false })),
+            ...Array.from(methodText.matchAll(new RegExp(`foreach\\s*\\(\\s*(.+?)\\s+as\\s+(?:\\$\\w+\\s*=>\\s*)?${name}\\s*\\)`, 'g'))).map(match => ({ index: match.index || 0, expression: match[1], element: true }))
+        ];
+
+        // The closest assignment before the cursor wins
+        const latest = assignments.sort((a, b) => b.index - a.index)[0];
+        if (!latest) return undefined;
+
+        const path = this.resolveExpressionPath(methodText, latest.expression.trim(), requestVariable, depth + 1);
+        return path && latest.element ? [...path, '*'] : path;
+    }
+
+    private resolveExpressionPath(methodText: string, expression: string, requestVariable: string, depth: number): string[] | undefined {
+        const call = expression.match(/^(\$\w+)->(?:safe\(\)->)?(?:validated|input|all)\s*\(\s*(?:(['"])([^'"]*)\2)?\s*\)((?:\[[^\[\]]*\])*)$/);
+        if (call) {
+            if (call[1] !== requestVariable) return undefined;
+            return [...(call[3] ? call[3].split('.') : []), ...this.parseAccessors(call[4])];
+        }
+
+        const access = expression.match(/^(\$\w+)((?:\[[^\[\]]*\])*)$/);
+        if (access) {
+            const base = this.resolveVariablePath(methodText, access[1], requestVariable, depth);
+            return base ? [...base, ...this.parseAccessors(access[2])] : undefined;
+        }
+
+        return undefined;
+    }
+
+    // ['items'][0][$index] => ['items', '*', '*']
+    private parseAccessors(accessors: string): string[] {
+        return Array.from(accessors.matchAll(/\[\s*([^\]]*?)\s*\]/g)).map(match => {
+            const literal = match[1].match(/^(['"])(.*)\1$/);
+            return literal ? literal[2] : '*';
+        });
+    }
+
+    private findRequestParameter(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): { type: string; variable: string; methodOffset: number } | null {
+        const head = document.getText().substring(0, document.offsetAt(position));
+        const methods = Array.from(head.matchAll(/function\s+\w+\s*\(([^)]*)\)/g));
+        const method = methods[methods.length - 1];
+        if (!method) return null;
+
+        const parameter = method[1].match(/\b(\w+Request)\s+(\$\w+)/);
+        return parameter ? { type: parameter[1], variable: parameter[2], methodOffset: method.index || 0 } : null;
+    }
+
+    private inferRequestTypeFromMethod(document: vscode.TextDocument, position: vscode.Position): string | null {
+        return this.findRequestParameter(document, position)?.type || null;
+    }
+
+    /**
+     * Keys directly below a path, e.g. ['items'] gives '*' and ['items', '*'] gives 'product_id'.
+     * Indexes in the path match the '*' of wildcard fields.
+     */
+    public getChildFields(request: RequestInfo, parentPath: string[]): RequestFieldNode[] {
+        const nodes = new Map<string, RequestFieldNode>();
+
+        request.fields.forEach(field => {
+            if (field.path.length <= parentPath.length) return;
+            if (!parentPath.every((segment, index) => field.path[index] === segment || field.path[index] === '*')) return;
+
+            const name = field.path[parentPath.length];
+            const node = nodes.get(name) || { name, path: field.path.slice(0, parentPath.length + 1), rules: [], hasChildren: false };
+            if (field.path.length === parentPath.length + 1) {
+                node.rules = field.rules;
+            } else {
+                node.hasChildren = true;
             }
+            nodes.set(name, node);
+        });
+
+        return Array.from(nodes.values());
+    }
+
+    /**
+     * PHP array shape of the validated data at a path, e.g. array<int, array{product_id: int, note?: string|null}>
+     */
+    public describeShape(request: RequestInfo, path: string[]): string {
+        const children = this.getChildFields(request, path);
+        if (children.length === 0) {
+            const field = request.fields.find(candidate => candidate.path.join('.') === path.join('.'));
+            return field ? this.getPhpType(field.rules) : 'mixed';
         }
-        
-        return null;
+
+        if (children.every(child => child.name === '*')) {
+            return `array<int, ${this.describeShape(request, [...path, '*'])}>`;
+        }
+
+        const keys = children
+            .filter(child => child.name !== '*')
+            .map(child => {
+                const optional = !child.rules.some(rule => rule.split(':')[0] === 'required');
+                return `${child.name}${optional ? '?' : ''}: ${this.describeShape(request, child.path)}`;
+            });
+        return `array{${keys.join(', ')}}`;
+    }
+
+    private getShapeDocumentation(request: RequestInfo, node: RequestFieldNode): vscode.MarkdownString {
+        const documentation = new vscode.MarkdownString(`**Field:** ${node.path.join('.')}\n\n`);
+        if (node.rules.length > 0) {
+            documentation.appendMarkdown(`**Validation Rules:**\n${node.rules.map(rule => `- ${rule}`).join('\n')}\n\n`);
+        }
+        documentation.appendCodeblock(this.describeShape(request, node.path), 'php');
+        return documentation;
+    }
+
+    private getPhpType(rules: string[]): string {
+        const names = rules.map(rule => rule.split(':')[0]);
+        let type = 'string';
+
+        if (names.includes('integer')) type = 'int';
+        else if (names.includes('numeric') || names.includes('decimal')) type = 'int|float';
+        else if (names.includes('boolean') || names.includes('accepted')) type = 'bool';
+        else if (names.includes('array') || names.includes('list')) type = 'array';
+        else if (names.some(name => ['file', 'image', 'mimes', 'mimetypes'].includes(name))) type = 'UploadedFile';
+
+        return names.includes('nullable') ? `${type}|null` : type;
     }
 
     private getRequestFieldCompletions(requestType: string): vscode.CompletionItem[] {
@@ -200,18 +483,17 @@ export class LaravelRequestCompletionProvider implements vscode.CompletionItemPr
         if (!request) return [];
 
         const completions: vscode.CompletionItem[] = [];
+        // Nested fields such as items.*.product_id are part of their top-level key
+        const fields = this.getChildFields(request, []);
 
         // Add individual field completions
-        request.fields.forEach(field => {
-            const item = new vscode.CompletionItem(`'${field.field}'`, vscode.CompletionItemKind.Field);
-            item.detail = field.rules.join(' | ');
-            item.documentation = new vscode.MarkdownString(
-                `**Field:** ${field.field}\n\n` +
-                `**Validation Rules:**\n${field.rules.map(rule => `- ${rule}`).join('\n')}`
-            );
+        fields.forEach(field => {
+            const item = new vscode.CompletionItem(`'${field.name}'`, vscode.CompletionItemKind.Field);
+            item.detail = field.rules.join(' | ') || this.describeShape(request, field.path);
+            item.documentation = this.getShapeDocumentation(request, field);
             
             // Insert the field name with quotes and arrow
-            item.insertText = `'${field.field}' => `;
+            item.insertText = `'${field.name}' => `;
             item.command = {
                 command: 'editor.action.triggerSuggest',
                 title: 'Suggest'
@@ -221,20 +503,20 @@ export class LaravelRequestCompletionProvider implements vscode.CompletionItemPr
         });
 
         // Add "Add All Request Fields" option
-        if (request.fields.length > 0) {
+        if (fields.length > 0) {
             const addAllItem = new vscode.CompletionItem(
-                `🔧 Add ALL Request Fields (${request.fields.length} fields)`,
+                `🔧 Add ALL Request Fields (${fields.length} fields)`,
                 vscode.CompletionItemKind.Snippet
             );
             
-            addAllItem.detail = `Insert all ${request.fields.length} fields from ${requestType}`;
+            addAllItem.detail = `Insert all ${fields.length} fields from ${requestType}`;
             addAllItem.documentation = new vscode.MarkdownString(
-                `**Fields to be added:**\n${request.fields.map(f => `- ${f.field}`).join('\n')}`
+                `**Fields to be added:**\n${fields.map(f => `- ${f.name}`).join('\n')}`
             );
             
             // Create snippet text for all fields
-            const snippetText = request.fields.map((field, index) => {
-                return `'${field.field}' => \${index + 1}`;
+            const snippetText = fields.map((field, index) => {
+                return `'${field.name}' => \${index + 1}`;
             }).join(',\n    ');
             
             addAllItem.insertText = new vscode.SnippetString(snippetText);
@@ -249,7 +531,8 @@ export class LaravelRequestCompletionProvider implements vscode.CompletionItemPr
     // Command to manually trigger "Add All Fields"
     public addAllRequestFields(editor: vscode.TextEditor, requestType: string) {
         const request = this.requests.get(requestType);
-        if (!request || request.fields.length === 0) {
+        const fields = request ? this.getChildFields(request, []) : [];
+        if (fields.length === 0) {
             vscode.window.showWarningMessage(`No fields found for ${requestType}`);
             return;
         }
@@ -257,8 +540,8 @@ export class LaravelRequestCompletionProvider implements vscode.CompletionItemPr
         const position = editor.selection.active;
         const indent = this.getIndentation(editor.document, position);
         
-        const fieldsText = request.fields.map(field => {
-            return `${indent}'${field.field}' => $request->get('${field.field}')`;
+        const fieldsText = fields.map(field => {
+            return `${indent}'${field.name}' => $request->get('${field.name}')`;
         }).join(',\n');
 
         editor.edit(editBuilder => {
@@ -266,7 +549,7 @@ export class LaravelRequestCompletionProvider implements vscode.CompletionItemPr
         });
 
         vscode.window.showInformationMessage(
-            `Added ${request.fields.length} fields from ${requestType}`
+            `Added ${fields.length} fields from ${requestType}`
         );
     }
 
@@ -323,7 +606,10 @@ export class EnhancedModelCompletionProvider implements vscode.CompletionItemPro
 
 // Code Actions for Request Fields
 export class RequestFieldCodeActionProvider implements vscode.CodeActionProvider {
-    constructor(private requestProvider: LaravelRequestCompletionProvider) {}
+    constructor(
+        private requestProvider: LaravelRequestCompletionProvider,
+        private validationProvider?: LaravelValidationCompletionProvider
+    ) {}
 
     provideCodeActions(
         document: vscode.TextDocument,
@@ -332,6 +618,17 @@ export class RequestFieldCodeActionProvider implements vscode.CodeActionProvider
         token: vscode.CancellationToken
     ): vscode.CodeAction[] {
         const actions: vscode.CodeAction[] = [];
+        const staleKeys = context.diagnostics.filter(diagnostic => diagnostic.source === 'Laravel Requests');
+
+        staleKeys.forEach(diagnostic => {
+            const action = this.createRemoveEntryAction(document, diagnostic);
+            if (action) actions.push(action);
+        });
+
+        const scaffoldAction = this.createScaffoldMessagesAction(document, range, staleKeys);
+        if (scaffoldAction) {
+            actions.push(scaffoldAction);
+        }
         
         const lineText = document.lineAt(range.start.line).text;
         
@@ -349,9 +646,10 @@ export class RequestFieldCodeActionProvider implements vscode.CodeActionProvider
             const requestType = this.inferRequestType(document, range.start);
             if (requestType) {
                 const request = this.requestProvider.getRequest(requestType);
-                if (request && request.fields.length > 0) {
+                const fields = request ? this.requestProvider.getChildFields(request, []) : [];
+                if (fields.length > 0) {
                     const action = new vscode.CodeAction(
-                        `Add all ${request.fields.length} fields from ${requestType}`,
+                        `Add all ${fields.length} fields from ${requestType}`,
                         vscode.CodeActionKind.Refactor
                     );
                     
@@ -369,6 +667,131 @@ export class RequestFieldCodeActionProvider implements vscode.CodeActionProvider
         return actions;
     }
 
+    private createRemoveEntryAction(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction | undefined {
+        const text = document.getText();
+        const keyOffset = document.offsetAt(diagnostic.range.start);
+        const entry = ['messages', 'attributes']
+            .map(method => FormRequestParser.findReturnedArray(text, method))
+            .flatMap(array => array ? array.entries : [])
+            .find(candidate => candidate.keyOffset === keyOffset);
+        if (!entry) return undefined;
+
+        const start = document.positionAt(entry.start);
+        const end = document.positionAt(text[entry.end] === ',' ? entry.end + 1 : entry.end);
+        const standsAlone = document.lineAt(start.line).text.substring(0, start.character).trim() === '' &&
+            document.lineAt(end.line).text.substring(end.character).trim() === '';
+
+        const action = new vscode.CodeAction(`Remove '${entry.key}'`, vscode.CodeActionKind.QuickFix);
+        action.diagnostics = [diagnostic];
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.delete(
+            document.uri,
+            standsAlone ? new vscode.Range(start.line, 0, end.line + 1, 0) : new vscode.Range(start, end)
+        );
+        return action;
+    }
+
+    // Adds a 'field.rule' message for every rule in rules() that has none yet
+    private createScaffoldMessagesAction(
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        diagnostics: vscode.Diagnostic[]
+    ): vscode.CodeAction | undefined {
+        const text = document.getText();
+        if (!text.includes('extends FormRequest')) return undefined;
+
+        const rules = FormRequestParser.findReturnedArray(text, 'rules');
+        const messages = FormRequestParser.findReturnedArray(text, 'messages');
+        if (!rules || !rules.closed || (messages && !messages.closed)) return undefined;
+
+        const offset = document.offsetAt(range.start);
+        const inRequestMethod = [rules, messages].some(array => array && offset >= array.methodOffset && offset <= array.methodEnd);
+        if (!inRequestMethod) return undefined;
+
+        const existing = messages ? messages.entries.map(entry => entry.key) : [];
+        const missing = FormRequestParser.getDeclaredFields(rules)
+            .flatMap(field => field.rules.map(rule => ({ key: `${field.field}.${rule}`, rule })))
+            .filter(({ key }) => !existing.includes(key));
+        if (missing.length === 0) return undefined;
+
+        const entries = missing.map(({ key, rule }) => `'${key}' => '${this.getDefaultMessage(rule).replace(/'/g, "\\'")}',`);
+        const action = new vscode.CodeAction(
+            `Scaffold messages for ${missing.length} rule${missing.length === 1 ? '' : 's'}`,
+            vscode.CodeActionKind.QuickFix
+        );
+        action.diagnostics = diagnostics;
+        action.edit = new vscode.WorkspaceEdit();
+
+        if (messages) {
+            this.appendArrayEntries(document, messages, entries, action.edit);
+        } else {
+            this.insertMessagesMethod(document, rules, entries, action.edit);
+        }
+
+        return action;
+    }
+
+    private appendArrayEntries(document: vscode.TextDocument, array: ReturnedArray, entries: string[], edit: vscode.WorkspaceEdit) {
+        const text = document.getText();
+        const closeIndent = this.getLineIndentation(document, array.close);
+        const lastEntry = array.entries[array.entries.length - 1];
+        const indent = lastEntry ? this.getLineIndentation(document, lastEntry.start) : `${closeIndent}    `;
+
+        // Replace the whitespace between the last entry and the closing bracket
+        let insertAt = array.close;
+        while (insertAt > array.open + 1 && /\s/.test(text[insertAt - 1])) {
+            insertAt--;
+        }
+        const needsComma = insertAt > array.open + 1 && text[insertAt - 1] !== ',';
+
+        edit.replace(
+            document.uri,
+            new vscode.Range(document.positionAt(insertAt), document.positionAt(array.close)),
+            `${needsComma ? ',' : ''}${entries.map(entry => `\n${indent}${entry}`).join('')}\n${closeIndent}`
+        );
+    }
+
+    private insertMessagesMethod(document: vscode.TextDocument, rules: ReturnedArray, entries: string[], edit: vscode.WorkspaceEdit) {
+        const text = document.getText();
+        const indent = this.getLineIndentation(document, rules.methodOffset);
+        const body = `${indent}    `;
+        // Follow the signature style of rules()
+        const returnType = /\)\s*:\s*array/.test(text.substring(rules.methodOffset, rules.open)) ? ': array' : '';
+
+        const method = [
+            '',
+            '',
+            `${indent}/**`,
+            `${indent} * Get the error messages for the defined validation rules.`,
+            `${indent} *`,
+            `${indent} * @return array<string, string>`,
+            `${indent} */`,
+            `${indent}public function messages()${returnType}`,
+            `${indent}{`,
+            `${body}return [`,
+            ...entries.map(entry => `${body}    ${entry}`),
+            `${body}];`,
+            `${indent}}`
+        ].join('\n');
+
+        edit.insert(document.uri, document.positionAt(rules.methodEnd + 1), method);
+    }
+
+    // Derived from the rule description, e.g. 'The :attribute must be a valid email address.'
+    private getDefaultMessage(rule: string): string {
+        const description = this.validationProvider?.getValidationRule(rule)?.description;
+        if (description && /^The (?:field|integer|file) under validation /.test(description)) {
+            return `${description.replace(/^The \w+ under validation/, 'The :attribute')}.`;
+        }
+        return 'The :attribute field is invalid.';
+    }
+
+    private getLineIndentation(document: vscode.TextDocument, offset: number): string {
+        const line = document.lineAt(document.positionAt(offset).line).text;
+        const match = line.match(/^(\s*)/);
+        return match ? match[1] : '';
+    }
+
     private inferRequestType(document: vscode.TextDocument, position: vscode.Position): string | null {
         const text = document.getText();
         const lines = text.split('\n');
@@ -376,7 +799,7 @@ export class RequestFieldCodeActionProvider implements vscode.CodeActionProvider
         // Look backwards for method signature
         for (let i = position.line; i >= 0; i--) {
             const line = lines[i];
-            const methodMatch = line.match(/function\s+\w+\s*\([^)]*(\w+Request)\s+\$\w+/);
+            const methodMatch = line.match(/function\s+\w+\s*\([^)]*\b(\w+Request)\s+\$\w+/);
             if (methodMatch) {
                 return methodMatch[1];
             }
@@ -390,6 +813,136 @@ export class RequestFieldCodeActionProvider implements vscode.CodeActionProvider
     }
 }
 
+// Diagnostics for messages() and attributes() keys that no longer match rules()
+export class RequestMessageDiagnosticsProvider {
+    private diagnosticCollection: vscode.DiagnosticCollection;
+    // Pending updates per document, rules() is re-read on every change so typing is debounced
+    private pendingUpdates = new Map<string, NodeJS.Timeout>();
+
+    constructor() {
+        this.diagnosticCollection = vscode.languages.createDiagnosticCollection('laravel-requests');
+        this.setupEventListeners();
+    }
+
+    private setupEventListeners() {
+        vscode.workspace.onDidChangeTextDocument(e => {
+            if (this.isRequestFile(e.document)) {
+                this.scheduleUpdate(e.document);
+            }
+        });
+
+        vscode.workspace.onDidOpenTextDocument(doc => {
+            if (this.isRequestFile(doc)) {
+                this.updateDiagnostics(doc);
+            }
+        });
+
+        vscode.window.onDidChangeActiveTextEditor(editor => {
+            if (editor && this.isRequestFile(editor.document)) {
+                this.updateDiagnostics(editor.document);
+            }
+        });
+    }
+
+    private scheduleUpdate(document: vscode.TextDocument) {
+        const key = document.uri.toString();
+        clearTimeout(this.pendingUpdates.get(key));
+        this.pendingUpdates.set(key, setTimeout(() => {
+            this.pendingUpdates.delete(key);
+            this.updateDiagnostics(document);
+        }, 300));
+    }
+
+    private isRequestFile(document: vscode.TextDocument): boolean {
+        return document.fileName.endsWith('.php') && document.getText().includes('extends FormRequest');
+    }
+
+    public updateDiagnostics(document: vscode.TextDocument): void {
+        const text = document.getText();
+        const rules = FormRequestParser.findReturnedArray(text, 'rules');
+
+        // Keys can only be checked against a rules() array that is fully readable
+        if (!LaravelSettings.diagnosticsEnabled || !rules || !rules.closed || rules.dynamic) {
+            this.diagnosticCollection.delete(document.uri);
+            return;
+        }
+
+        const fields = FormRequestParser.getDeclaredFields(rules);
+        this.diagnosticCollection.set(document.uri, [
+            ...this.findStaleMessages(document, fields),
+            ...this.findStaleAttributes(document, fields)
+        ]);
+    }
+
+    private findStaleMessages(document: vscode.TextDocument, fields: DeclaredField[]): vscode.Diagnostic[] {
+        const diagnostics: vscode.Diagnostic[] = [];
+        const messages = FormRequestParser.findReturnedArray(document.getText(), 'messages');
+        if (!messages) return diagnostics;
+
+        messages.entries.forEach(entry => {
+            const { field, rule } = FormRequestParser.splitMessageKey(entry.key, fields);
+            const matching = field === undefined
+                ? fields
+                : fields.filter(declared => FormRequestParser.matchesField(field, declared.field));
+
+            if (field !== undefined && matching.length === 0) {
+                diagnostics.push(this.createDiagnostic(
+                    document,
+                    entry.keyOffset,
+                    entry.key.length,
+                    `Message '${entry.key}' references field '${field}' which is not declared in rules()`,
+                    'unknown-message-field'
+                ));
+                return;
+            }
+
+            // Fields with rules from variables may use any rule
+            const used = matching.some(declared => !declared.complete || declared.rules.includes(rule));
+            if (!used && !FormRequestParser.isSilentRule(rule)) {
+                diagnostics.push(this.createDiagnostic(
+                    document,
+                    entry.keyOffset,
+                    entry.key.length,
+                    field === undefined
+                        ? `No field in rules() uses the '${rule}' rule`
+                        : `Field '${field}' has no '${rule}' rule in rules()`,
+                    'unknown-message-rule'
+                ));
+            }
+        });
+
+        return diagnostics;
+    }
+
+    private findStaleAttributes(document: vscode.TextDocument, fields: DeclaredField[]): vscode.Diagnostic[] {
+        const attributes = FormRequestParser.findReturnedArray(document.getText(), 'attributes');
+        if (!attributes) return [];
+
+        return attributes.entries
+            .filter(entry => !fields.some(declared => FormRequestParser.matchesField(entry.key, declared.field)))
+            .map(entry => this.createDiagnostic(
+                document,
+                entry.keyOffset,
+                entry.key.length,
+                `Attribute '${entry.key}' is not a field declared in rules()`,
+                'unknown-attribute-field'
+            ));
+    }
+
+    private createDiagnostic(document: vscode.TextDocument, offset: number, length: number, message: string, code: string): vscode.Diagnostic {
+        const range = new vscode.Range(document.positionAt(offset), document.positionAt(offset + length));
+        const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Warning);
+        diagnostic.code = code;
+        diagnostic.source = 'Laravel Requests';
+        return diagnostic;
+    }
+
+    public dispose(): void {
+        this.pendingUpdates.forEach(timeout => clearTimeout(timeout));
+        this.diagnosticCollection.dispose();
+    }
+}
+
 // Commands for Request Field Management
 export class RequestFieldCommands {
     static register(context: vscode.ExtensionContext, requestProvider: LaravelRequestCompletionProvider) {
@@ -459,7 +1012,12 @@ export class RequestFieldCommands {
         const fieldsTable = request.fields.map(field => `
             <tr>
                 <td><code>${field.field}</code></td>
+                <td>${request.attributes[field.field] || ''}</td>
                 <td>${field.rules.map(rule => `<span class="rule">${rule}</span>`).join(' ')}</td>
+                <td>${Object.keys(request.messages)
+                    .filter(key => key.startsWith(`${field.field}.`))
+                    .map(key => `<span class="rule">${key.substring(field.field.length + 1)}</span>`)
+                    .join(' ')}</td>
             </tr>
         `).join('');
 
@@ -488,7 +1046,9 @@ export class RequestFieldCommands {
                     <thead>
                         <tr>
                             <th>Field Name</th>
+                            <th>Attribute Name</th>
                             <th>Validation Rules</th>
+                            <th>Custom Messages</th>
                         </tr>
                     </thead>
                     <tbody>
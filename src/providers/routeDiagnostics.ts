@@ -0,0 +1,563 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EnhancedRouteInlayProvider, RouteInfo } from './enhancedRouteInlayProvider';
+import { LaravelSettings } from '../utils/settings';
+import { RouteCallParser, RouteCall } from '../parsers/routeCallParser';
+
+export class RouteDiagnosticsProvider {
+    private diagnosticCollection: vscode.DiagnosticCollection;
+    // Pending updates per document, every route() call is checked so typing is debounced
+    private pendingUpdates = new Map<string, NodeJS.Timeout>();
+
+    constructor(
+        private routeProvider: EnhancedRouteInlayProvider,
+        private workspaceRoot: string
+    ) {
+        this.diagnosticCollection = vscode.languages.createDiagnosticCollection('laravel-routes');
+        this.setupEventListeners();
+    }
+
+    private setupEventListeners() {
+        vscode.workspace.onDidChangeTextDocument(e => {
+            if (this.isRelevantFile(e.document)) {
+                this.scheduleUpdate(e.document);
+            }
+        });
+
+        vscode.workspace.onDidOpenTextDocument(doc => {
+            if (this.isRelevantFile(doc)) {
+                this.updateDiagnostics(doc);
+            }
+        });
+
+        vscode.window.onDidChangeActiveTextEditor(editor => {
+            if (editor && this.isRelevantFile(editor.document)) {
+                this.updateDiagnostics(editor.document);
+            }
+        });
+
+        // Duplicates and missing routes depend on every route file, refresh what is visible
+        this.routeProvider.onDidChangeRoutes(() => {
+            vscode.window.visibleTextEditors.forEach(editor => {
+                if (this.isRelevantFile(editor.document)) {
+                    this.updateDiagnostics(editor.document);
+                }
+            });
+        });
+    }
+
+    private scheduleUpdate(document: vscode.TextDocument) {
+        const key = document.uri.toString();
+        clearTimeout(this.pendingUpdates.get(key));
+        this.pendingUpdates.set(key, setTimeout(() => {
+            this.pendingUpdates.delete(key);
+            this.updateDiagnostics(document);
+        }, 300));
+    }
+
+    private isRelevantFile(document: vscode.TextDocument): boolean {
+        return document.uri.scheme === 'file' && document.fileName.endsWith('.php');
+    }
+
+    public updateDiagnostics(document: vscode.TextDocument): void {
+        if (!LaravelSettings.diagnosticsEnabled) {
+            this.diagnosticCollection.delete(document.uri);
+            return;
+        }
+
+        const diagnostics: vscode.Diagnostic[] = [];
+        const allRoutes = this.routeProvider.getAllRoutes();
+
+        // Without any parsed route every name would be reported as missing
+        if (allRoutes.length > 0) {
+            diagnostics.push(...this.findRouteCallIssues(document));
+
+            if (/[\\/]tests[\\/]/.test(document.fileName)) {
+                diagnostics.push(...this.findUnmatchedTestUrls(document, allRoutes));
+            }
+        }
+
+        const fileRoutes = this.routeProvider.getRoutesForFile(document.fileName);
+        if (fileRoutes.length > 0) {
+            // Routes only known from route:list have no declaration to point at
+            const declaredRoutes = allRoutes.filter(route => route.source !== 'artisan');
+            diagnostics.push(...this.findDuplicateNames(document, fileRoutes, declaredRoutes));
+            diagnostics.push(...this.findConflictingUris(document, fileRoutes, declaredRoutes));
+            diagnostics.push(...this.findMissingControllerMethods(document, fileRoutes));
+            diagnostics.push(...this.findUnmatchedParameters(document, fileRoutes));
+        }
+
+        this.diagnosticCollection.set(document.uri, diagnostics);
+    }
+
+    private findRouteCallIssues(document: vscode.TextDocument): vscode.Diagnostic[] {
+        const diagnostics: vscode.Diagnostic[] = [];
+
+        // Names containing PHP variables are resolved at runtime and are skipped by the parser
+        RouteCallParser.findAllCalls(document.getText()).forEach(call => {
+            const route = this.routeProvider.getRouteByName(call.name);
+            if (!route) {
+                const range = new vscode.Range(
+                    document.positionAt(call.nameStart),
+                    document.positionAt(call.nameStart + call.name.length)
+                );
+
+                const diagnostic = new vscode.Diagnostic(
+                    range,
+                    `Route '${call.name}' is not defined`,
+                    vscode.DiagnosticSeverity.Warning
+                );
+                diagnostic.code = 'undefined-route';
+                diagnostic.source = 'Laravel Routes';
+                diagnostics.push(diagnostic);
+                return;
+            }
+
+            diagnostics.push(...this.findParameterIssues(document, call, route));
+        });
+
+        return diagnostics;
+    }
+
+    private findParameterIssues(document: vscode.TextDocument, call: RouteCall, route: RouteInfo): vscode.Diagnostic[] {
+        const diagnostics: vscode.Diagnostic[] = [];
+        const argument = call.arguments[1];
+
+        // Variables and helper calls may hold anything, only array literals can be checked
+        const provided = RouteCallParser.getProvidedParameters(argument?.text);
+        if (!provided) return diagnostics;
+
+        // Domain parameters are accepted but never required
+        const parameters = this.routeProvider.getUrlParameters(route);
+        const range = argument && argument.text.trim()
+            ? new vscode.Range(
+                document.positionAt(argument.offset + argument.text.search(/\S/)),
+                document.positionAt(argument.offset + argument.text.trimEnd().length)
+            )
+            : new vscode.Range(
+                document.positionAt(call.nameStart),
+                document.positionAt(call.nameStart + call.name.length)
+            );
+
+        // Positional values fill the required parameters that were not given by key
+        const missing = parameters
+            .filter(parameter => !parameter.optional && !provided.keys.includes(parameter.name))
+            .slice(provided.positional);
+
+        if (missing.length > 0) {
+            const names = missing.map(parameter => `'${parameter.name}'`).join(', ');
+            const diagnostic = new vscode.Diagnostic(
+                range,
+                `Route '${route.name}' requires ${missing.length === 1 ? 'parameter' : 'parameters'} ${names}`,
+                vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.code = 'missing-route-parameter';
+            diagnostic.source = 'Laravel Routes';
+            diagnostics.push(diagnostic);
+        }
+
+        provided.keys
+            .filter(key => !parameters.some(parameter => parameter.name === key))
+            .forEach(key => {
+                const keyIndex = this.findQuotedIndex(argument.text, key);
+                const keyRange = keyIndex === -1 ? range : new vscode.Range(
+                    document.positionAt(argument.offset + keyIndex + 1),
+                    document.positionAt(argument.offset + keyIndex + 1 + key.length)
+                );
+
+                const diagnostic = new vscode.Diagnostic(
+                    keyRange,
+                    `Route '${route.name}' has no parameter '${key}', it will be appended as a query string`,
+                    vscode.DiagnosticSeverity.Warning
+                );
+                diagnostic.code = 'unknown-route-parameter';
+                diagnostic.source = 'Laravel Routes';
+                diagnostics.push(diagnostic);
+            });
+
+        return diagnostics;
+    }
+
+    private findQuotedIndex(text: string, value: string): number {
+        const single = text.indexOf(`'${value}'`);
+        return single !== -1 ? single : text.indexOf(`"${value}"`);
+    }
+
+    private findDuplicateNames(
+        document: vscode.TextDocument,
+        fileRoutes: RouteInfo[],
+        allRoutes: RouteInfo[]
+    ): vscode.Diagnostic[] {
+        const diagnostics: vscode.Diagnostic[] = [];
+
+        fileRoutes.forEach(route => {
+            if (!route.name) return;
+
+            const duplicate = allRoutes.find(other => other !== route && other.name === route.name);
+            if (!duplicate) return;
+
+            const diagnostic = new vscode.Diagnostic(
+                this.getRouteRange(document, route, route.name),
+                `Route name '${route.name}' is also declared in ${this.describeLocation(duplicate)}`,
+                vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.code = 'duplicate-route-name';
+            diagnostic.source = 'Laravel Routes';
+            diagnostic.relatedInformation = [
+                new vscode.DiagnosticRelatedInformation(
+                    this.toLocation(duplicate),
+                    `Other declaration of '${route.name}'`
+                )
+            ];
+            diagnostics.push(diagnostic);
+        });
+
+        return diagnostics;
+    }
+
+    private findConflictingUris(
+        document: vscode.TextDocument,
+        fileRoutes: RouteInfo[],
+        allRoutes: RouteInfo[]
+    ): vscode.Diagnostic[] {
+        const diagnostics: vscode.Diagnostic[] = [];
+
+        fileRoutes.forEach(route => {
+            route.method.forEach(method => {
+                const key = this.getRouteKey(route, method);
+                const conflict = allRoutes.find(other =>
+                    other !== route && other.method.some(otherMethod => this.getRouteKey(other, otherMethod) === key)
+                );
+                if (!conflict) return;
+
+                const diagnostic = new vscode.Diagnostic(
+                    this.getRouteRange(document, route),
+                    `${method} ${route.uri} is also declared in ${this.describeLocation(conflict)}`,
+                    vscode.DiagnosticSeverity.Warning
+                );
+                diagnostic.code = 'duplicate-route-uri';
+                diagnostic.source = 'Laravel Routes';
+                diagnostic.relatedInformation = [
+                    new vscode.DiagnosticRelatedInformation(
+                        this.toLocation(conflict),
+                        `Conflicting ${method} ${conflict.uri}`
+                    )
+                ];
+                diagnostics.push(diagnostic);
+            });
+        });
+
+        return diagnostics;
+    }
+
+    private findMissingControllerMethods(document: vscode.TextDocument, fileRoutes: RouteInfo[]): vscode.Diagnostic[] {
+        const diagnostics: vscode.Diagnostic[] = [];
+        const controllerContents = new Map<string, string | null>();
+
+        fileRoutes.forEach(route => {
+            if (!route.controller || !route.controllerMethod) return;
+
+            if (!controllerContents.has(route.controller)) {
+                controllerContents.set(route.controller, this.readControllerFile(route.controller));
+            }
+
+            const content = controllerContents.get(route.controller);
+            if (!content || !this.canVerifyMethods(content)) return;
+
+            const methodPattern = new RegExp(`function\\s+${route.controllerMethod}\\s*\\(`);
+            if (methodPattern.test(content)) return;
+
+            const diagnostic = new vscode.Diagnostic(
+                this.getRouteRange(document, route, route.controllerMethod),
+                `Method '${route.controllerMethod}' does not exist on ${route.controller}`,
+                vscode.DiagnosticSeverity.Error
+            );
+            diagnostic.code = 'missing-controller-method';
+            diagnostic.source = 'Laravel Routes';
+            diagnostics.push(diagnostic);
+        });
+
+        return diagnostics;
+    }
+
+    // $this->get('/posts/1'), ->postJson('/api/posts') or ->json('PUT', '/api/posts/1') with no route behind it
+    private findUnmatchedTestUrls(document: vscode.TextDocument, routes: RouteInfo[]): vscode.Diagnostic[] {
+        const diagnostics: vscode.Diagnostic[] = [];
+        const text = document.getText();
+        const requests: { method: string; url: string; offset: number }[] = [];
+
+        // Interpolated strings are skipped, only literal paths can be checked
+        const verbRegex = /->(get|post|put|patch|delete|options)(?:Json)?\s*\(\s*(['"])(\/[^'"$]*)\2/g;
+        const jsonRegex = /->(?:json|call)\s*\(\s*(['"])(\w+)\1\s*,\s*(['"])(\/[^'"$]*)\3/g;
+        let match;
+
+        while ((match = verbRegex.exec(text)) !== null) {
+            requests.push({ method: match[1].toUpperCase(), url: match[3], offset: match.index + match[0].length - match[3].length - 1 });
+        }
+        while ((match = jsonRegex.exec(text)) !== null) {
+            requests.push({ method: match[2].toUpperCase(), url: match[4], offset: match.index + match[0].length - match[4].length - 1 });
+        }
+        if (requests.length === 0) return diagnostics;
+
+        const patterns = routes.map(route => ({ route, pattern: this.routeProvider.getUriPattern(route) }));
+
+        requests.forEach(request => {
+            const requestPath = request.url.replace(/[?#].*$/, '');
+            const pathMatches = patterns.filter(({ pattern }) => pattern.test(requestPath)).map(({ route }) => route);
+            const accepts = (route: RouteInfo) => route.method.includes(request.method) || route.method.includes('ANY') ||
+                (request.method === 'HEAD' && route.method.includes('GET'));
+            if (pathMatches.some(accepts)) return;
+
+            const allowed = Array.from(new Set(pathMatches.flatMap(route => route.method)));
+            const message = allowed.length > 0
+                ? `No route accepts ${request.method} ${requestPath} (allowed: ${allowed.join(', ')})`
+                : `No route matches ${request.method} ${requestPath}`;
+
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(document.positionAt(request.offset), document.positionAt(request.offset + request.url.length)),
+                message,
+                vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.code = 'unmatched-test-url';
+            diagnostic.source = 'Laravel Routes';
+            diagnostics.push(diagnostic);
+        });
+
+        return diagnostics;
+    }
+
+    // Parameters reach the action by position, but implicit model binding only resolves an argument
+    // whose name matches the placeholder, so {post} is never looked up for show(Post $id)
+    private findUnmatchedParameters(document: vscode.TextDocument, fileRoutes: RouteInfo[]): vscode.Diagnostic[] {
+        const diagnostics: vscode.Diagnostic[] = [];
+
+        fileRoutes.forEach(route => {
+            if (!route.controller || !route.controllerMethod) return;
+
+            this.routeProvider.getRouteBindings(route)
+                .filter(binding => binding.hasArgument === false)
+                .forEach(binding => {
+                    const diagnostic = new vscode.Diagnostic(
+                        this.getParameterRange(document, route, binding.parameter),
+                        `Route parameter '{${binding.parameter}}' has no matching argument in ${route.controller}::${route.controllerMethod}(), so it will not be resolved to a model unless the names match`,
+                        vscode.DiagnosticSeverity.Warning
+                    );
+                    diagnostic.code = 'unmatched-route-parameter';
+                    diagnostic.source = 'Laravel Routes';
+                    diagnostics.push(diagnostic);
+                });
+        });
+
+        return diagnostics;
+    }
+
+    private getParameterRange(document: vscode.TextDocument, route: RouteInfo, parameter: string): vscode.Range {
+        const startLine = Math.min(route.line - 1, document.lineCount - 1);
+        const placeholder = new RegExp(`\\{${parameter}(?=[:?}])`);
+
+        for (let i = startLine; i < Math.min(startLine + 10, document.lineCount); i++) {
+            const match = placeholder.exec(document.lineAt(i).text);
+            if (match) {
+                return new vscode.Range(i, match.index + 1, i, match.index + 1 + parameter.length);
+            }
+        }
+
+        return this.getRouteRange(document, route);
+    }
+
+    private readControllerFile(controller: string): string | null {
+        const controllerPath = this.routeProvider.getControllerFilePath(controller);
+        if (!controllerPath) return null;
+
+        try {
+            return fs.readFileSync(controllerPath, 'utf8');
+        } catch (error) {
+            console.error(`Error reading controller ${controllerPath}:`, error);
+            return null;
+        }
+    }
+
+    // Methods coming from traits, parent controllers or __call cannot be seen in the file itself
+    private canVerifyMethods(content: string): boolean {
+        const classBody = content.substring(content.search(/\bclass\s+\w+/));
+        const extendsMatch = classBody.match(/^class\s+\w+\s+extends\s+([\w\\]+)/);
+        const parentClass = extendsMatch ? extendsMatch[1].split('\\').pop() : undefined;
+
+        return !/^\s*use\s+[\w\\]+\s*[;,{]/m.test(classBody) &&
+               !/function\s+__call\s*\(/.test(classBody) &&
+               (!parentClass || parentClass === 'Controller' || parentClass === 'BaseController');
+    }
+
+    private getRouteKey(route: RouteInfo, method: string): string {
+        // {post} and {id} match the same requests, only the pattern shape matters
+        const normalizedUri = route.uri.replace(/\{[^}?]+(\??)\}/g, '{$1}');
+        return `${route.domain || ''} ${method} ${normalizedUri}`;
+    }
+
+    private getRouteRange(document: vscode.TextDocument, route: RouteInfo, needle?: string): vscode.Range {
+        const startLine = Math.min(route.line - 1, document.lineCount - 1);
+
+        // Multi-line definitions: look a few lines ahead for the quoted value
+        if (needle) {
+            for (let i = startLine; i < Math.min(startLine + 10, document.lineCount); i++) {
+                const lineText = document.lineAt(i).text;
+                for (const quote of ['\'', '"']) {
+                    const index = lineText.indexOf(`${quote}${needle}${quote}`);
+                    if (index !== -1) {
+                        return new vscode.Range(i, index + 1, i, index + 1 + needle.length);
+                    }
+                }
+            }
+        }
+
+        const line = document.lineAt(startLine);
+        return new vscode.Range(startLine, Math.max(route.column, line.firstNonWhitespaceCharacterIndex), startLine, line.text.length);
+    }
+
+    private toLocation(route: RouteInfo): vscode.Location {
+        return new vscode.Location(vscode.Uri.file(route.filePath), new vscode.Position(route.line - 1, Math.max(route.column, 0)));
+    }
+
+    private describeLocation(route: RouteInfo): string {
+        return `${path.relative(this.workspaceRoot, route.filePath)}:${route.line}`;
+    }
+
+    public dispose() {
+        this.pendingUpdates.forEach(timeout => clearTimeout(timeout));
+        this.diagnosticCollection.dispose();
+    }
+}
+
+export class RouteCodeActionProvider implements vscode.CodeActionProvider {
+    constructor(private routeProvider: EnhancedRouteInlayProvider) {}
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+
+        context.diagnostics.forEach(diagnostic => {
+            if (diagnostic.source === 'Laravel Routes') {
+                switch (diagnostic.code) {
+                    case 'undefined-route':
+                        actions.push(...this.createUndefinedRouteActions(document, diagnostic));
+                        break;
+                    case 'duplicate-route-name':
+                    case 'duplicate-route-uri':
+                        actions.push(...this.createOpenDeclarationActions(diagnostic));
+                        break;
+                    case 'missing-controller-method':
+                        actions.push(...this.createControllerMethodActions(diagnostic));
+                        break;
+                }
+            }
+        });
+
+        return actions;
+    }
+
+    private createUndefinedRouteActions(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction[] {
+        const unknownName = document.getText(diagnostic.range);
+
+        // Suggest the closest route names
+        return this.routeProvider.getNamedRoutes()
+            .map(route => ({ name: route.name!, similarity: this.calculateSimilarity(route.name!, unknownName) }))
+            .filter(candidate => candidate.similarity > 0.6)
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, 3)
+            .map((candidate, index) => {
+                const action = new vscode.CodeAction(
+                    `Replace with '${candidate.name}'`,
+                    vscode.CodeActionKind.QuickFix
+                );
+                action.edit = new vscode.WorkspaceEdit();
+                action.edit.replace(document.uri, diagnostic.range, candidate.name);
+                action.diagnostics = [diagnostic];
+                action.isPreferred = index === 0;
+                return action;
+            });
+    }
+
+    private createOpenDeclarationActions(diagnostic: vscode.Diagnostic): vscode.CodeAction[] {
+        return (diagnostic.relatedInformation || []).map(info => {
+            const action = new vscode.CodeAction(
+                `Open ${path.basename(info.location.uri.fsPath)}:${info.location.range.start.line + 1}`,
+                vscode.CodeActionKind.QuickFix
+            );
+            action.command = {
+                command: 'laravel.openRoute',
+                title: 'Open Route',
+                arguments: [info.location.uri.fsPath, info.location.range.start.line + 1]
+            };
+            action.diagnostics = [diagnostic];
+            return action;
+        });
+    }
+
+    private createControllerMethodActions(diagnostic: vscode.Diagnostic): vscode.CodeAction[] {
+        const match = diagnostic.message.match(/Method '(\w+)' does not exist on (\w+)/);
+        if (!match) return [];
+
+        const [, methodName, controller] = match;
+        const controllerPath = this.routeProvider.getControllerFilePath(controller);
+        if (!controllerPath) return [];
+
+        try {
+            const content = fs.readFileSync(controllerPath, 'utf8');
+            const classEnd = content.lastIndexOf('}');
+            if (classEnd === -1) return [];
+
+            const linesBefore = content.substring(0, classEnd).split('\n');
+            const position = new vscode.Position(linesBefore.length - 1, linesBefore[linesBefore.length - 1].length);
+
+            const action = new vscode.CodeAction(
+                `Create method '${methodName}' in ${controller}`,
+                vscode.CodeActionKind.QuickFix
+            );
+            action.edit = new vscode.WorkspaceEdit();
+            action.edit.insert(
+                vscode.Uri.file(controllerPath),
+                position,
+                `\n    public function ${methodName}()\n    {\n        //\n    }\n`
+            );
+            action.diagnostics = [diagnostic];
+            return [action];
+        } catch (error) {
+            console.error(`Error reading controller ${controllerPath}:`, error);
+            return [];
+        }
+    }
+
+    private calculateSimilarity(a: string, b: string): number {
+        const longer = a.length > b.length ? a : b;
+        const shorter = a.length > b.length ? b : a;
+
+        if (longer.length === 0) return 1.0;
+
+        const distance = this.levenshteinDistance(longer, shorter);
+        return (longer.length - distance) / longer.length;
+    }
+
+    private levenshteinDistance(a: string, b: string): number {
+        const matrix = Array(b.length + 1).fill(null).map(() => Array(a.length + 1).fill(null));
+
+        for (let i = 0; i <= a.length; i++) matrix[0][i] = i;
+        for (let j = 0; j <= b.length; j++) matrix[j][0] = j;
+
+        for (let j = 1; j <= b.length; j++) {
+            for (let i = 1; i <= a.length; i++) {
+                const indicator = a[i - 1] === b[j - 1] ? 0 : 1;
+                matrix[j][i] = Math.min(
+                    matrix[j][i - 1] + 1,
+                    matrix[j - 1][i] + 1,
+                    matrix[j - 1][i - 1] + indicator
+                );
+            }
+        }
+
+        return matrix[b.length][a.length];
+    }
+}
@@ -0,0 +1,178 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EnhancedRouteInlayProvider, RouteInfo } from './enhancedRouteInlayProvider';
+import { RouteCallParser } from '../parsers/routeCallParser';
+import { RouteRenameProvider } from './routeRenameProvider';
+
+interface RouteUsage {
+    // Route name, or Controller@method for action() calls
+    key: string;
+    kind: 'name' | 'action';
+    range: vscode.Range;
+}
+
+// Route name and controller action usages per file, re-scanned one file at a time
+export class RouteReferenceIndex {
+    private usages: Map<string, RouteUsage[]> = new Map();
+    private watchers: vscode.FileSystemWatcher[] = [];
+
+    constructor() {
+        this.scanWorkspace();
+        this.setupWatchers();
+    }
+
+    private scanWorkspace() {
+        vscode.workspace.findFiles('**/*.php', '**/{vendor,node_modules}/**').then(files => {
+            files.forEach(file => this.scanFile(file.fsPath));
+        });
+    }
+
+    private setupWatchers() {
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*.php');
+
+        watcher.onDidChange(uri => this.scanFile(uri.fsPath));
+        watcher.onDidCreate(uri => this.scanFile(uri.fsPath));
+        watcher.onDidDelete(uri => this.usages.delete(uri.fsPath));
+
+        this.watchers.push(watcher);
+    }
+
+    private scanFile(filePath: string) {
+        if (/[\\/](vendor|node_modules)[\\/]/.test(filePath)) return;
+
+        try {
+            this.indexContent(filePath, fs.readFileSync(filePath, 'utf8'));
+        } catch (error) {
+            console.error(`Error scanning file ${filePath}:`, error);
+        }
+    }
+
+    // Unsaved edits of an open document take precedence over the file on disk
+    public updateDocument(document: vscode.TextDocument) {
+        if (document.uri.scheme === 'file' && document.fileName.endsWith('.php')) {
+            this.indexContent(document.fileName, document.getText());
+        }
+    }
+
+    private indexContent(filePath: string, content: string) {
+        const lineStarts = [0];
+        for (let i = 0; i < content.length; i++) {
+            if (content[i] === '\n') lineStarts.push(i + 1);
+        }
+        const toRange = (offset: number, length: number) => {
+            let line = lineStarts.length - 1;
+            while (lineStarts[line] > offset) line--;
+            const character = offset - lineStarts[line];
+            return new vscode.Range(line, character, line, character + length);
+        };
+
+        const fileUsages: RouteUsage[] = [];
+        RouteCallParser.findNameReferences(content).forEach(reference => {
+            fileUsages.push({ key: reference.name, kind: 'name', range: toRange(reference.offset, reference.name.length) });
+        });
+        RouteCallParser.findActionReferences(content).forEach(reference => {
+            fileUsages.push({
+                key: `${reference.controller}@${reference.method}`,
+                kind: 'action',
+                range: toRange(reference.offset, reference.length)
+            });
+        });
+
+        if (fileUsages.length > 0) {
+            this.usages.set(filePath, fileUsages);
+        } else {
+            this.usages.delete(filePath);
+        }
+    }
+
+    public getNameUsages(name: string): vscode.Location[] {
+        return this.findUsages('name', name);
+    }
+
+    public getActionUsages(controller: string, method: string): vscode.Location[] {
+        return this.findUsages('action', `${controller}@${method}`);
+    }
+
+    private findUsages(kind: RouteUsage['kind'], key: string): vscode.Location[] {
+        const locations: vscode.Location[] = [];
+        this.usages.forEach((fileUsages, filePath) => {
+            fileUsages
+                .filter(usage => usage.kind === kind && usage.key === key)
+                .forEach(usage => locations.push(new vscode.Location(vscode.Uri.file(filePath), usage.range)));
+        });
+        return locations;
+    }
+
+    public dispose() {
+        this.watchers.forEach(watcher => watcher.dispose());
+    }
+}
+
+// Find All References for route names and the controller methods they point at
+export class RouteReferenceProvider implements vscode.ReferenceProvider {
+    constructor(
+        private routeProvider: EnhancedRouteInlayProvider,
+        private referenceIndex: RouteReferenceIndex
+    ) {}
+
+    provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext
+    ): vscode.Location[] {
+        this.referenceIndex.updateDocument(document);
+
+        const target = RouteRenameProvider.resolveTarget(document, position, this.routeProvider);
+        if (target) {
+            const routes = this.routeProvider.getAllRoutes().filter(route => route.name === target.routeName);
+            return [
+                ...(context.includeDeclaration ? this.getDeclarations(routes) : []),
+                ...this.referenceIndex.getNameUsages(target.routeName)
+            ];
+        }
+
+        const action = this.getControllerMethodAt(document, position);
+        if (!action) {
+            return [];
+        }
+
+        // Routes pointing at the method count as its declarations, their names lead to the usages
+        const routes = this.routeProvider.getRoutesForController(action.controller, action.method);
+        const names = new Set(routes.map(route => route.name).filter((name): name is string => !!name));
+        const locations = [
+            ...this.getDeclarations(routes),
+            ...this.referenceIndex.getActionUsages(action.controller, action.method)
+        ];
+        names.forEach(name => locations.push(...this.referenceIndex.getNameUsages(name)));
+
+        if (context.includeDeclaration) {
+            locations.unshift(new vscode.Location(document.uri, position));
+        }
+        return locations;
+    }
+
+    private getDeclarations(routes: RouteInfo[]): vscode.Location[] {
+        return routes
+            .filter(route => route.source !== 'artisan')
+            .map(route => new vscode.Location(
+                vscode.Uri.file(route.filePath),
+                new vscode.Position(Math.max(route.line - 1, 0), Math.max(route.column, 0))
+            ));
+    }
+
+    private getControllerMethodAt(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): { controller: string; method: string } | undefined {
+        if (!document.fileName.includes('Controller')) return undefined;
+        const controller = path.basename(document.fileName, '.php');
+
+        const wordRange = document.getWordRangeAtPosition(position, /\w+/);
+        if (!wordRange) return undefined;
+
+        const methodMatch = document.lineAt(position.line).text.match(/function\s+(\w+)\s*\(/);
+        const method = document.getText(wordRange);
+        return methodMatch && methodMatch[1] === method ? { controller, method } : undefined;
+    }
+}
@@ -0,0 +1,218 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EnhancedRouteInlayProvider, RouteInfo } from './enhancedRouteInlayProvider';
+import { RouteCallParser } from '../parsers/routeCallParser';
+
+// ->name('x') or 'as' => 'x' right before the quoted literal
+const DECLARATION_PREFIX = /(?:->name\s*\(\s*|['"]as['"]\s*=>\s*)$/;
+
+// Renames a route name at its declaration and at every route(), to_route() and routeIs() usage
+export class RouteRenameProvider implements vscode.RenameProvider {
+    constructor(private routeProvider: EnhancedRouteInlayProvider) {}
+
+    prepareRename(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): { range: vscode.Range; placeholder: string } {
+        const target = RouteRenameProvider.resolveTarget(document, position, this.routeProvider);
+        if (!target) {
+            throw new Error('Place the cursor on a route name');
+        }
+        this.getDeclaredRoutes(target.routeName);
+
+        return { range: target.range, placeholder: target.literal };
+    }
+
+    async provideRenameEdits(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        newName: string
+    ): Promise<vscode.WorkspaceEdit> {
+        const target = RouteRenameProvider.resolveTarget(document, position, this.routeProvider);
+        if (!target) {
+            throw new Error('Place the cursor on a route name');
+        }
+
+        // At a declaration only the part after the group name prefix is typed
+        const newRouteName = target.namePrefix + newName.trim();
+        if (!/^[\w.\-:]+$/.test(newRouteName)) {
+            throw new Error(`'${newName}' is not a valid route name`);
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        if (newRouteName === target.routeName) {
+            return edit;
+        }
+        if (this.routeProvider.getRouteByName(newRouteName)) {
+            throw new Error(`Route '${newRouteName}' already exists`);
+        }
+
+        const metadata: vscode.WorkspaceEditEntryMetadata = {
+            needsConfirmation: true,
+            label: `Rename route '${target.routeName}' to '${newRouteName}'`
+        };
+        const edited = new Set<string>();
+        const replace = (uri: vscode.Uri, range: vscode.Range, text: string) => {
+            const key = `${uri.toString()}:${range.start.line}:${range.start.character}`;
+            if (!edited.has(key)) {
+                edited.add(key);
+                edit.replace(uri, range, text, metadata);
+            }
+        };
+
+        // Usages are only rewritten once every declaration can be rewritten with them
+        for (const route of this.getDeclaredRoutes(target.routeName)) {
+            const declaration = await this.findDeclaration(route);
+            if (!declaration) {
+                throw new Error(`Cannot find where route '${target.routeName}' is named in ${path.basename(route.filePath)}`);
+            }
+
+            if (!newRouteName.startsWith(declaration.namePrefix)) {
+                throw new Error(`The new name must keep the group prefix '${declaration.namePrefix}'`);
+            }
+            replace(declaration.uri, declaration.range, newRouteName.substring(declaration.namePrefix.length));
+        }
+
+        const files = await vscode.workspace.findFiles('**/*.php', '**/{vendor,node_modules}/**');
+        for (const file of files) {
+            const usageDocument = await this.openIfMentioned(file, target.routeName);
+            if (!usageDocument) continue;
+
+            RouteCallParser.findNameReferences(usageDocument.getText())
+                .filter(reference => reference.name === target.routeName)
+                .forEach(reference => {
+                    const start = usageDocument.positionAt(reference.offset);
+                    replace(file, new vscode.Range(start, start.translate(0, reference.name.length)), newRouteName);
+                });
+        }
+
+        return edit;
+    }
+
+    // Routes declaring the name in the route files, refusing names the rename cannot rewrite
+    private getDeclaredRoutes(routeName: string): RouteInfo[] {
+        const routes = this.routeProvider.getAllRoutes().filter(route => route.name === routeName);
+
+        if (routes.some(route => route.resource)) {
+            throw new Error(`Route '${routeName}' is generated by a resource route, rename it with ->names() instead`);
+        }
+        const declarations = routes.filter(route => route.source !== 'artisan');
+        if (declarations.length === 0) {
+            throw new Error(`Route '${routeName}' is not declared in the route files`);
+        }
+
+        return declarations;
+    }
+
+    // The route name under the cursor, either a declaration literal or a usage
+    static resolveTarget(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        routeProvider: EnhancedRouteInlayProvider
+    ): RouteNameTarget | undefined {
+        const lineText = document.lineAt(position.line).text;
+        const literalRegex = /(['"])([^'"]+)\1/g;
+        let literal;
+
+        while ((literal = literalRegex.exec(lineText)) !== null) {
+            const start = literal.index + 1;
+            const end = start + literal[2].length;
+            if (position.character < start || position.character > end) continue;
+
+            const range = new vscode.Range(position.line, start, position.line, end);
+            if (DECLARATION_PREFIX.test(lineText.substring(0, literal.index))) {
+                const route = this.findDeclaredRoute(routeProvider, document, position.line, literal[2]);
+                return route?.name ? {
+                    routeName: route.name,
+                    namePrefix: route.name.substring(0, route.name.length - literal[2].length),
+                    literal: literal[2],
+                    range
+                } : undefined;
+            }
+            break;
+        }
+
+        const offset = document.offsetAt(position);
+        const reference = RouteCallParser.findNameReferences(document.getText())
+            .find(candidate => candidate.offset <= offset && offset <= candidate.offset + candidate.name.length);
+        if (!reference || !routeProvider.getRouteByName(reference.name)) {
+            return undefined;
+        }
+
+        const start = document.positionAt(reference.offset);
+        return {
+            routeName: reference.name,
+            namePrefix: '',
+            literal: reference.name,
+            range: new vscode.Range(start, start.translate(0, reference.name.length))
+        };
+    }
+
+    // Closest route declared at or above the line whose full name ends with the literal
+    private static findDeclaredRoute(
+        routeProvider: EnhancedRouteInlayProvider,
+        document: vscode.TextDocument,
+        line: number,
+        literal: string
+    ): RouteInfo | undefined {
+        return routeProvider.getRoutesForFile(document.fileName)
+            .filter(route => route.name && route.name.endsWith(literal) && route.line - 1 <= line)
+            .sort((a, b) => b.line - a.line)[0];
+    }
+
+    private async findDeclaration(route: RouteInfo): Promise<RouteDeclaration | undefined> {
+        const document = await vscode.workspace.openTextDocument(route.filePath);
+        const startLine = Math.max(route.line - 1, 0);
+
+        // Chained ->name() calls may sit a few lines below the verb
+        for (let i = startLine; i < Math.min(startLine + 10, document.lineCount); i++) {
+            const lineText = document.lineAt(i).text;
+            const declarationRegex = /(?:->name\s*\(\s*|['"]as['"]\s*=>\s*)(['"])([^'"]+)\1/g;
+            let match;
+
+            while ((match = declarationRegex.exec(lineText)) !== null) {
+                const literal = match[2];
+                if (!route.name!.endsWith(literal)) continue;
+
+                const start = match.index + match[0].length - literal.length - 1;
+                return {
+                    uri: document.uri,
+                    range: new vscode.Range(i, start, i, start + literal.length),
+                    namePrefix: route.name!.substring(0, route.name!.length - literal.length)
+                };
+            }
+        }
+
+        return undefined;
+    }
+
+    private async openIfMentioned(file: vscode.Uri, routeName: string): Promise<vscode.TextDocument | undefined> {
+        const openDocument = vscode.workspace.textDocuments.find(document => document.uri.fsPath === file.fsPath);
+        if (openDocument) {
+            return openDocument.getText().includes(routeName) ? openDocument : undefined;
+        }
+
+        try {
+            const content = fs.readFileSync(file.fsPath, 'utf8');
+            return content.includes(routeName) ? await vscode.workspace.openTextDocument(file) : undefined;
+        } catch (error) {
+            console.error(`Error reading ${file.fsPath}:`, error);
+            return undefined;
+        }
+    }
+}
+
+export interface RouteNameTarget {
+    routeName: string;
+    // Group name prefix in front of the literal, empty at usages
+    namePrefix: string;
+    literal: string;
+    range: vscode.Range;
+}
+
+interface RouteDeclaration {
+    uri: vscode.Uri;
+    range: vscode.Range;
+    namePrefix: string;
+}
@@ -0,0 +1,241 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { EnhancedRouteInlayProvider, RouteInfo } from './enhancedRouteInlayProvider';
+import { LaravelRequestCompletionProvider } from './requestCompletionProvider';
+
+// Builds REST Client (.http) snippets and curl commands for parsed routes
+export class RouteRequestGenerator {
+    constructor(
+        private routeProvider: EnhancedRouteInlayProvider,
+        private requestProvider: LaravelRequestCompletionProvider
+    ) {}
+
+    public generateHttpFile(routes: RouteInfo[]): string {
+        const appUrl = this.routeProvider.getAppUrl();
+        const variables = new Map<string, string>([['baseUrl', appUrl]]);
+        const requests: string[] = [];
+
+        routes.forEach(route => {
+            const method = this.getRequestMethod(route);
+            const url = this.routeProvider.getRouteUrl(route);
+            const target = (url.startsWith(appUrl) ? '{{baseUrl}}' + url.substring(appUrl.length) : url)
+                .replace(/\{(\w+)(?::\w+)?\??\}/g, (_match, name: string) => {
+                    variables.set(name, variables.get(name) || '1');
+                    return `{{${name}}}`;
+                });
+
+            const lines = [`### ${route.name || route.uri}`, `${method} ${target}`, 'Accept: application/json'];
+
+            if (this.requiresToken(route)) {
+                variables.set('token', '');
+                lines.push('Authorization: Bearer {{token}}');
+            }
+
+            const body = this.getRequestBody(route, method);
+            if (body) {
+                lines.push('Content-Type: application/json', '', JSON.stringify(body, null, 4));
+            }
+
+            requests.push(lines.join('\n'));
+        });
+
+        const header = Array.from(variables.entries()).map(([name, value]) => `@${name} = ${value}`);
+        return `${header.join('\n')}\n\n${requests.join('\n\n')}\n`;
+    }
+
+    public generateCurl(route: RouteInfo): string {
+        const method = this.getRequestMethod(route);
+        // --globoff keeps curl from expanding the {parameter} placeholders
+        const parts = [`curl --globoff -X ${method} '${this.routeProvider.getRouteUrl(route)}'`, `-H 'Accept: application/json'`];
+
+        if (this.requiresToken(route)) {
+            parts.push(`-H 'Authorization: Bearer <token>'`);
+        }
+
+        const body = this.getRequestBody(route, method);
+        if (body) {
+            parts.push(`-H 'Content-Type: application/json'`);
+            parts.push(`-d '${JSON.stringify(body).replace(/'/g, `'\\''`)}'`);
+        }
+
+        return parts.join(' \\\n  ');
+    }
+
+    private getRequestMethod(route: RouteInfo): string {
+        const method = route.method.find(method => method !== 'HEAD') || route.method[0] || 'GET';
+        // Route::any() accepts every verb, ANY is not one an HTTP client can send
+        return method === 'ANY' ? 'GET' : method;
+    }
+
+    private requiresToken(route: RouteInfo): boolean {
+        return (route.middleware || []).some(middleware => /^auth:(sanctum|api)\b/.test(middleware));
+    }
+
+    // JSON skeleton built from the FormRequest type-hinted in the controller method
+    private getRequestBody(route: RouteInfo, method: string): Record<string, unknown> | undefined {
+        if (method === 'GET' || method === 'DELETE') {
+            return undefined;
+        }
+
+        const requestName = this.routeProvider.getFormRequest(route);
+        const request = requestName ? this.requestProvider.getRequest(requestName) : undefined;
+        if (!request || request.fields.length === 0) {
+            return undefined;
+        }
+
+        const body: Record<string, unknown> = {};
+        request.fields.forEach(field => {
+            this.assignField(body, field.field.split('.'), this.getExampleValue(field.rules));
+        });
+        return body;
+    }
+
+    private assignField(container: Record<string, unknown> | unknown[], segments: string[], value: unknown) {
+        const [segment, ...rest] = segments;
+        // A wildcard stands for the first element of an array
+        const read = (): unknown => Array.isArray(container) ? container[0] : container[segment];
+        const write = (child: unknown) => {
+            if (Array.isArray(container)) {
+                container[0] = child;
+            } else {
+                container[segment] = child;
+            }
+        };
+
+        if (rest.length === 0) {
+            if (read() === undefined) {
+                write(value);
+            }
+            return;
+        }
+
+        // items.*.name needs an array of objects, meta.title a nested object
+        const expectsArray = rest[0] === '*';
+        const existing = read();
+        const child = this.isContainer(existing, expectsArray) ? existing : expectsArray ? [] : {};
+        write(child);
+
+        this.assignField(child, rest, value);
+    }
+
+    private isContainer(value: unknown, array: boolean): value is Record<string, unknown> | unknown[] {
+        return typeof value === 'object' && value !== null && Array.isArray(value) === array;
+    }
+
+    private getExampleValue(rules: string[]): unknown {
+        const names = rules.map(rule => rule.split(':')[0]);
+
+        if (names.includes('integer') || names.includes('numeric')) return 0;
+        if (names.includes('boolean') || names.includes('accepted')) return true;
+        if (names.includes('array')) return [];
+        if (names.includes('email')) return 'user@example.com';
+        if (names.includes('url')) return 'https://example.com';
+        if (names.includes('date')) return new Date().toISOString().substring(0, 10);
+        return '';
+    }
+}
+
+export class RouteRequestCommands {
+    static register(
+        context: vscode.ExtensionContext,
+        generator: RouteRequestGenerator,
+        routeProvider: EnhancedRouteInlayProvider,
+        workspaceRoot: string
+    ) {
+        context.subscriptions.push(
+            vscode.commands.registerCommand('laravel.generateHttpRequest', async (target?: RouteTarget) => {
+                const routes = this.resolveRoutes(target) || await this.pickRoute(routeProvider);
+                if (routes && routes.length > 0) {
+                    await this.openHttpDocument(generator.generateHttpFile(routes));
+                }
+            }),
+
+            vscode.commands.registerCommand('laravel.copyCurlCommand', async (target?: RouteTarget) => {
+                const routes = this.resolveRoutes(target) || await this.pickRoute(routeProvider);
+                if (!routes || routes.length === 0) return;
+
+                await vscode.env.clipboard.writeText(routes.map(route => generator.generateCurl(route)).join('\n\n'));
+                vscode.window.setStatusBarMessage('Copied curl command', 3000);
+            }),
+
+            vscode.commands.registerCommand('laravel.generateHttpCollection', async (target?: RouteTarget) => {
+                const routes = this.resolveRoutes(target) || await this.pickCollection(routeProvider, workspaceRoot);
+                if (routes && routes.length > 0) {
+                    await this.openHttpDocument(generator.generateHttpFile(routes));
+                }
+            })
+        );
+    }
+
+    // Commands are invoked with a route (hover), a list of routes (CodeLens) or a tree item
+    private static resolveRoutes(target?: RouteTarget): RouteInfo[] | undefined {
+        if (!target) return undefined;
+        if (Array.isArray(target)) return target;
+        if ('route' in target && target.route) return [target.route];
+        if ('children' in target && target.children.length > 0) return target.children;
+        if ('uri' in target && 'method' in target) return [target];
+        return undefined;
+    }
+
+    private static async pickRoute(routeProvider: EnhancedRouteInlayProvider): Promise<RouteInfo[] | undefined> {
+        const items = routeProvider.getAllRoutes().map(route => ({
+            label: `${route.method.join('|')} ${routeProvider.getDisplayUri(route)}`,
+            description: route.name,
+            route
+        }));
+
+        const selection = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select a route',
+            matchOnDescription: true
+        });
+        return selection ? [selection.route] : undefined;
+    }
+
+    private static async pickCollection(
+        routeProvider: EnhancedRouteInlayProvider,
+        workspaceRoot: string
+    ): Promise<RouteInfo[] | undefined> {
+        const routes = routeProvider.getAllRoutes();
+        const collections = new Map<string, RouteInfo[]>();
+        const add = (key: string, route: RouteInfo) => {
+            if (!collections.has(key)) {
+                collections.set(key, []);
+            }
+            collections.get(key)!.push(route);
+        };
+
+        routes.forEach(route => {
+            add(`File: ${route.source === 'artisan' ? '(route:list)' : path.relative(workspaceRoot, route.filePath)}`, route);
+            const segment = route.uri.split('/').filter(part => part.length > 0)[0];
+            if (segment) {
+                add(`Prefix: /${segment}`, route);
+            }
+            if (route.domain) {
+                add(`Domain: ${route.domain}`, route);
+            }
+        });
+
+        const items = Array.from(collections.entries()).map(([label, collectionRoutes]) => ({
+            label,
+            description: `${collectionRoutes.length} routes`,
+            routes: collectionRoutes
+        }));
+
+        const selection = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Generate a .http collection for a route file, prefix or domain'
+        });
+        return selection?.routes;
+    }
+
+    private static async openHttpDocument(content: string) {
+        // The http language is only known when a REST Client extension is installed
+        const languages = await vscode.languages.getLanguages();
+        const document = await vscode.workspace.openTextDocument({
+            content,
+            language: languages.includes('http') ? 'http' : 'plaintext'
+        });
+        await vscode.window.showTextDocument(document);
+    }
+}
+
+type RouteTarget = RouteInfo | RouteInfo[] | { route?: RouteInfo; children: RouteInfo[] };
@@ -0,0 +1,312 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EnhancedRouteInlayProvider, RouteInfo } from './enhancedRouteInlayProvider';
+
+type RouteGrouping = 'file' | 'prefix' | 'domain' | 'middleware' | 'controller';
+
+const GROUPING_LABELS: Record<RouteGrouping, string> = {
+    file: 'Route File',
+    prefix: 'URI Prefix',
+    domain: 'Domain',
+    middleware: 'Middleware',
+    controller: 'Controller'
+};
+
+// Colors used as verb badges on the route icons
+const METHOD_COLORS: Record<string, string> = {
+    GET: 'charts.green',
+    POST: 'charts.yellow',
+    PUT: 'charts.blue',
+    PATCH: 'charts.purple',
+    DELETE: 'charts.red'
+};
+
+export class RouteTreeItem extends vscode.TreeItem {
+    constructor(
+        label: string | vscode.TreeItemLabel,
+        collapsibleState: vscode.TreeItemCollapsibleState,
+        public readonly route?: RouteInfo,
+        public readonly children: RouteInfo[] = []
+    ) {
+        super(label, collapsibleState);
+    }
+}
+
+// Explorer view listing every parsed route, grouped by file, prefix, middleware or controller
+export class RouteTreeProvider implements vscode.TreeDataProvider<RouteTreeItem> {
+    private treeChanged = new vscode.EventEmitter<RouteTreeItem | undefined>();
+    public readonly onDidChangeTreeData = this.treeChanged.event;
+
+    private grouping: RouteGrouping;
+    private filter = '';
+
+    constructor(
+        private routeProvider: EnhancedRouteInlayProvider,
+        private workspaceRoot: string,
+        private state: vscode.Memento
+    ) {
+        this.grouping = state.get<RouteGrouping>('laravel.routeTree.grouping', 'file');
+        this.routeProvider.onDidChangeRoutes(() => this.refresh());
+    }
+
+    public refresh() {
+        this.treeChanged.fire(undefined);
+    }
+
+    public getGrouping(): RouteGrouping {
+        return this.grouping;
+    }
+
+    public setGrouping(grouping: RouteGrouping) {
+        this.grouping = grouping;
+        this.state.update('laravel.routeTree.grouping', grouping);
+        this.refresh();
+    }
+
+    public getFilter(): string {
+        return this.filter;
+    }
+
+    public setFilter(filter: string) {
+        this.filter = filter.trim();
+        vscode.commands.executeCommand('setContext', 'laravel.routeTreeFiltered', this.filter.length > 0);
+        this.refresh();
+    }
+
+    getTreeItem(element: RouteTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: RouteTreeItem): RouteTreeItem[] {
+        if (element) {
+            return element.children.map(route => this.createRouteItem(route));
+        }
+
+        const groups = this.groupRoutes(this.getFilteredRoutes());
+        return Array.from(groups.keys())
+            .sort((a, b) => a.localeCompare(b))
+            .map(label => {
+                const routes = groups.get(label)!;
+                const item = new RouteTreeItem(
+                    label,
+                    vscode.TreeItemCollapsibleState.Collapsed,
+                    undefined,
+                    routes
+                );
+                item.description = `${routes.length}`;
+                item.iconPath = new vscode.ThemeIcon(this.getGroupIcon());
+                item.contextValue = 'laravelRouteGroup';
+                return item;
+            });
+    }
+
+    private getFilteredRoutes(): RouteInfo[] {
+        const routes = this.routeProvider.getAllRoutes();
+        if (!this.filter) {
+            return routes;
+        }
+
+        const filter = this.filter.toLowerCase();
+        return routes.filter(route =>
+            route.uri.toLowerCase().includes(filter) ||
+            (route.domain && route.domain.toLowerCase().includes(filter)) ||
+            route.method.some(method => method.toLowerCase() === filter) ||
+            (route.name && route.name.toLowerCase().includes(filter)) ||
+            (route.action && route.action.toLowerCase().includes(filter)) ||
+            (route.middleware && route.middleware.some(middleware => middleware.toLowerCase().includes(filter)))
+        );
+    }
+
+    private groupRoutes(routes: RouteInfo[]): Map<string, RouteInfo[]> {
+        const groups = new Map<string, RouteInfo[]>();
+        const add = (key: string, route: RouteInfo) => {
+            if (!groups.has(key)) {
+                groups.set(key, []);
+            }
+            groups.get(key)!.push(route);
+        };
+
+        routes.forEach(route => {
+            switch (this.grouping) {
+                case 'file':
+                    add(route.source === 'artisan' ? '(route:list)' : path.relative(this.workspaceRoot, route.filePath), route);
+                    break;
+                case 'prefix': {
+                    const segment = route.uri.split('/').filter(part => part.length > 0)[0];
+                    add(segment ? `/${segment}` : '/', route);
+                    break;
+                }
+                case 'domain':
+                    add(route.domain || '(any domain)', route);
+                    break;
+                case 'middleware':
+                    if (route.middleware && route.middleware.length > 0) {
+                        route.middleware.forEach(middleware => add(middleware, route));
+                    } else {
+                        add('(no middleware)', route);
+                    }
+                    break;
+                case 'controller':
+                    add(route.controller || '(closures)', route);
+                    break;
+            }
+        });
+
+        return groups;
+    }
+
+    private createRouteItem(route: RouteInfo): RouteTreeItem {
+        const methods = route.method.join('|');
+        const label: vscode.TreeItemLabel = {
+            label: `${methods} ${this.routeProvider.getDisplayUri(route)}`,
+            highlights: [[0, methods.length]]
+        };
+
+        const item = new RouteTreeItem(label, vscode.TreeItemCollapsibleState.None, route);
+        item.description = route.name || '';
+        item.tooltip = this.createTooltip(route);
+        item.iconPath = new vscode.ThemeIcon(
+            'circle-filled',
+            new vscode.ThemeColor(METHOD_COLORS[route.method[0]] || 'charts.foreground')
+        );
+        item.contextValue = [
+            'laravelRoute',
+            route.controller && route.controllerMethod ? 'controller' : '',
+            route.name ? 'named' : ''
+        ].filter(part => part).join('.');
+        item.command = {
+            command: 'laravel.openRoute',
+            title: 'Open Route',
+            arguments: [route.filePath, route.line]
+        };
+        return item;
+    }
+
+    private createTooltip(route: RouteInfo): vscode.MarkdownString {
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`**${route.method.join(', ')}** \`${this.routeProvider.getDisplayUri(route)}\`\n\n`);
+
+        if (route.name) {
+            tooltip.appendMarkdown(`**Name:** \`${route.name}\`\n\n`);
+        }
+
+        tooltip.appendMarkdown(`**Action:** ${route.action || 'Closure'}\n\n`);
+
+        if (route.middleware && route.middleware.length > 0) {
+            tooltip.appendMarkdown(`**Middleware:** ${route.middleware.join(', ')}\n\n`);
+        }
+
+        if (route.source === 'artisan') {
+            tooltip.appendMarkdown('_Loaded from route:list_');
+        } else {
+            tooltip.appendMarkdown(`_${path.relative(this.workspaceRoot, route.filePath)}:${route.line}_`);
+        }
+        return tooltip;
+    }
+
+    private getGroupIcon(): string {
+        switch (this.grouping) {
+            case 'file':
+                return 'file-code';
+            case 'prefix':
+                return 'folder';
+            case 'domain':
+                return 'globe';
+            case 'middleware':
+                return 'shield';
+            case 'controller':
+                return 'symbol-class';
+        }
+    }
+}
+
+// Commands behind the route tree title bar and context menu
+export class RouteTreeCommands {
+    static register(
+        context: vscode.ExtensionContext,
+        treeProvider: RouteTreeProvider,
+        routeProvider: EnhancedRouteInlayProvider
+    ) {
+        context.subscriptions.push(
+            vscode.window.createTreeView('laravelRoutes', {
+                treeDataProvider: treeProvider,
+                showCollapseAll: true
+            }),
+
+            vscode.commands.registerCommand('laravel.routeTree.refresh', () => {
+                routeProvider.refreshRoutes();
+            }),
+
+            vscode.commands.registerCommand('laravel.routeTree.groupBy', async () => {
+                const items = (Object.keys(GROUPING_LABELS) as RouteGrouping[]).map(grouping => ({
+                    label: GROUPING_LABELS[grouping],
+                    description: grouping === treeProvider.getGrouping() ? 'current' : undefined,
+                    grouping
+                }));
+
+                const selection = await vscode.window.showQuickPick(items, {
+                    placeHolder: 'Group routes by'
+                });
+                if (selection) {
+                    treeProvider.setGrouping(selection.grouping);
+                }
+            }),
+
+            vscode.commands.registerCommand('laravel.routeTree.filter', async () => {
+                const filter = await vscode.window.showInputBox({
+                    prompt: 'Filter routes by URI, domain, method, name, action or middleware',
+                    value: treeProvider.getFilter()
+                });
+                if (filter !== undefined) {
+                    treeProvider.setFilter(filter);
+                }
+            }),
+
+            vscode.commands.registerCommand('laravel.routeTree.clearFilter', () => {
+                treeProvider.setFilter('');
+            }),
+
+            vscode.commands.registerCommand('laravel.routeTree.openDefinition', (item: RouteTreeItem) => {
+                if (item?.route) {
+                    vscode.commands.executeCommand('laravel.openRoute', item.route.filePath, item.route.line);
+                }
+            }),
+
+            vscode.commands.registerCommand('laravel.routeTree.openControllerMethod', async (item: RouteTreeItem) => {
+                const route = item?.route;
+                if (!route || !route.controller || !route.controllerMethod) return;
+
+                const controllerPath = routeProvider.getControllerFilePath(route.controller);
+                if (!controllerPath) {
+                    vscode.window.showWarningMessage(`Controller ${route.controller} not found`);
+                    return;
+                }
+
+                try {
+                    const content = fs.readFileSync(controllerPath, 'utf8');
+                    const methodIndex = content.search(new RegExp(`function\\s+${route.controllerMethod}\\s*\\(`));
+                    const line = methodIndex === -1 ? 1 : content.substring(0, methodIndex).split('\n').length;
+                    vscode.commands.executeCommand('laravel.openRoute', controllerPath, line);
+                } catch (error) {
+                    console.error(`Error reading controller ${controllerPath}:`, error);
+                }
+            }),
+
+            vscode.commands.registerCommand('laravel.routeTree.copyUrl', async (item: RouteTreeItem) => {
+                if (!item?.route) return;
+
+                const url = routeProvider.getRouteUrl(item.route);
+                await vscode.env.clipboard.writeText(url);
+                vscode.window.setStatusBarMessage(`Copied ${url}`, 3000);
+            }),
+
+            vscode.commands.registerCommand('laravel.routeTree.copyName', async (item: RouteTreeItem) => {
+                if (!item?.route?.name) return;
+
+                await vscode.env.clipboard.writeText(item.route.name);
+                vscode.window.setStatusBarMessage(`Copied ${item.route.name}`, 3000);
+            })
+        );
+    }
+}
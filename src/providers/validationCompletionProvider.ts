@@ -1,6 +1,10 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { LaravelDetector } from '../utils/laravelDetector';
+import { VALIDATION_RULE_CATALOG, RULE_OBJECT_FACTORIES, RULE_OBJECT_BUILDERS } from './validationRuleCatalog';
+import { ValidationRuleParser, RuleObjectExpression } from '../parsers/validationRuleParser';
+import { RouteCallParser } from '../parsers/routeCallParser';
 
 export interface ValidationRule {
     name: string;
@@ -9,6 +13,32 @@ export interface ValidationRule {
     examples: string[];
     category: string;
     phpDocUrl?: string;
+    // Laravel release that introduced or removed the rule
+    since?: string;
+    removedIn?: string;
+}
+
+// Static factory or fluent method of Rule::, Password:: and File:: rule objects
+export interface RuleObjectMethod {
+    name: string;
+    description: string;
+    parameters?: ValidationParameter[];
+    examples: string[];
+    // Builder whose fluent methods can be chained on the returned object
+    builder?: string;
+    since?: string;
+}
+
+// Rule class from app/Rules, used as `new ClassName(...)` inside a rules array
+export interface CustomRuleClass {
+    name: string;
+    className: string;
+    filePath: string;
+    line: number;
+    // Constructor parameter declarations, e.g. "string $country = 'DE'"
+    parameters: string[];
+    description?: string;
+    message?: string;
 }
 
 export interface ValidationParameter {
@@ -26,12 +56,19 @@ export interface DatabaseTable {
 
 export class LaravelValidationCompletionProvider implements vscode.CompletionItemProvider {
     private validationRules: ValidationRule[] = [];
+    private laravelVersion: string | null = null;
     private databaseTables: Map<string, DatabaseTable> = new Map();
     private modelColumns: Map<string, string[]> = new Map();
+    // Enum names declared per file, for Rule::enum()
+    private enumDeclarations: Map<string, string[]> = new Map();
+    private customRuleClasses: Map<string, CustomRuleClass[]> = new Map();
+    // String rules registered with Validator::extend(), per file
+    private extensionRules: Map<string, ValidationRule[]> = new Map();
 
     constructor(private workspaceRoot: string) {
         this.initializeValidationRules();
         this.analyzeDatabaseSchema();
+        this.analyzeAppDirectory(path.join(workspaceRoot, 'app'));
         this.setupWatchers();
     }
 
@@ -47,135 +84,135 @@ export class LaravelValidationCompletionProvider implements vscode.CompletionIte
         modelWatcher.onDidChange(() => this.analyzeModels());
         modelWatcher.onDidCreate(() => this.analyzeModels());
         modelWatcher.onDidDelete(() => this.analyzeModels());
+
+        // The framework version decides which rules exist
+        const composerWatcher = vscode.workspace.createFileSystemWatcher('composer.json');
+        composerWatcher.onDidChange(() => this.initializeValidationRules());
+        composerWatcher.onDidCreate(() => this.initializeValidationRules());
+
+        // Enums, rule classes and Validator::extend() calls
+        const appWatcher = vscode.workspace.createFileSystemWatcher('**/app/**/*.php');
+        const parseAppFile = (uri: vscode.Uri) => {
+            this.parseEnums(uri.fsPath);
+            this.parseCustomRules(uri.fsPath);
+        };
+        appWatcher.onDidChange(parseAppFile);
+        appWatcher.onDidCreate(parseAppFile);
+        appWatcher.onDidDelete(uri => {
+            this.enumDeclarations.delete(uri.fsPath);
+            this.customRuleClasses.delete(uri.fsPath);
+            this.extensionRules.delete(uri.fsPath);
+        });
     }
 
+    // Built-in rules available in the project's Laravel version
     private initializeValidationRules() {
-        this.validationRules = [
-            // Basic Rules
-            {
-                name: 'required',
-                description: 'The field under validation must be present in the input data and not empty',
-                examples: ['required'],
-                category: 'Basic',
-                phpDocUrl: 'https://laravel.com/docs/validation#rule-required'
-            },
-            {
-                name: 'nullable',
-                description: 'The field under validation may be null',
-                examples: ['nullable'],
-                category: 'Basic'
-            },
-            {
-                name: 'string',
-                description: 'The field under validation must be a string',
-                examples: ['string'],
-                category: 'String'
-            },
-            {
-                name: 'integer',
-                description: 'The field under validation must be an integer',
-                examples: ['integer'],
-                category: 'Numeric'
-            },
-            {
-                name: 'numeric',
-                description: 'The field under validation must be numeric',
-                examples: ['numeric'],
-                category: 'Numeric'
-            },
-            {
-                name: 'boolean',
-                description: 'The field under validation must be able to be cast as a boolean',
-                examples: ['boolean'],
-                category: 'Boolean'
-            },
-            {
-                name: 'email',
-                description: 'The field under validation must be formatted as an email address',
-                examples: ['email', 'email:rfc,dns'],
-                category: 'Format'
-            },
-            {
-                name: 'min',
-                description: 'The field under validation must have a minimum value/length',
-                parameters: [
-                    { name: 'value', type: 'integer', required: true, description: 'Minimum value or length' }
-                ],
-                examples: ['min:3', 'min:8'],
-                category: 'Size'
-            },
-            {
-                name: 'max',
-                description: 'The field under validation must have a maximum value/length',
-                parameters: [
-                    { name: 'value', type: 'integer', required: true, description: 'Maximum value or length' }
-                ],
-                examples: ['max:255', 'max:100'],
-                category: 'Size'
-            },
-            {
-                name: 'confirmed',
-                description: 'The field under validation must have a matching field of {field}_confirmation',
-                examples: ['confirmed'],
-                category: 'Confirmation'
-            },
-            {
-                name: 'unique',
-                description: 'The field under validation must not exist within the given database table',
-                parameters: [
-                    { name: 'table', type: 'string', required: true, description: 'Table name or model' },
-                    { name: 'column', type: 'string', required: false, description: 'Column name' }
-                ],
-                examples: ['unique:users', 'unique:users,email'],
-                category: 'Database'
-            },
-            {
-                name: 'exists',
-                description: 'The field under validation must exist in a given database table',
-                parameters: [
-                    { name: 'table', type: 'string', required: true, description: 'Table name or model' },
-                    { name: 'column', type: 'string', required: false, description: 'Column name' }
-                ],
-                examples: ['exists:users', 'exists:users,id'],
-                category: 'Database'
-            },
-            {
-                name: 'in',
-                description: 'The field under validation must be included in the given list of values',
-                parameters: [
-                    { name: 'values', type: 'string', required: true, description: 'Comma-separated list of allowed values' }
-                ],
-                examples: ['in:admin,user,guest', 'in:red,green,blue'],
-                category: 'Options'
-            },
-            {
-                name: 'regex',
-                description: 'The field under validation must match the given regular expression',
-                parameters: [
-                    { name: 'pattern', type: 'string', required: true, description: 'Regular expression pattern' }
-                ],
-                examples: ['regex:/^[A-Za-z0-9]+$/', 'regex:/^\\+?[1-9]\\d{1,14}$/'],
-                category: 'Pattern'
-            },
-            {
-                name: 'date',
-                description: 'The field under validation must be a valid, non-relative date',
-                examples: ['date'],
-                category: 'Date'
-            },
-            {
-                name: 'file',
-                description: 'The field under validation must be a successfully uploaded file',
-                examples: ['file'],
-                category: 'File'
-            },
-            {
-                name: 'image',
-                description: 'The field under validation must be an image (jpeg, png, bmp, gif, svg, or webp)',
-                examples: ['image'],
-                category: 'File'
+        this.laravelVersion = LaravelDetector.getLaravelVersion(this.workspaceRoot);
+        this.validationRules = VALIDATION_RULE_CATALOG.filter(rule => this.isRuleSupported(rule));
+    }
+
+    public isRuleSupported(rule: { since?: string; removedIn?: string }): boolean {
+        return LaravelDetector.supportsVersion(this.laravelVersion, rule.since, rule.removedIn);
+    }
+
+    private analyzeAppDirectory(dir: string) {
+        if (!fs.existsSync(dir)) return;
+
+        fs.readdirSync(dir, { withFileTypes: true }).forEach(file => {
+            const filePath = path.join(dir, file.name);
+            if (file.isDirectory()) {
+                this.analyzeAppDirectory(filePath);
+            } else if (file.name.endsWith('.php')) {
+                this.parseEnums(filePath);
+                this.parseCustomRules(filePath);
             }
-        ];
+        });
+    }
+
+    private parseEnums(filePath: string) {
+        try {
+            const content = fs.readFileSync(filePath, 'utf8');
+            const names = Array.from(content.matchAll(/^\s*enum\s+(\w+)/gm), match => match[1]);
+            if (names.length > 0) {
+                this.enumDeclarations.set(filePath, names);
+            } else {
+                this.enumDeclarations.delete(filePath);
+            }
+        } catch (error) {
+            console.error(`Error parsing enums in ${filePath}:`, error);
+        }
+    }
+
+    // Rule classes under app/Rules and Validator::extend() calls anywhere in app/
+    private parseCustomRules(filePath: string) {
+        try {
+            const content = fs.readFileSync(filePath, 'utf8');
+
+            const isRuleFile = /[\\/]app[\\/]Rules[\\/]/.test(filePath);
+            const ruleClass = isRuleFile ? this.parseCustomRuleClass(filePath, content) : undefined;
+            if (ruleClass) {
+                this.customRuleClasses.set(filePath, [ruleClass]);
+            } else {
+                this.customRuleClasses.delete(filePath);
+            }
+
+            const extensions = Array.from(
+                content.matchAll(/Validator::extend(Implicit|Dependent)?\s*\(\s*['"]([\w.-]+)['"]/g),
+                match => ({
+                    name: match[2],
+                    description: `Custom rule registered with Validator::extend${match[1] || ''}() in ${path.basename(filePath)}`,
+                    examples: [match[2]],
+                    category: 'Custom'
+                })
+            );
+            if (extensions.length > 0) {
+                this.extensionRules.set(filePath, extensions);
+            } else {
+                this.extensionRules.delete(filePath);
+            }
+        } catch (error) {
+            console.error(`Error parsing custom rules in ${filePath}:`, error);
+        }
+    }
+
+    private parseCustomRuleClass(filePath: string, content: string): CustomRuleClass | undefined {
+        const classMatch = content.match(/^(?:final\s+|readonly\s+)*class\s+(\w+)/m);
+        if (!classMatch) return undefined;
+
+        // Rule contracts: ValidationRule::validate(), Rule::passes() or an invokable rule
+        if (!/function\s+(?:validate|passes|__invoke)\s*\(/.test(content)) return undefined;
+
+        const namespaceMatch = content.match(/^namespace\s+([\w\\]+)\s*;/m);
+        const classOffset = content.indexOf(classMatch[0]);
+
+        const parameters: string[] = [];
+        const constructor = /function\s+__construct\s*\(/.exec(content);
+        if (constructor) {
+            RouteCallParser.splitArguments(content, constructor.index + constructor[0].length - 1).arguments
+                .map(argument => argument.text.replace(/#\[[^\]]*\]/g, '').replace(/\b(?:public|protected|private|readonly)\s+/g, '').trim())
+                .filter(parameter => parameter.length > 0)
+                .forEach(parameter => parameters.push(parameter));
+        }
+
+        // Summary of the docblock right above the class
+        const docblock = content.substring(0, classOffset).match(/\/\*\*((?:(?!\*\/)[\s\S])*)\*\/\s*(?:#\[[^\]]*\]\s*)*$/);
+        const description = docblock
+            ? docblock[1].split('\n').map(line => line.replace(/^\s*\*\s?/, '').trim())
+                .filter(line => line && !line.startsWith('@')).join(' ')
+            : undefined;
+
+        const messageMatch = content.match(/\$fail\s*\(\s*(['"])((?:(?!\1).)*)\1/) ||
+            content.match(/function\s+message\s*\([^)]*\)[^{]*\{[^}]*?return\s+(['"])((?:(?!\1).)*)\1/);
+
+        return {
+            name: classMatch[1],
+            className: namespaceMatch ? `${namespaceMatch[1]}\\${classMatch[1]}` : classMatch[1],
+            filePath,
+            line: content.substring(0, classOffset).split('\n').length,
+            parameters,
+            description: description || undefined,
+            message: messageMatch ? messageMatch[2] : undefined
+        };
     }
 
     private analyzeDatabaseSchema() {
@@ -299,33 +336,215 @@ export class LaravelValidationCompletionProvider implements vscode.CompletionIte
     ): vscode.CompletionItem[] {
         const lineText = document.lineAt(position).text;
         const beforeCursor = lineText.substring(0, position.character);
+
+        const ruleObjectCompletions = this.provideRuleObjectCompletions(document, position, beforeCursor);
+        if (ruleObjectCompletions) {
+            return ruleObjectCompletions;
+        }
+
+        // Rule classes go between the strings of an array-style rule list
+        if (this.isInRuleArrayOutsideString(beforeCursor, document, position)) {
+            return this.provideCustomRuleCompletions(document, beforeCursor);
+        }
         
         // Check if we're in a validation rules context
-        if (this.isInValidationContext(beforeCursor, document, position)) {
+        if (this.isInValidationContext(document, position)) {
             return this.provideValidationRuleCompletions(beforeCursor, document, position);
         }
         
         return [];
     }
 
-    private isInValidationContext(beforeCursor: string, document: vscode.TextDocument, position: vscode.Position): boolean {
-        // Check various validation contexts
-        const validationPatterns = [
-            // 'field' => 'required|string|max:255'
-            /['"`][^'"`]*['"`]\s*=>\s*['"`][^'"`]*$/,
-            // 'field' => ['required', 'string', 'max:255']
-            /['"`][^'"`]*['"`]\s*=>\s*\[[^\]]*['"`][^'"`]*$/,
-            // Inside rules() method return array
-            /return\s*\[[\s\S]*['"`][^'"`]*['"`]\s*=>\s*['"`][^'"`]*$/,
-            // Validator::make rules
-            /Validator::make\s*\([^,]+,\s*\[[^\]]*['"`][^'"`]*['"`]\s*=>\s*['"`][^'"`]*$/,
-            // $this->validate rules
-            /\$this->validate\s*\([^,]+,\s*\[[^\]]*['"`][^'"`]*['"`]\s*=>\s*['"`][^'"`]*$/,
-            // Request rules in array format
-            /['"`]([^'"`]+)['"`]\s*=>\s*\[\s*['"`][^'"`]*$/
-        ];
+    private isInRuleArrayOutsideString(beforeCursor: string, document: vscode.TextDocument, position: vscode.Position): boolean {
+        const arrayMatch = beforeCursor.match(/=>\s*\[([^\]]*)$/);
+        if (!arrayMatch) return false;
+
+        const outsideStrings = arrayMatch[1].replace(/'[^']*'|"[^"]*"/g, '');
+        return !/['"]/.test(outsideStrings) && /(?:^|[\s,(\[])(?:new\s+)?\w*$/.test(outsideStrings) &&
+            !!ValidationRuleParser.findContextAt(document.getText(), document.offsetAt(position));
+    }
+
+    private provideCustomRuleCompletions(document: vscode.TextDocument, beforeCursor: string): vscode.CompletionItem[] {
+        const hasNew = /\bnew\s+\w*$/.test(beforeCursor);
+        const text = document.getText();
+
+        return this.getCustomRuleClasses().map(rule => {
+            const item = new vscode.CompletionItem(rule.name, vscode.CompletionItemKind.Class);
+            item.detail = `new ${rule.name}(${rule.parameters.join(', ')})`;
+            item.documentation = this.getCustomRuleDocumentation(rule);
+
+            // Placeholders for the parameters without a default value
+            const placeholders = rule.parameters.filter(parameter => !parameter.includes('=')).map((parameter, index) => {
+                const variable = parameter.match(/\$\w+/);
+                return `\${${index + 1}:${this.escapeSnippet(variable ? variable[0] : parameter)}}`;
+            });
+            const call = rule.parameters.length === 0 ? rule.name
+                : `${rule.name}(${placeholders.length > 0 ? placeholders.join(', ') : '$1'})`;
+            item.insertText = new vscode.SnippetString(hasNew ? call : `new ${call}`);
+            item.sortText = `0${rule.name}`;
+
+            // Import the class unless the file already does, or lives in the same namespace
+            const namespace = rule.className.substring(0, rule.className.lastIndexOf('\\'));
+            const fileNamespace = text.match(/^namespace\s+([\w\\]+)\s*;/m);
+            const imported = new RegExp(`^use\\s+${rule.className.replace(/\\/g, '\\\\')}\\s*;`, 'm').test(text);
+            if (namespace && !imported && (!fileNamespace || fileNamespace[1] !== namespace)) {
+                item.additionalTextEdits = [vscode.TextEdit.insert(this.getImportPosition(document), `use ${rule.className};\n`)];
+            }
+
+            return item;
+        });
+    }
+
+    // Below the last use statement, or below the namespace
+    private getImportPosition(document: vscode.TextDocument): vscode.Position {
+        let line = 1;
+        for (let i = 0; i < document.lineCount; i++) {
+            const lineText = document.lineAt(i).text;
+            if (/^use\s+[\w\\]+/.test(lineText) || /^namespace\s/.test(lineText)) {
+                line = i + 1;
+            } else if (/^(?:final\s+|abstract\s+|readonly\s+)*class\s/.test(lineText)) {
+                break;
+            }
+        }
+        return new vscode.Position(line, 0);
+    }
+
+    private escapeSnippet(value: string): string {
+        return value.replace(/[$}\\]/g, '\\$&');
+    }
+
+    public getCustomRuleDocumentation(rule: CustomRuleClass): vscode.MarkdownString {
+        const doc = new vscode.MarkdownString();
+
+        doc.appendMarkdown(`## ${rule.name}\n\n`);
+        doc.appendMarkdown(`**Category:** Custom\n\n`);
+        if (rule.description) {
+            doc.appendMarkdown(`${rule.description}\n\n`);
+        }
+        if (rule.message) {
+            doc.appendMarkdown(`**Message:** ${rule.message}\n\n`);
+        }
+        doc.appendCodeblock(`new ${rule.name}(${rule.parameters.join(', ')})`, 'php');
+        doc.appendMarkdown(`\n[${rule.className}](${vscode.Uri.file(rule.filePath).toString()}#L${rule.line})`);
+
+        return doc;
+    }
+
+    // Rule::, Password:: and File:: factories, the methods chained on them and their table arguments
+    private provideRuleObjectCompletions(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        beforeCursor: string
+    ): vscode.CompletionItem[] | undefined {
+        const text = document.getText();
+
+        const factoryMatch = beforeCursor.match(/(?<![\w$>])(\\?[\w\\]+)::(\w*)$/);
+        if (factoryMatch) {
+            const factory = ValidationRuleParser.getRuleObjectAliases(text).get(factoryMatch[1]);
+            return factory ? this.createRuleObjectCompletions(RULE_OBJECT_FACTORIES[factory], `${factory}::`) : undefined;
+        }
+
+        const chainMatch = beforeCursor.match(/->\s*(\w*)$/);
+        if (chainMatch) {
+            const expression = ValidationRuleParser.findChainBefore(text, document.offsetAt(position) - chainMatch[0].length);
+            const builder = expression ? this.resolveRuleObjectCalls(expression).builder : undefined;
+            return builder ? this.createRuleObjectCompletions(builder, '->') : undefined;
+        }
+
+        // Innermost rule object call around the cursor, Rule::when([...]) may nest others
+        const offset = document.offsetAt(position);
+        let enclosing: { expression: RuleObjectExpression; index: number } | undefined;
+        ValidationRuleParser.findRuleObjects(text).forEach(expression => {
+            expression.calls.forEach((call, index) => {
+                if (offset > call.openParen && offset <= call.end &&
+                    (!enclosing || call.openParen > enclosing.expression.calls[enclosing.index].openParen)) {
+                    enclosing = { expression, index };
+                }
+            });
+        });
+        if (!enclosing) {
+            return undefined;
+        }
+
+        const call = enclosing.expression.calls[enclosing.index];
+        const method = this.resolveRuleObjectCalls(enclosing.expression).methods[enclosing.index];
+        const argumentIndex = Math.max(call.arguments.filter(argument => argument.offset <= offset).length - 1, 0);
+        const parameter = method?.parameters?.[argumentIndex];
 
-        return validationPatterns.some(pattern => pattern.test(beforeCursor));
+        // Rule::when() and ->rules() take regular string rules
+        if (parameter && /rules/i.test(parameter.name)) {
+            return undefined;
+        }
+        if (!/['"]\w*$/.test(beforeCursor) || enclosing.expression.factory !== 'Rule' ||
+            (call.name !== 'unique' && call.name !== 'exists')) {
+            return [];
+        }
+
+        if (argumentIndex === 0) {
+            return Array.from(this.databaseTables.keys()).map(table =>
+                new vscode.CompletionItem(table, vscode.CompletionItemKind.Struct)
+            );
+        }
+        const table = this.databaseTables.get(ValidationRuleParser.getStringArgument(call.arguments[0])?.value || '');
+        return (table?.columns || []).map(column => new vscode.CompletionItem(column, vscode.CompletionItemKind.Field));
+    }
+
+    private createRuleObjectCompletions(methods: RuleObjectMethod[], prefix: string): vscode.CompletionItem[] {
+        return methods.filter(method => this.isRuleSupported(method)).map((method, index) => {
+            const item = new vscode.CompletionItem(method.name, vscode.CompletionItemKind.Method);
+            item.detail = `${prefix}${this.formatRuleObjectSignature(method)}`;
+            item.documentation = this.getRuleObjectDocumentation(method, `${prefix}${method.name}()`);
+
+            const placeholders = (method.parameters || []).filter(param => param.required).map((param, paramIndex) => {
+                const placeholder = `\${${paramIndex + 1}:${this.escapeSnippet(param.examples ? param.examples[0] : param.name)}}`;
+                return param.type === 'string' ? `'${placeholder}'` : placeholder;
+            });
+            item.insertText = new vscode.SnippetString(`${method.name}(${placeholders.join(', ')})`);
+            item.sortText = index.toString().padStart(2, '0');
+            return item;
+        });
+    }
+
+    private formatRuleObjectSignature(method: RuleObjectMethod): string {
+        const params = (method.parameters || []).map(param => `${param.name}${param.required ? '' : '?'}`);
+        return `${method.name}(${params.join(', ')})`;
+    }
+
+    public getRuleObjectDocumentation(method: RuleObjectMethod, label: string): vscode.MarkdownString {
+        const doc = new vscode.MarkdownString();
+
+        doc.appendMarkdown(`## ${label}\n\n`);
+        doc.appendMarkdown(`${method.description}\n\n`);
+        if (method.since) {
+            doc.appendMarkdown(`**Since:** Laravel ${method.since}\n\n`);
+        }
+
+        if (method.parameters && method.parameters.length > 0) {
+            doc.appendMarkdown(`**Parameters:**\n`);
+            method.parameters.forEach(param => {
+                const required = param.required ? '**required**' : '*optional*';
+                doc.appendMarkdown(`- \`${param.name}\` (${param.type}) - ${required}: ${param.description}\n`);
+            });
+            doc.appendMarkdown(`\n`);
+        }
+
+        doc.appendMarkdown(`**Examples:**\n`);
+        method.examples.forEach(example => doc.appendMarkdown(`- \`${example}\`\n`));
+
+        if (method.builder) {
+            const chained = (RULE_OBJECT_BUILDERS[method.builder] || [])
+                .filter(builderMethod => this.isRuleSupported(builderMethod))
+                .map(builderMethod => `\`${builderMethod.name}()\``);
+            doc.appendMarkdown(`\n**Chainable:** ${chained.join(', ')}\n`);
+        }
+
+        return doc;
+    }
+
+    // Rules arrays of rules(), validate(), Validator::make(), Livewire components and the like,
+    // see ValidationRuleParser.findValidationContexts()
+    private isInValidationContext(document: vscode.TextDocument, position: vscode.Position): boolean {
+        return ValidationRuleParser.isInRuleString(document.getText(), document.offsetAt(position));
     }
 
     private provideValidationRuleCompletions(
@@ -335,15 +554,17 @@ export class LaravelValidationCompletionProvider implements vscode.CompletionIte
     ): vscode.CompletionItem[] {
         const completions: vscode.CompletionItem[] = [];
         
-        // Determine if we're in a pipe-separated string or array context
-        const isArrayContext = beforeCursor.includes('[') && !beforeCursor.includes(']');
-        const currentRules = this.extractCurrentRules(beforeCursor, isArrayContext);
+        // Determine if we're in a pipe-separated string or array context,
+        // the bracket of a #[Validate(...)] attribute does not open a rule list
+        const listText = beforeCursor.replace(/#\[/g, '');
+        const isArrayContext = listText.includes('[') && !listText.includes(']');
+        const currentRules = this.extractCurrentRules(listText, isArrayContext);
         
         // Get current field name for context-aware suggestions
         const fieldName = this.extractFieldName(beforeCursor);
         
         // Filter rules based on what's already applied
-        const availableRules = this.validationRules.filter(rule => 
+        const availableRules = this.getValidationRules().filter(rule => 
             !currentRules.includes(rule.name) && this.isRuleApplicable(rule, currentRules, fieldName)
         );
         
@@ -437,6 +658,9 @@ export class LaravelValidationCompletionProvider implements vscode.CompletionIte
         doc.appendMarkdown(`## ${rule.name}\n\n`);
         doc.appendMarkdown(`**Category:** ${rule.category}\n\n`);
         doc.appendMarkdown(`**Description:** ${rule.description}\n\n`);
+        if (rule.since) {
+            doc.appendMarkdown(`**Since:** Laravel ${rule.since}\n\n`);
+        }
         
         if (rule.parameters && rule.parameters.length > 0) {
             doc.appendMarkdown(`**Parameters:**\n`);
@@ -541,11 +765,58 @@ export class LaravelValidationCompletionProvider implements vscode.CompletionIte
 
     // Public methods for external access
     public getValidationRules(): ValidationRule[] {
-        return this.validationRules;
+        const extensions = Array.from(this.extensionRules.values()).flat();
+        return extensions.length > 0 ? [...this.validationRules, ...extensions] : this.validationRules;
     }
 
     public getValidationRule(name: string): ValidationRule | undefined {
-        return this.validationRules.find(rule => rule.name === name);
+        return this.getValidationRules().find(rule => rule.name === name);
+    }
+
+    public getCustomRuleClasses(): CustomRuleClass[] {
+        return Array.from(this.customRuleClasses.values()).flat()
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    public getCustomRuleClass(name: string): CustomRuleClass | undefined {
+        return this.getCustomRuleClasses().find(rule => rule.name === name);
+    }
+
+    // Built-in rule that exists in Laravel, but not in the project's version
+    public getUnsupportedRule(name: string): ValidationRule | undefined {
+        return VALIDATION_RULE_CATALOG.find(rule => rule.name === name && !this.isRuleSupported(rule));
+    }
+
+    // Catalog entry of every call in a rule object chain, undefined for unknown methods,
+    // and the fluent methods that can follow the last call
+    public resolveRuleObjectCalls(expression: RuleObjectExpression): {
+        methods: Array<RuleObjectMethod | undefined>;
+        builder?: RuleObjectMethod[];
+    } {
+        const methods: Array<RuleObjectMethod | undefined> = [];
+        let candidates: RuleObjectMethod[] | undefined = RULE_OBJECT_FACTORIES[expression.factory];
+
+        expression.calls.forEach((call, index) => {
+            const method = candidates?.find(candidate => candidate.name === call.name);
+            methods.push(method);
+
+            // Fluent methods return the same object unless they name another builder
+            if (method?.builder) {
+                candidates = RULE_OBJECT_BUILDERS[method.builder];
+            } else if (!method || index === 0) {
+                candidates = undefined;
+            }
+        });
+
+        return { methods, builder: candidates };
+    }
+
+    public hasEnum(name: string): boolean {
+        return Array.from(this.enumDeclarations.values()).some(names => names.includes(name));
+    }
+
+    public getLaravelVersion(): string | null {
+        return this.laravelVersion;
     }
 
     public getDatabaseTables(): Map<string, DatabaseTable> {
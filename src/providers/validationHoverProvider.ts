@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
 import { LaravelValidationCompletionProvider, ValidationRule } from './validationCompletionProvider';
+import { ValidationRuleParser, RuleObjectExpression, RuleItem, RuleArray, ValidationContext } from '../parsers/validationRuleParser';
+import { ValidationRuleAnalyzer } from './validationRuleAnalyzer';
 
 export class ValidationHoverProvider implements vscode.HoverProvider {
     constructor(private validationProvider: LaravelValidationCompletionProvider) {}
@@ -9,33 +11,69 @@ export class ValidationHoverProvider implements vscode.HoverProvider {
         position: vscode.Position,
         token: vscode.CancellationToken
     ): vscode.Hover | undefined {
-        const range = document.getWordRangeAtPosition(position, /[a-zA-Z_][a-zA-Z0-9_:]*/);
-        if (!range) return undefined;
+        const ruleObjectHover = this.provideRuleObjectHover(document, position);
+        if (ruleObjectHover) {
+            return ruleObjectHover;
+        }
+
+        const customRuleHover = this.provideCustomRuleHover(document, position);
+        if (customRuleHover) {
+            return customRuleHover;
+        }
 
-        const text = document.getText(range);
-        const line = document.lineAt(position).text;
-        
         // Check if we're hovering over a validation rule
-        if (this.isValidationRule(text, line)) {
-            const rule = this.validationProvider.getValidationRule(text.split(':')[0]);
+        const ruleItem = this.findRuleAt(document, position);
+        if (ruleItem) {
+            const rule = this.validationProvider.getValidationRule(ruleItem.name) || this.validationProvider.getUnsupportedRule(ruleItem.name);
             if (rule) {
-                return new vscode.Hover(this.createRuleHoverContent(rule, text), range);
+                const start = document.positionAt(ruleItem.offset);
+                const range = new vscode.Range(start, document.positionAt(ruleItem.offset + ruleItem.length));
+                return new vscode.Hover(this.createRuleHoverContent(rule, document.getText(range).trim()), range);
             }
         }
 
         return undefined;
     }
 
-    private isValidationRule(text: string, line: string): boolean {
-        // Check if we're in a validation context
-        const validationPatterns = [
-            /['"`][^'"`]*['"`]\s*=>\s*['"`][^'"`]*$/,
-            /['"`][^'"`]*['"`]\s*=>\s*\[[^\]]*$/,
-            /'[^']*'\s*,?\s*$/,
-            /"[^"]*"\s*,?\s*$/
-        ];
+    // String rules written in a validation context, field names and messages are left alone
+    private findRuleAt(document: vscode.TextDocument, position: vscode.Position): RuleItem | undefined {
+        const text = document.getText();
+        const offset = document.offsetAt(position);
+        const context = ValidationRuleParser.findContextAt(text, offset);
+        if (!context) return undefined;
 
-        return validationPatterns.some(pattern => pattern.test(line));
+        return ValidationRuleParser.getContextRules(text, context).find(rule =>
+            !rule.object && offset >= rule.offset && offset <= rule.offset + rule.length
+        );
+    }
+
+    // Rule::unique(), Password::min() and the fluent methods chained on them
+    private provideRuleObjectHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const found = ValidationRuleParser.findCallAt(document.getText(), document.offsetAt(position));
+        if (!found) return undefined;
+
+        const method = this.validationProvider.resolveRuleObjectCalls(found.expression).methods[found.index];
+        if (!method) return undefined;
+
+        const call = found.expression.calls[found.index];
+        const label = found.index === 0 ? `${found.expression.factory}::${call.name}()` : `->${call.name}()`;
+        const start = document.positionAt(call.nameOffset);
+        return new vscode.Hover(
+            this.validationProvider.getRuleObjectDocumentation(method, label),
+            new vscode.Range(start, start.translate(0, call.name.length))
+        );
+    }
+
+    // `new ValidIban($country)` with a rule class from app/Rules
+    private provideCustomRuleHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const range = document.getWordRangeAtPosition(position, /\w+/);
+        if (!range) return undefined;
+
+        const before = document.lineAt(position.line).text.substring(0, range.start.character);
+        if (!/\bnew\s+(?:\\?[\w\\]+\\)?$/.test(before)) return undefined;
+
+        const rule = this.validationProvider.getCustomRuleClass(document.getText(range));
+        return rule ? new vscode.Hover(this.validationProvider.getCustomRuleDocumentation(rule), range) : undefined;
     }
 
     private createRuleHoverContent(rule: ValidationRule, fullText: string): vscode.MarkdownString {
@@ -44,6 +82,9 @@ export class ValidationHoverProvider implements vscode.HoverProvider {
         content.appendMarkdown(`## ${rule.name}\n\n`);
         content.appendMarkdown(`**Category:** ${rule.category}\n\n`);
         content.appendMarkdown(`${rule.description}\n\n`);
+        if (rule.since || rule.removedIn) {
+            content.appendMarkdown(`**Laravel:** ${this.formatAvailability(rule)}\n\n`);
+        }
         
         // Parse parameters from the actual rule text
         const params = this.extractRuleParameters(fullText);
@@ -71,6 +112,17 @@ export class ValidationHoverProvider implements vscode.HoverProvider {
         return content;
     }
 
+    private formatAvailability(rule: ValidationRule): string {
+        const availability = [
+            rule.since ? `since ${rule.since}` : '',
+            rule.removedIn ? `removed in ${rule.removedIn}` : ''
+        ].filter(part => part).join(', ');
+
+        return this.validationProvider.getUnsupportedRule(rule.name)
+            ? `${availability} — not available in ${this.validationProvider.getLaravelVersion()}`
+            : availability;
+    }
+
     private extractRuleParameters(ruleText: string): string[] {
         const colonIndex = ruleText.indexOf(':');
         if (colonIndex === -1) return [];
@@ -83,6 +135,8 @@ export class ValidationHoverProvider implements vscode.HoverProvider {
 // Validation diagnostics provider
 export class ValidationDiagnosticsProvider {
     private diagnosticCollection: vscode.DiagnosticCollection;
+    // Pending updates per document, every PHP file is parsed so typing is debounced
+    private pendingUpdates = new Map<string, NodeJS.Timeout>();
 
     constructor(private validationProvider: LaravelValidationCompletionProvider) {
         this.diagnosticCollection = vscode.languages.createDiagnosticCollection('laravel-validation');
@@ -92,7 +146,7 @@ export class ValidationDiagnosticsProvider {
     private setupEventListeners() {
         vscode.workspace.onDidChangeTextDocument(e => {
             if (this.isValidationFile(e.document)) {
-                this.updateDiagnostics(e.document);
+                this.scheduleUpdate(e.document);
             }
         });
 
@@ -109,75 +163,180 @@ export class ValidationDiagnosticsProvider {
         });
     }
 
+    private scheduleUpdate(document: vscode.TextDocument) {
+        const key = document.uri.toString();
+        clearTimeout(this.pendingUpdates.get(key));
+        this.pendingUpdates.set(key, setTimeout(() => {
+            this.pendingUpdates.delete(key);
+            this.updateDiagnostics(document);
+        }, 300));
+    }
+
+    // Any PHP class can validate, the contexts found in the text decide what gets checked
     private isValidationFile(document: vscode.TextDocument): boolean {
-        return document.fileName.endsWith('.php') && 
-               (document.fileName.includes('Request') || 
-                document.getText().includes('rules()') ||
-                document.getText().includes('Validator::make'));
+        return document.fileName.endsWith('.php') && !document.fileName.endsWith('.blade.php');
     }
 
     private updateDiagnostics(document: vscode.TextDocument): void {
         const diagnostics: vscode.Diagnostic[] = [];
         const text = document.getText();
-        const lines = text.split('\n');
+        const ruleObjects = ValidationRuleParser.findRuleObjects(text);
+        const ruleArrays = ValidationRuleParser.findRuleArrays(text);
+        const contexts = ValidationRuleParser.findValidationContexts(text, ruleArrays);
+        const contextRuleObjects = ruleObjects.filter(expression =>
+            contexts.some(context => expression.start > context.start && expression.start < context.end)
+        );
 
-        lines.forEach((line, lineIndex) => {
-            const validationRules = this.extractValidationRulesFromLine(line);
-            
-            validationRules.forEach(({ rule, range }) => {
-                const issues = this.validateRule(rule, document, lineIndex);
-                issues.forEach(issue => {
-                    const diagnostic = new vscode.Diagnostic(
-                        new vscode.Range(lineIndex, range.start, lineIndex, range.end),
-                        issue.message,
-                        issue.severity
-                    );
-                    diagnostic.source = 'Laravel Validation';
-                    diagnostic.code = issue.code;
-                    diagnostics.push(diagnostic);
-                });
+        const rules = contexts
+            .flatMap(context => ValidationRuleParser.getContextRules(text, context))
+            .concat(this.getRuleObjectRuleLists(text, contextRuleObjects))
+            .filter(rule => !rule.object);
+
+        rules.forEach(rule => {
+            const start = document.positionAt(rule.offset);
+            const issues = this.validateRule(text.substr(rule.offset, rule.length).trim(), document, start.line);
+            issues.forEach(issue => {
+                const diagnostic = new vscode.Diagnostic(
+                    new vscode.Range(start, document.positionAt(rule.offset + rule.length)),
+                    issue.message,
+                    issue.severity
+                );
+                diagnostic.source = 'Laravel Validation';
+                diagnostic.code = issue.code;
+                diagnostics.push(diagnostic);
             });
         });
 
+        ruleObjects.forEach(expression => diagnostics.push(...this.validateRuleObject(expression, document)));
+        diagnostics.push(...this.findRuleConflicts(document, ruleArrays, contexts));
+
         this.diagnosticCollection.set(document.uri, diagnostics);
     }
 
-    private extractValidationRulesFromLine(line: string): Array<{rule: string, range: {start: number, end: number}}> {
-        const rules: Array<{rule: string, range: {start: number, end: number}}> = [];
-        
-        // Pattern for pipe-separated rules: 'required|string|max:255'
-        const pipeRuleMatch = line.match(/['"`]([^'"`]+)['"`]/);
-        if (pipeRuleMatch && pipeRuleMatch[1].includes('|')) {
-            const rulesString = pipeRuleMatch[1];
-            const rulesList = rulesString.split('|');
-            let currentPos = line.indexOf(rulesString);
-            
-            rulesList.forEach(rule => {
-                const start = currentPos;
-                const end = currentPos + rule.length;
-                rules.push({ rule: rule.trim(), range: { start, end } });
-                currentPos += rule.length + 1; // +1 for the pipe
+    // Semantic pass over the combined rules of each field
+    private findRuleConflicts(document: vscode.TextDocument, ruleArrays: RuleArray[], contexts: ValidationContext[]): vscode.Diagnostic[] {
+        const isKnownRule = (name: string) =>
+            !!this.validationProvider.getValidationRule(name) || !!this.validationProvider.getUnsupportedRule(name);
+
+        return ValidationRuleAnalyzer.analyze(document.getText(), isKnownRule, ruleArrays, contexts).map(issue => {
+            const range = new vscode.Range(document.positionAt(issue.offset), document.positionAt(issue.offset + issue.length));
+            const diagnostic = new vscode.Diagnostic(range, issue.message, issue.severity);
+            diagnostic.source = 'Laravel Validation';
+            diagnostic.code = issue.code;
+            if (issue.unnecessary) {
+                diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+            }
+            return diagnostic;
+        });
+    }
+
+    // Arguments of rule objects hold table names, values or closures rather than string rules,
+    // except the rule lists passed to Rule::when() or ->rules()
+    private getRuleObjectRuleLists(text: string, ruleObjects: RuleObjectExpression[]): RuleItem[] {
+        const rules: RuleItem[] = [];
+
+        ruleObjects.forEach(expression => {
+            const { methods } = this.validationProvider.resolveRuleObjectCalls(expression);
+            expression.calls.forEach((call, index) => {
+                call.arguments.forEach((argument, argumentIndex) => {
+                    const parameter = methods[index]?.parameters?.[argumentIndex];
+                    if (parameter && /rules/i.test(parameter.name)) {
+                        rules.push(...ValidationRuleParser.parseRules(text, argument.offset + argument.text.search(/\S|$/)));
+                    }
+                });
             });
+        });
+
+        return rules;
+    }
+
+    private validateRuleObject(expression: RuleObjectExpression, document: vscode.TextDocument): vscode.Diagnostic[] {
+        const diagnostics: vscode.Diagnostic[] = [];
+        const addDiagnostic = (offset: number, length: number, message: string, severity: vscode.DiagnosticSeverity, code: string) => {
+            const range = new vscode.Range(document.positionAt(offset), document.positionAt(offset + length));
+            const diagnostic = new vscode.Diagnostic(range, message, severity);
+            diagnostic.source = 'Laravel Validation';
+            diagnostic.code = code;
+            diagnostics.push(diagnostic);
+        };
+
+        const { methods } = this.validationProvider.resolveRuleObjectCalls(expression);
+        const factoryCall = expression.calls[0];
+
+        for (let index = 0; index < expression.calls.length; index++) {
+            const call = expression.calls[index];
+            const method = methods[index];
+            const label = index === 0 ? `${expression.factory}::${call.name}()` : `->${call.name}()`;
+
+            if (!method) {
+                // Chained methods may come from macros registered on the rule class
+                if (index === 0) {
+                    addDiagnostic(call.nameOffset, call.name.length, `Unknown rule method ${expression.factory}::${call.name}()`,
+                        vscode.DiagnosticSeverity.Error, 'unknown-rule-method');
+                } else {
+                    addDiagnostic(call.nameOffset, call.name.length,
+                        `Method '${call.name}' is not known on ${expression.factory}::${factoryCall.name}(), unless it is a macro`,
+                        vscode.DiagnosticSeverity.Warning, 'unknown-rule-method');
+                }
+                // The calls after an unknown method cannot be resolved
+                break;
+            }
+
+            if (!this.validationProvider.isRuleSupported(method)) {
+                addDiagnostic(
+                    call.nameOffset,
+                    call.name.length,
+                    `${label} requires Laravel ${method.since} or later (project requires ${this.validationProvider.getLaravelVersion()})`,
+                    vscode.DiagnosticSeverity.Error,
+                    'unsupported-rule'
+                );
+            }
+
+            const expectedArguments = (method.parameters || []).filter(param => param.required).length;
+            if (call.closed && call.arguments.length < expectedArguments) {
+                addDiagnostic(
+                    call.nameOffset,
+                    call.name.length,
+                    `${label} requires ${expectedArguments} argument(s), got ${call.arguments.length}`,
+                    vscode.DiagnosticSeverity.Error,
+                    'missing-arguments'
+                );
+            }
         }
-        
-        // Pattern for array rules: ['required', 'string', 'max:255']
-        const arrayMatches = line.matchAll(/['"`]([^'"`]+)['"`]/g);
-        for (const match of arrayMatches) {
-            const rule = match[1];
-            if (this.isValidationRule(rule)) {
-                const start = match.index || 0;
-                const end = start + match[0].length;
-                rules.push({ rule, range: { start, end } });
+
+        if (expression.factory !== 'Rule') {
+            return diagnostics;
+        }
+
+        if (factoryCall.name === 'unique' || factoryCall.name === 'exists') {
+            // 'connection.table' names the connection first
+            const table = ValidationRuleParser.getStringArgument(factoryCall.arguments[0]);
+            const tableName = table?.value.split('.').pop();
+            if (table && tableName && !this.validationProvider.getDatabaseTables().has(tableName)) {
+                addDiagnostic(
+                    table.offset,
+                    table.value.length,
+                    `Table '${tableName}' not found in database schema`,
+                    vscode.DiagnosticSeverity.Warning,
+                    'table-not-found'
+                );
+            }
+        }
+
+        if (factoryCall.name === 'enum') {
+            const enumClass = ValidationRuleParser.getClassArgument(factoryCall.arguments[0]);
+            if (enumClass && !this.validationProvider.hasEnum(enumClass.name)) {
+                addDiagnostic(
+                    enumClass.offset,
+                    factoryCall.arguments[0].text.trim().length,
+                    `Enum '${enumClass.name}' not found in the app directory`,
+                    vscode.DiagnosticSeverity.Warning,
+                    'enum-not-found'
+                );
             }
         }
-        
-        return rules;
-    }
 
-    private isValidationRule(rule: string): boolean {
-        const knownRules = this.validationProvider.getValidationRules().map(r => r.name);
-        const ruleName = rule.split(':')[0];
-        return knownRules.includes(ruleName);
+        return diagnostics;
     }
 
     private validateRule(rule: string, document: vscode.TextDocument, lineIndex: number): Array<{
@@ -189,6 +348,18 @@ export class ValidationDiagnosticsProvider {
         const [ruleName, ...params] = rule.split(':');
         
         const ruleDefinition = this.validationProvider.getValidationRule(ruleName);
+        const unsupportedRule = this.validationProvider.getUnsupportedRule(ruleName);
+        if (!ruleDefinition && unsupportedRule) {
+            const availability = unsupportedRule.removedIn
+                ? `was removed in Laravel ${unsupportedRule.removedIn}`
+                : `requires Laravel ${unsupportedRule.since} or later`;
+            issues.push({
+                message: `Rule '${ruleName}' ${availability} (project requires ${this.validationProvider.getLaravelVersion()})`,
+                severity: vscode.DiagnosticSeverity.Error,
+                code: 'unsupported-rule'
+            });
+            return issues;
+        }
         if (!ruleDefinition) {
             issues.push({
                 message: `Unknown validation rule: ${ruleName}`,
@@ -231,6 +402,7 @@ export class ValidationDiagnosticsProvider {
     }
 
     public dispose() {
+        this.pendingUpdates.forEach(timeout => clearTimeout(timeout));
         this.diagnosticCollection.dispose();
     }
 }
@@ -259,13 +431,20 @@ export class ValidationCodeActionProvider implements vscode.CodeActionProvider {
                     case 'table-not-found':
                         actions.push(...this.createTableNotFoundActions(document, diagnostic));
                         break;
+                    case 'conflicting-rules':
+                    case 'redundant-rule':
+                    case 'invalid-rule-range':
+                    case 'missing-confirmation-field':
+                    case 'missing-parent-array':
+                        actions.push(...this.createRuleConflictActions(document, diagnostic));
+                        break;
                 }
             }
         });
 
-        // Add general validation improvement actions
+        // Add general validation improvement actions on the fields of a rules array
         const lineText = document.lineAt(range.start.line).text;
-        if (this.isValidationContext(lineText)) {
+        if (lineText.includes('=>') && ValidationRuleParser.findContextAt(document.getText(), document.offsetAt(range.start))) {
             actions.push(...this.createValidationImprovementActions(document, range));
         }
 
@@ -334,8 +513,11 @@ export class ValidationCodeActionProvider implements vscode.CodeActionProvider {
             );
             
             action.edit = new vscode.WorkspaceEdit();
+            // String rules cover the whole rule, Rule::exists() diagnostics only the table name
             const currentText = document.getText(diagnostic.range);
-            const newText = currentText.replace(/exists:[^,)]+/, `exists:${tableName}`);
+            const newText = /(?:exists|unique):/.test(currentText)
+                ? currentText.replace(/(exists|unique):[^,)'"|]+/, `$1:${tableName}`)
+                : tableName;
             action.edit.replace(document.uri, diagnostic.range, newText);
             
             actions.push(action);
@@ -344,6 +526,28 @@ export class ValidationCodeActionProvider implements vscode.CodeActionProvider {
         return actions;
     }
 
+    private createRuleConflictActions(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction[] {
+        const isKnownRule = (name: string) =>
+            !!this.validationProvider.getValidationRule(name) || !!this.validationProvider.getUnsupportedRule(name);
+        const offset = document.offsetAt(diagnostic.range.start);
+        const issue = ValidationRuleAnalyzer.analyze(document.getText(), isKnownRule)
+            .find(candidate => candidate.offset === offset && candidate.code === diagnostic.code && candidate.message === diagnostic.message);
+        if (!issue) return [];
+
+        return issue.fixes.map((fix, index) => {
+            const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+            action.diagnostics = [diagnostic];
+            action.isPreferred = index === 0;
+            action.edit = new vscode.WorkspaceEdit();
+            fix.edits.forEach(edit => action.edit!.replace(
+                document.uri,
+                new vscode.Range(document.positionAt(edit.offset), document.positionAt(edit.offset + edit.length)),
+                edit.text
+            ));
+            return action;
+        });
+    }
+
     private createValidationImprovementActions(document: vscode.TextDocument, range: vscode.Range): vscode.CodeAction[] {
         const actions: vscode.CodeAction[] = [];
         
@@ -410,12 +614,6 @@ export class ValidationCodeActionProvider implements vscode.CodeActionProvider {
         
         return matrix[b.length][a.length];
     }
-
-    private isValidationContext(lineText: string): boolean {
-        return lineText.includes('=>') && 
-               (lineText.includes("'") || lineText.includes('"')) &&
-               (lineText.includes('required') || lineText.includes('string') || lineText.includes('|'));
-    }
 }
 
 // Validation commands
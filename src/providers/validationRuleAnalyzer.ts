@@ -0,0 +1,417 @@
+import * as vscode from 'vscode';
+import { ValidationRuleParser, RuleArray, RuleField, RuleItem, ValidationContext } from '../parsers/validationRuleParser';
+
+// Type rules that no single value passes together. Form input arrives as strings, so 'numeric',
+// 'decimal' and 'boolean' still accept strings such as '42' or '1'
+const TYPE_CONFLICTS: Array<[string[], string[]]> = [
+    [['string'], ['integer']],
+    [['array', 'list'], ['string', 'integer', 'numeric', 'decimal', 'boolean']],
+    [['file', 'image'], ['string', 'integer', 'numeric', 'decimal', 'boolean', 'array', 'list']]
+];
+
+// Rule pairs that can never pass together, the second rule is reported
+const CONTRADICTIONS: Array<[string, string]> = [
+    ['required', 'prohibited'],
+    ['required', 'missing'],
+    ['present', 'missing'],
+    ['accepted', 'declined']
+];
+
+// Extensions accepted by the image rule
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif', 'bmp', 'svg', 'webp'];
+
+export interface RuleIssue {
+    offset: number;
+    length: number;
+    message: string;
+    severity: vscode.DiagnosticSeverity;
+    code: string;
+    // Redundant rules are faded out rather than underlined
+    unnecessary?: boolean;
+    fixes: RuleFix[];
+}
+
+export interface RuleFix {
+    title: string;
+    edits: Array<{ offset: number; length: number; text: string }>;
+}
+
+export class ValidationRuleAnalyzer {
+    /**
+     * Contradictory and redundant rule combinations of every field in the validation contexts of the text.
+     * Arrays holding a value unknown to `isKnownRule` are skipped, they are most likely data arrays.
+     * Callers that already parsed the text pass its rule arrays and contexts.
+     */
+    static analyze(
+        text: string,
+        isKnownRule: (name: string) => boolean,
+        ruleArrays: RuleArray[] = ValidationRuleParser.findRuleArrays(text),
+        contexts: ValidationContext[] = ValidationRuleParser.findValidationContexts(text, ruleArrays)
+    ): RuleIssue[] {
+        const issues: RuleIssue[] = [];
+
+        ruleArrays
+            .filter(array => contexts.some(context => context.start <= array.open && context.end >= array.close))
+            .filter(array => array.fields.every(field => field.rules.every(rule => isKnownRule(rule.name))))
+            .forEach(array => {
+                array.fields.forEach(field => issues.push(...this.analyzeField(text, array, field)));
+                issues.push(...this.findMissingParentArrays(text, array));
+            });
+
+        return issues;
+    }
+
+    private static analyzeField(text: string, array: RuleArray, field: RuleField): RuleIssue[] {
+        const issues: RuleIssue[] = [];
+        const find = (name: string) => field.rules.find(rule => rule.name === name);
+
+        issues.push(...this.findDuplicates(field));
+        issues.push(...this.findPresenceConflicts(field, find));
+        issues.push(...this.findTypeConflicts(field));
+        issues.push(...this.findSizeConflicts(find));
+        issues.push(...this.findImageConflicts(find));
+        issues.push(...this.findRedundantFormatRules(find));
+
+        const confirmed = find('confirmed');
+        if (confirmed && !array.dynamic) {
+            const issue = this.checkConfirmation(text, array, field, confirmed);
+            if (issue) issues.push(issue);
+        }
+
+        return issues;
+    }
+
+    private static findDuplicates(field: RuleField): RuleIssue[] {
+        return field.rules
+            .filter((rule, index) => rule.parameters.length === 0 &&
+                field.rules.findIndex(other => other.name === rule.name && other.parameters.length === 0) < index)
+            .map(rule => this.redundant(rule, `'${rule.name}' is listed more than once`));
+    }
+
+    private static findPresenceConflicts(field: RuleField, find: (name: string) => RuleItem | undefined): RuleIssue[] {
+        const issues: RuleIssue[] = [];
+
+        // Implicit rules still run on null, so nullable cannot make null pass
+        const nullable = find('nullable');
+        const required = find('required');
+        if (nullable && required) {
+            issues.push({
+                ...this.location(nullable),
+                message: `'nullable' has no effect next to 'required', which rejects null. Use 'present' to require the key but allow null`,
+                severity: vscode.DiagnosticSeverity.Warning,
+                code: 'conflicting-rules',
+                unnecessary: true,
+                fixes: [
+                    this.removal(nullable),
+                    { title: `Replace 'required' with 'present'`, edits: [{ ...this.location(required), text: 'present' }] }
+                ]
+            });
+        }
+
+        // sometimes skips missing fields, which is exactly what present checks for
+        const sometimes = find('sometimes');
+        if (sometimes && find('present')) {
+            issues.push(this.conflict(
+                sometimes,
+                find('present')!,
+                `'sometimes' skips the field when it is missing, so 'present' can never fail`,
+                vscode.DiagnosticSeverity.Warning
+            ));
+        }
+
+        CONTRADICTIONS.forEach(([first, second]) => {
+            const a = find(first);
+            const b = find(second);
+            if (a && b) {
+                issues.push(this.conflict(b, a, `'${second}' contradicts '${first}', no value can pass both`, vscode.DiagnosticSeverity.Error));
+            }
+        });
+
+        return issues;
+    }
+
+    private static findTypeConflicts(field: RuleField): RuleIssue[] {
+        const issues: RuleIssue[] = [];
+        const conflicts = (a: string, b: string) => TYPE_CONFLICTS.some(([first, second]) =>
+            (first.includes(a) && second.includes(b)) || (first.includes(b) && second.includes(a))
+        );
+
+        field.rules.forEach((rule, index) => {
+            const earlier = field.rules.slice(0, index);
+            const other = earlier.find(candidate => conflicts(rule.name, candidate.name));
+            const implying = earlier.find(candidate => ['integer', 'decimal'].includes(candidate.name));
+
+            if (other) {
+                issues.push(this.conflict(
+                    rule,
+                    other,
+                    `'${rule.name}' conflicts with '${other.name}': the field cannot be both types`,
+                    vscode.DiagnosticSeverity.Warning
+                ));
+            } else if (rule.name === 'numeric' && implying) {
+                issues.push(this.redundant(rule, `'numeric' is implied by '${implying.name}'`));
+            } else if (['integer', 'decimal'].includes(rule.name)) {
+                const numeric = earlier.find(candidate => candidate.name === 'numeric');
+                if (numeric) {
+                    issues.push(this.redundant(numeric, `'numeric' is implied by '${rule.name}'`));
+                }
+            }
+        });
+
+        return issues;
+    }
+
+    private static findSizeConflicts(find: (name: string) => RuleItem | undefined): RuleIssue[] {
+        const issues: RuleIssue[] = [];
+        const number = (rule: RuleItem | undefined, index = 0) => {
+            const value = rule?.parameters[index];
+            return value !== undefined && /^\s*-?\d+(\.\d+)?\s*$/.test(value) ? parseFloat(value) : undefined;
+        };
+
+        const min = find('min');
+        const max = find('max');
+        const minValue = number(min);
+        const maxValue = number(max);
+        if (min && max && minValue !== undefined && maxValue !== undefined && minValue > maxValue) {
+            issues.push({
+                ...this.location(min),
+                message: `'min:${minValue}' is greater than 'max:${maxValue}', no value can pass`,
+                severity: vscode.DiagnosticSeverity.Error,
+                code: 'invalid-rule-range',
+                fixes: [{
+                    title: 'Swap the min and max values',
+                    edits: [this.replaceParameters(min, [String(maxValue)]), this.replaceParameters(max, [String(minValue)])]
+                }]
+            });
+        }
+
+        ['between', 'digits_between'].forEach(name => {
+            const between = find(name);
+            const low = number(between, 0);
+            const high = number(between, 1);
+            if (between && low !== undefined && high !== undefined && low > high) {
+                issues.push({
+                    ...this.location(between),
+                    message: `'${between.name}:${low},${high}' has its lower bound above its upper bound`,
+                    severity: vscode.DiagnosticSeverity.Error,
+                    code: 'invalid-rule-range',
+                    fixes: [{ title: 'Swap the bounds', edits: [this.replaceParameters(between, [String(high), String(low)])] }]
+                });
+            }
+        });
+
+        // An exact size makes range rules redundant, or impossible when it falls outside them
+        const size = find('size');
+        const sizeValue = number(size);
+        if (size && sizeValue !== undefined) {
+            const between = find('between');
+            const ranges: Array<[RuleItem | undefined, number | undefined, number | undefined]> = [
+                [between, number(between, 0), number(between, 1)],
+                [min, minValue, undefined],
+                [max, undefined, maxValue]
+            ];
+
+            ranges.forEach(([rule, low, high]) => {
+                if (!rule || (low === undefined && high === undefined)) return;
+
+                const outside = (low !== undefined && sizeValue < low) || (high !== undefined && sizeValue > high);
+                issues.push(outside
+                    ? this.conflict(
+                        rule,
+                        size,
+                        `'size:${sizeValue}' is outside '${rule.name}:${rule.parameters.join(',')}', no value can pass`,
+                        vscode.DiagnosticSeverity.Error
+                    )
+                    : this.redundant(rule, `'${rule.name}' is redundant next to 'size:${sizeValue}'`));
+            });
+        }
+
+        return issues;
+    }
+
+    private static findImageConflicts(find: (name: string) => RuleItem | undefined): RuleIssue[] {
+        const issues: RuleIssue[] = [];
+        if (!find('image')) return issues;
+
+        const isImageType = (name: string, value: string) => name === 'mimetypes'
+            ? /^image\//.test(value.trim())
+            : IMAGE_EXTENSIONS.includes(value.trim().toLowerCase());
+
+        ['mimes', 'mimetypes', 'extensions'].forEach(name => {
+            const rule = find(name);
+            if (!rule) return;
+
+            const invalid = rule.parameters.filter(value => !isImageType(name, value));
+            if (invalid.length === 0) return;
+
+            const valid = rule.parameters.filter(value => isImageType(name, value));
+            issues.push({
+                ...this.location(rule),
+                message: `'image' only accepts images, so ${invalid.map(value => `'${value.trim()}'`).join(', ')} can never pass`,
+                severity: vscode.DiagnosticSeverity.Warning,
+                code: 'conflicting-rules',
+                fixes: [valid.length > 0
+                    ? { title: `Keep only image types in '${name}'`, edits: [this.replaceParameters(rule, valid)] }
+                    : this.removal(rule)]
+            });
+        });
+
+        return issues;
+    }
+
+    private static findRedundantFormatRules(find: (name: string) => RuleItem | undefined): RuleIssue[] {
+        const issues: RuleIssue[] = [];
+        if (!find('email')) return issues;
+
+        const string = find('string');
+        if (string) {
+            issues.push(this.redundant(string, `'string' is implied by 'email', which only accepts strings`));
+        }
+
+        // A pattern matching on @ re-implements the address check
+        const regex = find('regex');
+        if (regex && regex.parameters[0]?.includes('@')) {
+            issues.push(this.redundant(regex, `'regex' duplicates the address check done by 'email'`));
+        }
+
+        return issues;
+    }
+
+    private static checkConfirmation(text: string, array: RuleArray, field: RuleField, confirmed: RuleItem): RuleIssue | undefined {
+        // Laravel 11 accepts a custom confirmation field as parameter
+        const expected = confirmed.parameters[0]?.trim() || `${field.field}_confirmation`;
+        if (array.keys.includes(expected)) return undefined;
+
+        const lineStart = text.lastIndexOf('\n', field.keyOffset) + 1;
+        const indent = text.substring(lineStart, field.keyOffset - 1).match(/^\s*/)![0];
+        const hasComma = text[field.entryEnd] === ',';
+        const rules = field.format === 'array' ? `['required']` : `'required'`;
+
+        return {
+            ...this.location(confirmed),
+            message: `'confirmed' expects a '${expected}' input, but no '${expected}' field is validated here`,
+            severity: vscode.DiagnosticSeverity.Information,
+            code: 'missing-confirmation-field',
+            fixes: [{
+                title: `Add '${expected}' rules`,
+                edits: [{
+                    offset: hasComma ? field.entryEnd + 1 : field.entryEnd,
+                    length: 0,
+                    text: `${hasComma ? '' : ','}\n${indent}'${expected}' => ${rules}${hasComma ? ',' : ''}`
+                }]
+            }]
+        };
+    }
+
+    // items.*.product_id and address.city only check the shape of items and address when those are arrays
+    private static findMissingParentArrays(text: string, array: RuleArray): RuleIssue[] {
+        const issues: RuleIssue[] = [];
+        const checked = new Set<string>();
+
+        array.fields.forEach(field => {
+            const segments = field.field.split('.');
+
+            for (let i = 1; i < segments.length; i++) {
+                // The element below a wildcard is described by its own rules
+                if (segments[i - 1] === '*') continue;
+
+                const parent = segments.slice(0, i).join('.');
+                if (checked.has(parent)) continue;
+                checked.add(parent);
+
+                const parentField = array.fields.find(candidate => candidate.field === parent);
+                if (parentField) {
+                    if (!parentField.rules.some(rule => rule.name === 'array' || rule.name === 'list')) {
+                        issues.push({
+                            offset: parentField.keyOffset,
+                            length: parent.length,
+                            message: `'${parent}' has nested rules such as '${field.field}' but no 'array' rule`,
+                            severity: vscode.DiagnosticSeverity.Warning,
+                            code: 'missing-parent-array',
+                            fixes: [{ title: `Add 'array' to '${parent}'`, edits: [this.appendRule(text, parentField, 'array')] }]
+                        });
+                    }
+                    continue;
+                }
+
+                // Rules that are not literals, or entries hidden in spreads, may declare the parent
+                if (array.keys.includes(parent) || array.dynamic) continue;
+
+                const lineStart = text.lastIndexOf('\n', field.keyOffset) + 1;
+                const indent = text.substring(lineStart, field.keyOffset - 1).match(/^\s*/)![0];
+                const rules = field.format === 'array' ? `['array']` : `'array'`;
+                issues.push({
+                    offset: field.keyOffset,
+                    length: field.field.length,
+                    message: `'${field.field}' is declared without a parent '${parent}' => 'array' rule`,
+                    severity: vscode.DiagnosticSeverity.Warning,
+                    code: 'missing-parent-array',
+                    fixes: [{
+                        title: `Add '${parent}' => ${rules}`,
+                        edits: [{ offset: field.keyOffset - 1, length: 0, text: `'${parent}' => ${rules},\n${indent}` }]
+                    }]
+                });
+            }
+        });
+
+        return issues;
+    }
+
+    // Adds a rule at the end of a pipe string or rule list
+    private static appendRule(text: string, field: RuleField, rule: string): { offset: number; length: number; text: string } {
+        // Step back over the closing quote or bracket and any whitespace before it
+        let offset = field.entryEnd - 1;
+        while (offset > 0 && /\s/.test(text[offset - 1])) {
+            offset--;
+        }
+
+        const previous = text[offset - 1];
+        if (field.format === 'string') {
+            return { offset, length: 0, text: previous === '|' || previous === '\'' || previous === '"' ? rule : `|${rule}` };
+        }
+        if (previous === ',') {
+            return { offset, length: 0, text: ` '${rule}',` };
+        }
+        return { offset, length: 0, text: previous === '[' ? `'${rule}'` : `, '${rule}'` };
+    }
+
+    private static conflict(rule: RuleItem, other: RuleItem, message: string, severity: vscode.DiagnosticSeverity): RuleIssue {
+        return {
+            ...this.location(rule),
+            message,
+            severity,
+            code: 'conflicting-rules',
+            fixes: [this.removal(rule), this.removal(other)]
+        };
+    }
+
+    private static redundant(rule: RuleItem, message: string): RuleIssue {
+        return {
+            ...this.location(rule),
+            message,
+            severity: vscode.DiagnosticSeverity.Hint,
+            code: 'redundant-rule',
+            unnecessary: true,
+            fixes: [this.removal(rule)]
+        };
+    }
+
+    private static removal(rule: RuleItem): RuleFix {
+        return {
+            title: `Remove '${rule.name}'`,
+            edits: [{ offset: rule.removeStart, length: rule.removeEnd - rule.removeStart, text: '' }]
+        };
+    }
+
+    private static replaceParameters(rule: RuleItem, parameters: string[]): { offset: number; length: number; text: string } {
+        return {
+            offset: rule.parametersOffset,
+            length: rule.offset + rule.length - rule.parametersOffset,
+            text: parameters.map(value => value.trim()).join(',')
+        };
+    }
+
+    private static location(rule: RuleItem): { offset: number; length: number } {
+        return { offset: rule.offset, length: rule.length };
+    }
+}
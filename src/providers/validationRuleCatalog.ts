@@ -0,0 +1,1362 @@
+import { ValidationRule, ValidationParameter, RuleObjectMethod } from './validationCompletionProvider';
+
+const FIELD: ValidationParameter = { name: 'field', type: 'string', required: true, description: 'Other field under validation' };
+const VALUE: ValidationParameter = { name: 'value', type: 'string', required: true, description: 'Value of the other field' };
+const VALUES: ValidationParameter = { name: 'values', type: 'string', required: true, description: 'Comma-separated list of values' };
+const FIELDS: ValidationParameter = { name: 'fields', type: 'string', required: true, description: 'Comma-separated list of other fields' };
+const DATE: ValidationParameter = {
+    name: 'date', type: 'string', required: true, description: 'Date string or another field',
+    examples: ['today', 'tomorrow', 'start_date']
+};
+
+// Every built-in string rule; `since` is the release that introduced it, rules without it predate 5.5
+const RULES: Omit<ValidationRule, 'phpDocUrl'>[] = [
+    // Basic Rules
+    {
+        name: 'required',
+        description: 'The field under validation must be present in the input data and not empty',
+        examples: ['required'],
+        category: 'Basic'
+    },
+    {
+        name: 'nullable',
+        description: 'The field under validation may be null',
+        examples: ['nullable'],
+        category: 'Basic'
+    },
+    {
+        name: 'sometimes',
+        description: 'Only validate the field when it is present in the input data',
+        examples: ['sometimes|required'],
+        category: 'Basic'
+    },
+    {
+        name: 'bail',
+        description: 'Stop running validation rules for the field after the first validation failure',
+        examples: ['bail|required'],
+        category: 'Basic'
+    },
+    {
+        name: 'filled',
+        description: 'The field under validation must not be empty when it is present',
+        examples: ['filled'],
+        category: 'Basic'
+    },
+    {
+        name: 'present',
+        description: 'The field under validation must exist in the input data',
+        examples: ['present'],
+        category: 'Basic'
+    },
+    {
+        name: 'missing',
+        description: 'The field under validation must not be present in the input data',
+        examples: ['missing'],
+        category: 'Basic',
+        since: '10.0'
+    },
+    {
+        name: 'prohibited',
+        description: 'The field under validation must be missing or empty',
+        examples: ['prohibited'],
+        category: 'Basic',
+        since: '8.0'
+    },
+    {
+        name: 'exclude',
+        description: 'The field under validation will be excluded from the data returned by validate()',
+        examples: ['exclude'],
+        category: 'Basic',
+        since: '8.0'
+    },
+
+    // Conditional Rules
+    {
+        name: 'required_if',
+        description: 'The field under validation must be present and not empty if another field is equal to any value',
+        parameters: [FIELD, { ...VALUES, description: 'Values of the other field' }],
+        examples: ['required_if:type,business', 'required_if:role,admin,editor'],
+        category: 'Conditional'
+    },
+    {
+        name: 'required_if_accepted',
+        description: 'The field under validation must be present and not empty if another field is accepted',
+        parameters: [FIELD],
+        examples: ['required_if_accepted:terms'],
+        category: 'Conditional',
+        since: '10.0'
+    },
+    {
+        name: 'required_if_declined',
+        description: 'The field under validation must be present and not empty if another field is declined',
+        parameters: [FIELD],
+        examples: ['required_if_declined:newsletter'],
+        category: 'Conditional',
+        since: '10.0'
+    },
+    {
+        name: 'required_unless',
+        description: 'The field under validation must be present and not empty unless another field is equal to any value',
+        parameters: [FIELD, { ...VALUES, description: 'Values of the other field' }],
+        examples: ['required_unless:type,personal'],
+        category: 'Conditional'
+    },
+    {
+        name: 'required_with',
+        description: 'The field under validation must be present and not empty only if any of the other fields are present',
+        parameters: [FIELDS],
+        examples: ['required_with:first_name,last_name'],
+        category: 'Conditional'
+    },
+    {
+        name: 'required_with_all',
+        description: 'The field under validation must be present and not empty only if all of the other fields are present',
+        parameters: [FIELDS],
+        examples: ['required_with_all:street,city'],
+        category: 'Conditional'
+    },
+    {
+        name: 'required_without',
+        description: 'The field under validation must be present and not empty only when any of the other fields are missing',
+        parameters: [FIELDS],
+        examples: ['required_without:phone'],
+        category: 'Conditional'
+    },
+    {
+        name: 'required_without_all',
+        description: 'The field under validation must be present and not empty only when all of the other fields are missing',
+        parameters: [FIELDS],
+        examples: ['required_without_all:phone,email'],
+        category: 'Conditional'
+    },
+    {
+        name: 'required_array_keys',
+        description: 'The field under validation must be an array containing at least the specified keys',
+        parameters: [{ name: 'keys', type: 'string', required: true, description: 'Comma-separated list of keys' }],
+        examples: ['required_array_keys:name,email'],
+        category: 'Conditional',
+        since: '8.0'
+    },
+    {
+        name: 'prohibited_if',
+        description: 'The field under validation must be missing or empty if another field is equal to any value',
+        parameters: [FIELD, { ...VALUES, description: 'Values of the other field' }],
+        examples: ['prohibited_if:type,personal'],
+        category: 'Conditional',
+        since: '8.0'
+    },
+    {
+        name: 'prohibited_if_accepted',
+        description: 'The field under validation must be missing or empty if another field is accepted',
+        parameters: [FIELD],
+        examples: ['prohibited_if_accepted:use_default'],
+        category: 'Conditional',
+        since: '11.0'
+    },
+    {
+        name: 'prohibited_if_declined',
+        description: 'The field under validation must be missing or empty if another field is declined',
+        parameters: [FIELD],
+        examples: ['prohibited_if_declined:custom'],
+        category: 'Conditional',
+        since: '11.0'
+    },
+    {
+        name: 'prohibited_unless',
+        description: 'The field under validation must be missing or empty unless another field is equal to any value',
+        parameters: [FIELD, { ...VALUES, description: 'Values of the other field' }],
+        examples: ['prohibited_unless:type,business'],
+        category: 'Conditional',
+        since: '8.0'
+    },
+    {
+        name: 'prohibits',
+        description: 'If the field under validation is not missing or empty, all of the other fields must be missing or empty',
+        parameters: [FIELDS],
+        examples: ['prohibits:email,phone'],
+        category: 'Conditional',
+        since: '8.0'
+    },
+    {
+        name: 'present_if',
+        description: 'The field under validation must be present if another field is equal to any value',
+        parameters: [FIELD, { ...VALUES, description: 'Values of the other field' }],
+        examples: ['present_if:type,business'],
+        category: 'Conditional',
+        since: '10.0'
+    },
+    {
+        name: 'present_unless',
+        description: 'The field under validation must be present unless another field is equal to any value',
+        parameters: [FIELD, { ...VALUES, description: 'Values of the other field' }],
+        examples: ['present_unless:type,personal'],
+        category: 'Conditional',
+        since: '10.0'
+    },
+    {
+        name: 'present_with',
+        description: 'The field under validation must be present if any of the other fields are present',
+        parameters: [FIELDS],
+        examples: ['present_with:address'],
+        category: 'Conditional',
+        since: '10.0'
+    },
+    {
+        name: 'present_with_all',
+        description: 'The field under validation must be present if all of the other fields are present',
+        parameters: [FIELDS],
+        examples: ['present_with_all:street,city'],
+        category: 'Conditional',
+        since: '10.0'
+    },
+    {
+        name: 'missing_if',
+        description: 'The field under validation must not be present if another field is equal to any value',
+        parameters: [FIELD, { ...VALUES, description: 'Values of the other field' }],
+        examples: ['missing_if:type,personal'],
+        category: 'Conditional',
+        since: '10.0'
+    },
+    {
+        name: 'missing_unless',
+        description: 'The field under validation must not be present unless another field is equal to any value',
+        parameters: [FIELD, VALUE],
+        examples: ['missing_unless:type,business'],
+        category: 'Conditional',
+        since: '10.0'
+    },
+    {
+        name: 'missing_with',
+        description: 'The field under validation must not be present only if any of the other fields are present',
+        parameters: [FIELDS],
+        examples: ['missing_with:phone'],
+        category: 'Conditional',
+        since: '10.0'
+    },
+    {
+        name: 'missing_with_all',
+        description: 'The field under validation must not be present only if all of the other fields are present',
+        parameters: [FIELDS],
+        examples: ['missing_with_all:phone,email'],
+        category: 'Conditional',
+        since: '10.0'
+    },
+    {
+        name: 'exclude_if',
+        description: 'The field will be excluded from the validated data if another field is equal to the value',
+        parameters: [FIELD, VALUE],
+        examples: ['exclude_if:has_appointment,false'],
+        category: 'Conditional',
+        since: '6.0'
+    },
+    {
+        name: 'exclude_unless',
+        description: 'The field will be excluded from the validated data unless another field is equal to the value',
+        parameters: [FIELD, VALUE],
+        examples: ['exclude_unless:has_appointment,true'],
+        category: 'Conditional',
+        since: '6.0'
+    },
+    {
+        name: 'exclude_with',
+        description: 'The field will be excluded from the validated data if another field is present',
+        parameters: [FIELD],
+        examples: ['exclude_with:email'],
+        category: 'Conditional',
+        since: '8.0'
+    },
+    {
+        name: 'exclude_without',
+        description: 'The field will be excluded from the validated data if another field is not present',
+        parameters: [FIELD],
+        examples: ['exclude_without:email'],
+        category: 'Conditional',
+        since: '8.0'
+    },
+
+    // Boolean Rules
+    {
+        name: 'boolean',
+        description: 'The field under validation must be able to be cast as a boolean',
+        examples: ['boolean'],
+        category: 'Boolean'
+    },
+    {
+        name: 'accepted',
+        description: 'The field under validation must be "yes", "on", 1, "1", true or "true"',
+        examples: ['accepted'],
+        category: 'Boolean'
+    },
+    {
+        name: 'accepted_if',
+        description: 'The field under validation must be accepted if another field is equal to the value',
+        parameters: [FIELD, VALUE],
+        examples: ['accepted_if:subscribe,true'],
+        category: 'Boolean',
+        since: '8.0'
+    },
+    {
+        name: 'declined',
+        description: 'The field under validation must be "no", "off", 0, "0", false or "false"',
+        examples: ['declined'],
+        category: 'Boolean',
+        since: '8.0'
+    },
+    {
+        name: 'declined_if',
+        description: 'The field under validation must be declined if another field is equal to the value',
+        parameters: [FIELD, VALUE],
+        examples: ['declined_if:subscribe,false'],
+        category: 'Boolean',
+        since: '8.0'
+    },
+
+    // String Rules
+    {
+        name: 'string',
+        description: 'The field under validation must be a string',
+        examples: ['string'],
+        category: 'String'
+    },
+    {
+        name: 'alpha',
+        description: 'The field under validation must be entirely Unicode alphabetic characters',
+        parameters: [{ name: 'ascii', type: 'string', required: false, description: 'Restrict to ASCII characters', examples: ['ascii'] }],
+        examples: ['alpha', 'alpha:ascii'],
+        category: 'String'
+    },
+    {
+        name: 'alpha_dash',
+        description: 'The field under validation must be entirely alpha-numeric characters, dashes and underscores',
+        parameters: [{ name: 'ascii', type: 'string', required: false, description: 'Restrict to ASCII characters', examples: ['ascii'] }],
+        examples: ['alpha_dash', 'alpha_dash:ascii'],
+        category: 'String'
+    },
+    {
+        name: 'alpha_num',
+        description: 'The field under validation must be entirely alpha-numeric characters',
+        parameters: [{ name: 'ascii', type: 'string', required: false, description: 'Restrict to ASCII characters', examples: ['ascii'] }],
+        examples: ['alpha_num', 'alpha_num:ascii'],
+        category: 'String'
+    },
+    {
+        name: 'ascii',
+        description: 'The field under validation must be entirely 7-bit ASCII characters',
+        examples: ['ascii'],
+        category: 'String',
+        since: '10.0'
+    },
+    {
+        name: 'lowercase',
+        description: 'The field under validation must be lowercase',
+        examples: ['lowercase'],
+        category: 'String',
+        since: '9.0'
+    },
+    {
+        name: 'uppercase',
+        description: 'The field under validation must be uppercase',
+        examples: ['uppercase'],
+        category: 'String',
+        since: '9.0'
+    },
+    {
+        name: 'starts_with',
+        description: 'The field under validation must start with one of the given values',
+        parameters: [VALUES],
+        examples: ['starts_with:https://,http://'],
+        category: 'String',
+        since: '5.7'
+    },
+    {
+        name: 'ends_with',
+        description: 'The field under validation must end with one of the given values',
+        parameters: [VALUES],
+        examples: ['ends_with:.com,.org'],
+        category: 'String',
+        since: '5.8'
+    },
+    {
+        name: 'doesnt_start_with',
+        description: 'The field under validation must not start with one of the given values',
+        parameters: [VALUES],
+        examples: ['doesnt_start_with:admin'],
+        category: 'String',
+        since: '9.0'
+    },
+    {
+        name: 'doesnt_end_with',
+        description: 'The field under validation must not end with one of the given values',
+        parameters: [VALUES],
+        examples: ['doesnt_end_with:.test'],
+        category: 'String',
+        since: '9.0'
+    },
+
+    // Numeric Rules
+    {
+        name: 'integer',
+        description: 'The field under validation must be an integer',
+        parameters: [{ name: 'strict', type: 'string', required: false, description: 'Reject numeric strings', examples: ['strict'] }],
+        examples: ['integer'],
+        category: 'Numeric'
+    },
+    {
+        name: 'numeric',
+        description: 'The field under validation must be numeric',
+        parameters: [{ name: 'strict', type: 'string', required: false, description: 'Reject numeric strings', examples: ['strict'] }],
+        examples: ['numeric'],
+        category: 'Numeric'
+    },
+    {
+        name: 'decimal',
+        description: 'The field under validation must be numeric and contain the specified number of decimal places',
+        parameters: [
+            { name: 'min', type: 'integer', required: true, description: 'Minimum decimal places', examples: ['2'] },
+            { name: 'max', type: 'integer', required: false, description: 'Maximum decimal places', examples: ['4'] }
+        ],
+        examples: ['decimal:2', 'decimal:1,4'],
+        category: 'Numeric',
+        since: '10.0'
+    },
+    {
+        name: 'digits',
+        description: 'The integer under validation must have an exact length of value',
+        parameters: [{ name: 'value', type: 'integer', required: true, description: 'Exact number of digits' }],
+        examples: ['digits:4'],
+        category: 'Numeric'
+    },
+    {
+        name: 'digits_between',
+        description: 'The integer under validation must have a length between the given min and max',
+        parameters: [
+            { name: 'min', type: 'integer', required: true, description: 'Minimum number of digits', examples: ['4'] },
+            { name: 'max', type: 'integer', required: true, description: 'Maximum number of digits', examples: ['6'] }
+        ],
+        examples: ['digits_between:4,6'],
+        category: 'Numeric'
+    },
+    {
+        name: 'min_digits',
+        description: 'The integer under validation must have a minimum length of value',
+        parameters: [{ name: 'value', type: 'integer', required: true, description: 'Minimum number of digits' }],
+        examples: ['min_digits:3'],
+        category: 'Numeric',
+        since: '9.0'
+    },
+    {
+        name: 'max_digits',
+        description: 'The integer under validation must have a maximum length of value',
+        parameters: [{ name: 'value', type: 'integer', required: true, description: 'Maximum number of digits' }],
+        examples: ['max_digits:10'],
+        category: 'Numeric',
+        since: '9.0'
+    },
+    {
+        name: 'multiple_of',
+        description: 'The field under validation must be a multiple of value',
+        parameters: [{ name: 'value', type: 'integer', required: true, description: 'Divisor', examples: ['5'] }],
+        examples: ['multiple_of:5'],
+        category: 'Numeric',
+        since: '8.0'
+    },
+
+    // Size Rules
+    {
+        name: 'min',
+        description: 'The field under validation must have a minimum value/length',
+        parameters: [
+            { name: 'value', type: 'integer', required: true, description: 'Minimum value or length' }
+        ],
+        examples: ['min:3', 'min:8'],
+        category: 'Size'
+    },
+    {
+        name: 'max',
+        description: 'The field under validation must have a maximum value/length',
+        parameters: [
+            { name: 'value', type: 'integer', required: true, description: 'Maximum value or length' }
+        ],
+        examples: ['max:255', 'max:100'],
+        category: 'Size'
+    },
+    {
+        name: 'between',
+        description: 'The field under validation must have a size between the given min and max',
+        parameters: [
+            { name: 'min', type: 'integer', required: true, description: 'Minimum value or length', examples: ['1'] },
+            { name: 'max', type: 'integer', required: true, description: 'Maximum value or length', examples: ['10'] }
+        ],
+        examples: ['between:1,10'],
+        category: 'Size'
+    },
+    {
+        name: 'size',
+        description: 'The field under validation must have a size matching the given value',
+        parameters: [{ name: 'value', type: 'integer', required: true, description: 'Exact value, length, item count or kilobytes' }],
+        examples: ['size:10'],
+        category: 'Size'
+    },
+
+    // Comparison Rules
+    {
+        name: 'confirmed',
+        description: 'The field under validation must have a matching field of {field}_confirmation',
+        parameters: [{ name: 'field', type: 'string', required: false, description: 'Custom confirmation field' }],
+        examples: ['confirmed'],
+        category: 'Confirmation'
+    },
+    {
+        name: 'same',
+        description: 'The given field must match the field under validation',
+        parameters: [FIELD],
+        examples: ['same:password'],
+        category: 'Comparison'
+    },
+    {
+        name: 'different',
+        description: 'The field under validation must have a different value than the other field',
+        parameters: [FIELD],
+        examples: ['different:old_password'],
+        category: 'Comparison'
+    },
+    {
+        name: 'gt',
+        description: 'The field under validation must be greater than the given field or value',
+        parameters: [{ ...FIELD, description: 'Other field or value' }],
+        examples: ['gt:min_price', 'gt:0'],
+        category: 'Comparison',
+        since: '5.6'
+    },
+    {
+        name: 'gte',
+        description: 'The field under validation must be greater than or equal to the given field or value',
+        parameters: [{ ...FIELD, description: 'Other field or value' }],
+        examples: ['gte:min_price', 'gte:0'],
+        category: 'Comparison',
+        since: '5.6'
+    },
+    {
+        name: 'lt',
+        description: 'The field under validation must be less than the given field or value',
+        parameters: [{ ...FIELD, description: 'Other field or value' }],
+        examples: ['lt:max_price', 'lt:100'],
+        category: 'Comparison',
+        since: '5.6'
+    },
+    {
+        name: 'lte',
+        description: 'The field under validation must be less than or equal to the given field or value',
+        parameters: [{ ...FIELD, description: 'Other field or value' }],
+        examples: ['lte:max_price', 'lte:100'],
+        category: 'Comparison',
+        since: '5.6'
+    },
+    {
+        name: 'current_password',
+        description: 'The field under validation must match the authenticated user\'s password',
+        parameters: [{ name: 'guard', type: 'string', required: false, description: 'Authentication guard', examples: ['api'] }],
+        examples: ['current_password', 'current_password:api'],
+        category: 'Confirmation',
+        since: '8.0'
+    },
+    {
+        name: 'password',
+        description: 'The field under validation must match the authenticated user\'s password (use current_password)',
+        parameters: [{ name: 'guard', type: 'string', required: false, description: 'Authentication guard', examples: ['api'] }],
+        examples: ['password'],
+        category: 'Confirmation',
+        since: '6.0',
+        removedIn: '9.0'
+    },
+
+    // Format Rules
+    {
+        name: 'email',
+        description: 'The field under validation must be formatted as an email address',
+        parameters: [{
+            name: 'validators', type: 'string', required: false, description: 'Validation styles to apply',
+            examples: ['rfc,dns', 'strict', 'spoof', 'filter', 'filter_unicode']
+        }],
+        examples: ['email', 'email:rfc,dns'],
+        category: 'Format'
+    },
+    {
+        name: 'url',
+        description: 'The field under validation must be a valid URL',
+        parameters: [{ name: 'protocols', type: 'string', required: false, description: 'Allowed protocols', examples: ['http,https'] }],
+        examples: ['url', 'url:http,https'],
+        category: 'Format'
+    },
+    {
+        name: 'active_url',
+        description: 'The field under validation must have a valid A or AAAA record according to dns_get_record',
+        examples: ['active_url'],
+        category: 'Format'
+    },
+    {
+        name: 'ip',
+        description: 'The field under validation must be an IP address',
+        examples: ['ip'],
+        category: 'Format'
+    },
+    {
+        name: 'ipv4',
+        description: 'The field under validation must be an IPv4 address',
+        examples: ['ipv4'],
+        category: 'Format',
+        since: '5.5'
+    },
+    {
+        name: 'ipv6',
+        description: 'The field under validation must be an IPv6 address',
+        examples: ['ipv6'],
+        category: 'Format',
+        since: '5.5'
+    },
+    {
+        name: 'mac_address',
+        description: 'The field under validation must be a MAC address',
+        examples: ['mac_address'],
+        category: 'Format',
+        since: '8.0'
+    },
+    {
+        name: 'json',
+        description: 'The field under validation must be a valid JSON string',
+        examples: ['json'],
+        category: 'Format'
+    },
+    {
+        name: 'uuid',
+        description: 'The field under validation must be a valid RFC 4122 universally unique identifier',
+        parameters: [{ name: 'version', type: 'integer', required: false, description: 'UUID version', examples: ['4'] }],
+        examples: ['uuid'],
+        category: 'Format',
+        since: '5.7'
+    },
+    {
+        name: 'ulid',
+        description: 'The field under validation must be a valid Universally Unique Lexicographically Sortable Identifier',
+        examples: ['ulid'],
+        category: 'Format',
+        since: '9.0'
+    },
+    {
+        name: 'hex_color',
+        description: 'The field under validation must contain a valid color value in hexadecimal format',
+        examples: ['hex_color'],
+        category: 'Format',
+        since: '10.0'
+    },
+    {
+        name: 'timezone',
+        description: 'The field under validation must be a valid timezone identifier',
+        parameters: [{ name: 'group', type: 'string', required: false, description: 'Timezone group', examples: ['all', 'Europe', 'per_country,US'] }],
+        examples: ['timezone', 'timezone:Europe'],
+        category: 'Format'
+    },
+
+    // Options Rules
+    {
+        name: 'in',
+        description: 'The field under validation must be included in the given list of values',
+        parameters: [
+            { name: 'values', type: 'string', required: true, description: 'Comma-separated list of allowed values' }
+        ],
+        examples: ['in:admin,user,guest', 'in:red,green,blue'],
+        category: 'Options'
+    },
+    {
+        name: 'not_in',
+        description: 'The field under validation must not be included in the given list of values',
+        parameters: [{ name: 'values', type: 'string', required: true, description: 'Comma-separated list of forbidden values' }],
+        examples: ['not_in:admin,root'],
+        category: 'Options'
+    },
+    {
+        name: 'in_array',
+        description: 'The field under validation must exist in another field\'s values',
+        parameters: [{ ...FIELD, description: 'Other array field followed by .*', examples: ['tags.*'] }],
+        examples: ['in_array:tags.*'],
+        category: 'Options'
+    },
+
+    // Array Rules
+    {
+        name: 'array',
+        description: 'The field under validation must be a PHP array',
+        parameters: [{ name: 'keys', type: 'string', required: false, description: 'Comma-separated list of allowed keys' }],
+        examples: ['array', 'array:name,email'],
+        category: 'Array'
+    },
+    {
+        name: 'list',
+        description: 'The field under validation must be an array that is a list (consecutive keys from 0)',
+        examples: ['list'],
+        category: 'Array',
+        since: '11.0'
+    },
+    {
+        name: 'distinct',
+        description: 'When validating arrays, the field under validation must not have any duplicate values',
+        parameters: [{ name: 'mode', type: 'string', required: false, description: 'Comparison mode', examples: ['strict', 'ignore_case'] }],
+        examples: ['distinct', 'distinct:ignore_case'],
+        category: 'Array'
+    },
+    {
+        name: 'contains',
+        description: 'The field under validation must be an array that contains all of the given values',
+        parameters: [VALUES],
+        examples: ['contains:admin'],
+        category: 'Array',
+        since: '11.0'
+    },
+    {
+        name: 'doesnt_contain',
+        description: 'The field under validation must be an array that does not contain any of the given values',
+        parameters: [VALUES],
+        examples: ['doesnt_contain:root'],
+        category: 'Array',
+        since: '12.0'
+    },
+    {
+        name: 'in_array_keys',
+        description: 'The field under validation must be an array having at least one of the given keys',
+        parameters: [{ name: 'keys', type: 'string', required: true, description: 'Comma-separated list of keys' }],
+        examples: ['in_array_keys:timezone,locale'],
+        category: 'Array',
+        since: '12.0'
+    },
+
+    // Pattern Rules
+    {
+        name: 'regex',
+        description: 'The field under validation must match the given regular expression',
+        parameters: [
+            { name: 'pattern', type: 'string', required: true, description: 'Regular expression pattern' }
+        ],
+        examples: ['regex:/^[A-Za-z0-9]+$/', 'regex:/^\\+?[1-9]\\d{1,14}$/'],
+        category: 'Pattern'
+    },
+    {
+        name: 'not_regex',
+        description: 'The field under validation must not match the given regular expression',
+        parameters: [{ name: 'pattern', type: 'string', required: true, description: 'Regular expression pattern' }],
+        examples: ['not_regex:/^.+$/i'],
+        category: 'Pattern',
+        since: '5.6'
+    },
+
+    // Date Rules
+    {
+        name: 'date',
+        description: 'The field under validation must be a valid, non-relative date',
+        examples: ['date'],
+        category: 'Date'
+    },
+    {
+        name: 'date_format',
+        description: 'The field under validation must match one of the given formats',
+        parameters: [{ name: 'format', type: 'string', required: true, description: 'Date format', examples: ['Y-m-d', 'H:i'] }],
+        examples: ['date_format:Y-m-d', 'date_format:H:i'],
+        category: 'Date'
+    },
+    {
+        name: 'date_equals',
+        description: 'The field under validation must be equal to the given date',
+        parameters: [DATE],
+        examples: ['date_equals:today'],
+        category: 'Date'
+    },
+    {
+        name: 'after',
+        description: 'The field under validation must be a value after a given date',
+        parameters: [DATE],
+        examples: ['after:tomorrow', 'after:start_date'],
+        category: 'Date'
+    },
+    {
+        name: 'after_or_equal',
+        description: 'The field under validation must be a value after or equal to the given date',
+        parameters: [DATE],
+        examples: ['after_or_equal:today'],
+        category: 'Date'
+    },
+    {
+        name: 'before',
+        description: 'The field under validation must be a value preceding the given date',
+        parameters: [DATE],
+        examples: ['before:today', 'before:end_date'],
+        category: 'Date'
+    },
+    {
+        name: 'before_or_equal',
+        description: 'The field under validation must be a value preceding or equal to the given date',
+        parameters: [DATE],
+        examples: ['before_or_equal:today'],
+        category: 'Date'
+    },
+
+    // File Rules
+    {
+        name: 'file',
+        description: 'The field under validation must be a successfully uploaded file',
+        examples: ['file'],
+        category: 'File'
+    },
+    {
+        name: 'image',
+        description: 'The field under validation must be an image (jpeg, png, bmp, gif, svg, or webp)',
+        parameters: [{ name: 'allow_svg', type: 'string', required: false, description: 'Also accept SVG images', examples: ['allow_svg'] }],
+        examples: ['image'],
+        category: 'File'
+    },
+    {
+        name: 'mimes',
+        description: 'The file under validation must have a MIME type corresponding to one of the listed extensions',
+        parameters: [{ name: 'extensions', type: 'string', required: true, description: 'Comma-separated list of extensions', examples: ['jpg,png,pdf'] }],
+        examples: ['mimes:jpg,png', 'mimes:pdf'],
+        category: 'File'
+    },
+    {
+        name: 'mimetypes',
+        description: 'The file under validation must match one of the given MIME types',
+        parameters: [{ name: 'types', type: 'string', required: true, description: 'Comma-separated list of MIME types', examples: ['video/mp4'] }],
+        examples: ['mimetypes:video/avi,video/mpeg'],
+        category: 'File'
+    },
+    {
+        name: 'extensions',
+        description: 'The file under validation must have a user-assigned extension corresponding to one of the listed extensions',
+        parameters: [{ name: 'extensions', type: 'string', required: true, description: 'Comma-separated list of extensions', examples: ['jpg,png'] }],
+        examples: ['extensions:jpg,png'],
+        category: 'File',
+        since: '10.0'
+    },
+    {
+        name: 'dimensions',
+        description: 'The file under validation must be an image meeting the dimension constraints',
+        parameters: [{
+            name: 'constraints', type: 'string', required: true, description: 'Constraints such as min_width, max_height or ratio',
+            examples: ['min_width=100,min_height=200']
+        }],
+        examples: ['dimensions:min_width=100,min_height=200', 'dimensions:ratio=3/2'],
+        category: 'File'
+    },
+
+    // Database Rules
+    {
+        name: 'unique',
+        description: 'The field under validation must not exist within the given database table',
+        parameters: [
+            { name: 'table', type: 'string', required: true, description: 'Table name or model' },
+            { name: 'column', type: 'string', required: false, description: 'Column name' }
+        ],
+        examples: ['unique:users', 'unique:users,email'],
+        category: 'Database'
+    },
+    {
+        name: 'exists',
+        description: 'The field under validation must exist in a given database table',
+        parameters: [
+            { name: 'table', type: 'string', required: true, description: 'Table name or model' },
+            { name: 'column', type: 'string', required: false, description: 'Column name' }
+        ],
+        examples: ['exists:users', 'exists:users,id'],
+        category: 'Database'
+    }
+];
+
+export const VALIDATION_RULE_CATALOG: ValidationRule[] = RULES.map(rule => ({
+    ...rule,
+    phpDocUrl: `https://laravel.com/docs/validation#rule-${rule.name.replace(/_/g, '-')}`
+}));
+
+const COLUMN: ValidationParameter = { name: 'column', type: 'string', required: true, description: 'Column name' };
+const SIZE: ValidationParameter = { name: 'size', type: 'integer', required: true, description: 'Size in kilobytes, or a string such as 2mb' };
+
+// Constraints shared by Rule::unique() and Rule::exists()
+const DATABASE_BUILDER: RuleObjectMethod[] = [
+    {
+        name: 'where',
+        description: 'Add a where clause to the query, the value may be a closure receiving the query',
+        parameters: [COLUMN, { name: 'value', type: 'mixed', required: false, description: 'Expected value' }],
+        examples: ["->where('account_id', 1)", "->where(fn ($query) => $query->where('active', 1))"]
+    },
+    {
+        name: 'whereNot',
+        description: 'Add a where not clause to the query',
+        parameters: [COLUMN, { name: 'value', type: 'mixed', required: true, description: 'Excluded value' }],
+        examples: ["->whereNot('status', 'archived')"]
+    },
+    {
+        name: 'whereNull',
+        description: 'Only match rows where the column is null',
+        parameters: [COLUMN],
+        examples: ["->whereNull('deleted_at')"]
+    },
+    {
+        name: 'whereNotNull',
+        description: 'Only match rows where the column is not null',
+        parameters: [COLUMN],
+        examples: ["->whereNotNull('verified_at')"]
+    },
+    {
+        name: 'whereIn',
+        description: 'Only match rows where the column is in the given values',
+        parameters: [COLUMN, { name: 'values', type: 'array', required: true, description: 'Allowed values' }],
+        examples: ["->whereIn('type', ['admin', 'editor'])"]
+    },
+    {
+        name: 'whereNotIn',
+        description: 'Only match rows where the column is not in the given values',
+        parameters: [COLUMN, { name: 'values', type: 'array', required: true, description: 'Excluded values' }],
+        examples: ["->whereNotIn('type', ['guest'])"]
+    },
+    {
+        name: 'withoutTrashed',
+        description: 'Ignore soft deleted rows',
+        parameters: [{ name: 'deletedAtColumn', type: 'string', required: false, description: 'Soft delete column' }],
+        examples: ['->withoutTrashed()']
+    },
+    {
+        name: 'onlyTrashed',
+        description: 'Only match soft deleted rows',
+        parameters: [{ name: 'deletedAtColumn', type: 'string', required: false, description: 'Soft delete column' }],
+        examples: ['->onlyTrashed()'],
+        since: '11.0'
+    },
+    {
+        name: 'using',
+        description: 'Customize the query with a closure',
+        parameters: [{ name: 'callback', type: 'Closure', required: true, description: 'Closure receiving the query builder' }],
+        examples: ["->using(fn ($query) => $query->where('active', 1))"]
+    }
+];
+
+// Every rule object builder uses the Conditionable trait
+const CONDITIONABLE: RuleObjectMethod[] = [
+    {
+        name: 'when',
+        description: 'Apply the callback to the rule when the value is truthy',
+        parameters: [
+            { name: 'value', type: 'mixed', required: true, description: 'Condition, or a closure returning it' },
+            { name: 'callback', type: 'Closure', required: true, description: 'Closure receiving the rule' },
+            { name: 'default', type: 'Closure', required: false, description: 'Closure applied when the value is falsy' }
+        ],
+        examples: ['->when(app()->isProduction(), fn ($rule) => $rule->uncompromised())']
+    },
+    {
+        name: 'unless',
+        description: 'Apply the callback to the rule unless the value is truthy',
+        parameters: [
+            { name: 'value', type: 'mixed', required: true, description: 'Condition, or a closure returning it' },
+            { name: 'callback', type: 'Closure', required: true, description: 'Closure receiving the rule' },
+            { name: 'default', type: 'Closure', required: false, description: 'Closure applied when the value is truthy' }
+        ],
+        examples: ["->unless($this->user()->isAdmin(), fn ($rule) => $rule->where('active', 1))"]
+    }
+];
+
+// Static factories of the rule object classes
+export const RULE_OBJECT_FACTORIES: Record<string, RuleObjectMethod[]> = {
+    Rule: [
+        {
+            name: 'unique',
+            description: 'The field under validation must not exist within the given database table',
+            parameters: [
+                { name: 'table', type: 'string', required: true, description: 'Table name or model class', examples: ['users', 'User::class'] },
+                { name: 'column', type: 'string', required: false, description: 'Column name' }
+            ],
+            examples: ["Rule::unique('users')->ignore($this->user)", "Rule::unique('users', 'email')"],
+            builder: 'unique'
+        },
+        {
+            name: 'exists',
+            description: 'The field under validation must exist in the given database table',
+            parameters: [
+                { name: 'table', type: 'string', required: true, description: 'Table name or model class', examples: ['users', 'User::class'] },
+                { name: 'column', type: 'string', required: false, description: 'Column name' }
+            ],
+            examples: ["Rule::exists('users', 'id')", "Rule::exists('staff')->where('account_id', 1)"],
+            builder: 'exists'
+        },
+        {
+            name: 'in',
+            description: 'The field under validation must be included in the given list of values',
+            parameters: [{ name: 'values', type: 'array', required: true, description: 'Allowed values, an array, an enum or a collection' }],
+            examples: ["Rule::in(['draft', 'published'])"]
+        },
+        {
+            name: 'notIn',
+            description: 'The field under validation must not be included in the given list of values',
+            parameters: [{ name: 'values', type: 'array', required: true, description: 'Forbidden values' }],
+            examples: ["Rule::notIn(['admin', 'root'])"]
+        },
+        {
+            name: 'enum',
+            description: 'The field under validation must be a valid case of the enum',
+            parameters: [{ name: 'type', type: 'class-string', required: true, description: 'Backed enum class', examples: ['Status::class'] }],
+            examples: ['Rule::enum(Status::class)', 'Rule::enum(Status::class)->only([Status::Draft])'],
+            builder: 'enum',
+            since: '8.0'
+        },
+        {
+            name: 'dimensions',
+            description: 'The file under validation must be an image meeting the dimension constraints',
+            parameters: [{ name: 'constraints', type: 'array', required: false, description: 'Constraints such as min_width or ratio' }],
+            examples: ['Rule::dimensions()->maxWidth(1000)->ratio(3 / 2)'],
+            builder: 'dimensions'
+        },
+        {
+            name: 'requiredIf',
+            description: 'The field under validation must be present and not empty if the condition is true',
+            parameters: [{ name: 'condition', type: 'bool|Closure', required: true, description: 'Condition or closure' }],
+            examples: ['Rule::requiredIf($request->user()->is_admin)']
+        },
+        {
+            name: 'excludeIf',
+            description: 'The field will be excluded from the validated data if the condition is true',
+            parameters: [{ name: 'condition', type: 'bool|Closure', required: true, description: 'Condition or closure' }],
+            examples: ['Rule::excludeIf($request->user()->is_admin)'],
+            since: '9.0'
+        },
+        {
+            name: 'prohibitedIf',
+            description: 'The field under validation must be missing or empty if the condition is true',
+            parameters: [{ name: 'condition', type: 'bool|Closure', required: true, description: 'Condition or closure' }],
+            examples: ['Rule::prohibitedIf($request->user()->is_admin)'],
+            since: '8.0'
+        },
+        {
+            name: 'when',
+            description: 'Apply the rules only when the condition is true, and the default rules otherwise',
+            parameters: [
+                { name: 'condition', type: 'bool|Closure', required: true, description: 'Condition or closure' },
+                { name: 'rules', type: 'array|string', required: true, description: 'Rules applied when true' },
+                { name: 'defaultRules', type: 'array|string', required: false, description: 'Rules applied when false' }
+            ],
+            examples: ["Rule::when($isAdmin, ['required', 'string'])"],
+            since: '8.0'
+        },
+        {
+            name: 'forEach',
+            description: 'Build the rules of each array element with a closure',
+            parameters: [{ name: 'callback', type: 'Closure', required: true, description: 'Closure receiving the value and attribute' }],
+            examples: ["Rule::forEach(fn ($value, $attribute) => [Rule::exists(Company::class, 'id')])"],
+            since: '9.0'
+        },
+        {
+            name: 'can',
+            description: 'The user must be authorized to perform the ability',
+            parameters: [
+                { name: 'ability', type: 'string', required: true, description: 'Gate ability' },
+                { name: 'arguments', type: 'mixed', required: false, description: 'Gate arguments' }
+            ],
+            examples: ["Rule::can('create', Post::class)"],
+            since: '10.0'
+        },
+        {
+            name: 'file',
+            description: 'The field under validation must be a file, configured fluently',
+            examples: ['Rule::file()->types([\'pdf\'])->max(2048)'],
+            builder: 'file',
+            since: '10.0'
+        },
+        {
+            name: 'imageFile',
+            description: 'The field under validation must be an image file, configured fluently',
+            examples: ['Rule::imageFile()->max(1024)'],
+            builder: 'file',
+            since: '10.0'
+        },
+        {
+            name: 'array',
+            description: 'The field under validation must be an array with only the given keys',
+            parameters: [{ name: 'keys', type: 'array', required: false, description: 'Allowed keys' }],
+            examples: ["Rule::array(['name', 'email'])"],
+            since: '11.0'
+        },
+        {
+            name: 'date',
+            description: 'The field under validation must be a date, configured fluently',
+            examples: ["Rule::date()->format('Y-m-d')->afterToday()"],
+            builder: 'date',
+            since: '11.0'
+        },
+        {
+            name: 'contains',
+            description: 'The field under validation must be an array that contains all of the given values',
+            parameters: [{ name: 'values', type: 'array', required: true, description: 'Required values' }],
+            examples: ["Rule::contains(['admin'])"],
+            since: '11.0'
+        },
+        {
+            name: 'numeric',
+            description: 'The field under validation must be numeric, configured fluently',
+            examples: ['Rule::numeric()->integer()->min(1)'],
+            builder: 'numeric',
+            since: '12.0'
+        },
+        {
+            name: 'email',
+            description: 'The field under validation must be an email address, configured fluently',
+            examples: ['Rule::email()->rfcCompliant()->validateMxRecord()'],
+            builder: 'email',
+            since: '12.0'
+        },
+        {
+            name: 'anyOf',
+            description: 'The field under validation must pass at least one of the given rule sets',
+            parameters: [{ name: 'rules', type: 'array', required: true, description: 'Alternative rule sets' }],
+            examples: ["Rule::anyOf([['string', 'email'], ['string', 'uuid']])"],
+            since: '12.0'
+        },
+        {
+            name: 'doesntContain',
+            description: 'The field under validation must be an array that does not contain any of the given values',
+            parameters: [{ name: 'values', type: 'array', required: true, description: 'Forbidden values' }],
+            examples: ["Rule::doesntContain(['root'])"],
+            since: '12.0'
+        }
+    ],
+    Password: [
+        {
+            name: 'min',
+            description: 'The password must have at least the given number of characters',
+            parameters: [{ name: 'size', type: 'integer', required: true, description: 'Minimum length', examples: ['8'] }],
+            examples: ['Password::min(8)->mixedCase()->numbers()'],
+            builder: 'password',
+            since: '8.0'
+        },
+        {
+            name: 'defaults',
+            description: 'Use, or define from a service provider, the application\'s default password rule',
+            parameters: [{ name: 'callback', type: 'Closure', required: false, description: 'Closure returning the default rule' }],
+            examples: ['Password::defaults()'],
+            builder: 'password',
+            since: '8.0'
+        },
+        {
+            name: 'required',
+            description: 'The default password rule combined with required',
+            examples: ['Password::required()'],
+            since: '9.0'
+        },
+        {
+            name: 'sometimes',
+            description: 'The default password rule combined with sometimes',
+            examples: ['Password::sometimes()'],
+            since: '9.0'
+        }
+    ],
+    File: [
+        {
+            name: 'types',
+            description: 'The file must have one of the given MIME types or extensions',
+            parameters: [{ name: 'mimetypes', type: 'array|string', required: true, description: 'Extensions or MIME types', examples: ["['pdf', 'docx']"] }],
+            examples: ["File::types(['pdf', 'docx'])->max(1024)"],
+            builder: 'file',
+            since: '9.0'
+        },
+        {
+            name: 'image',
+            description: 'The file must be an image',
+            parameters: [{ name: 'allowSvg', type: 'bool', required: false, description: 'Also accept SVG images' }],
+            examples: ['File::image()->max(2048)->dimensions(Rule::dimensions()->maxWidth(1000))'],
+            builder: 'file',
+            since: '9.0'
+        },
+        {
+            name: 'default',
+            description: 'Use, or define from a service provider, the application\'s default file rule',
+            parameters: [{ name: 'callback', type: 'Closure', required: false, description: 'Closure returning the default rule' }],
+            examples: ['File::default()'],
+            builder: 'file',
+            since: '9.0'
+        }
+    ]
+};
+
+// Fluent methods of the objects returned by the factories
+export const RULE_OBJECT_BUILDERS: Record<string, RuleObjectMethod[]> = {
+    unique: [
+        {
+            name: 'ignore',
+            description: 'Ignore the given ID, or model, during the unique check',
+            parameters: [
+                { name: 'id', type: 'mixed', required: true, description: 'ID or model to ignore', examples: ['$this->user'] },
+                { name: 'idColumn', type: 'string', required: false, description: 'ID column name' }
+            ],
+            examples: ['->ignore($this->user)', "->ignore($user->id, 'user_id')"]
+        },
+        {
+            name: 'ignoreModel',
+            description: 'Ignore the given model during the unique check',
+            parameters: [
+                { name: 'model', type: 'Model', required: true, description: 'Model to ignore' },
+                { name: 'idColumn', type: 'string', required: false, description: 'ID column name' }
+            ],
+            examples: ['->ignoreModel($user)']
+        },
+        ...DATABASE_BUILDER,
+        ...CONDITIONABLE
+    ],
+    exists: [...DATABASE_BUILDER, ...CONDITIONABLE],
+    enum: [
+        {
+            name: 'only',
+            description: 'Only accept the given enum cases',
+            parameters: [{ name: 'values', type: 'array', required: true, description: 'Allowed cases' }],
+            examples: ['->only([Status::Draft, Status::Published])'],
+            since: '11.0'
+        },
+        {
+            name: 'except',
+            description: 'Accept every enum case except the given ones',
+            parameters: [{ name: 'values', type: 'array', required: true, description: 'Rejected cases' }],
+            examples: ['->except([Status::Archived])'],
+            since: '11.0'
+        },
+        ...CONDITIONABLE
+    ],
+    dimensions: ['width', 'height', 'minWidth', 'minHeight', 'maxWidth', 'maxHeight'].map((name): RuleObjectMethod => ({
+        name,
+        description: `Set the ${name.replace(/([A-Z])/g, ' $1').toLowerCase()} constraint in pixels`,
+        parameters: [{ name: 'value', type: 'integer', required: true, description: 'Pixels' }],
+        examples: [`->${name}(1000)`]
+    })).concat([{
+        name: 'ratio',
+        description: 'Set the width / height ratio constraint',
+        parameters: [{ name: 'value', type: 'float', required: true, description: 'Ratio such as 3 / 2' }],
+        examples: ['->ratio(3 / 2)']
+    }], CONDITIONABLE),
+    password: [
+        {
+            name: 'max',
+            description: 'The password must not exceed the given number of characters',
+            parameters: [{ name: 'size', type: 'integer', required: true, description: 'Maximum length', examples: ['64'] }],
+            examples: ['->max(64)'],
+            since: '10.0'
+        },
+        {
+            name: 'letters',
+            description: 'The password must contain at least one letter',
+            examples: ['->letters()']
+        },
+        {
+            name: 'mixedCase',
+            description: 'The password must contain at least one uppercase and one lowercase letter',
+            examples: ['->mixedCase()']
+        },
+        {
+            name: 'numbers',
+            description: 'The password must contain at least one number',
+            examples: ['->numbers()']
+        },
+        {
+            name: 'symbols',
+            description: 'The password must contain at least one symbol',
+            examples: ['->symbols()']
+        },
+        {
+            name: 'uncompromised',
+            description: 'The password must not appear in a data leak (checked against haveibeenpwned.com)',
+            parameters: [{ name: 'threshold', type: 'integer', required: false, description: 'Allowed number of appearances', examples: ['0'] }],
+            examples: ['->uncompromised()', '->uncompromised(3)']
+        },
+        {
+            name: 'rules',
+            description: 'Additional rules applied to the password',
+            parameters: [{ name: 'rules', type: 'array|string', required: true, description: 'Extra validation rules' }],
+            examples: ["->rules(['not_in:password'])"]
+        },
+        ...CONDITIONABLE
+    ],
+    file: [
+        {
+            name: 'min',
+            description: 'The file must be at least the given size',
+            parameters: [SIZE],
+            examples: ['->min(1024)', "->min('1mb')"]
+        },
+        {
+            name: 'max',
+            description: 'The file must not exceed the given size',
+            parameters: [SIZE],
+            examples: ['->max(12 * 1024)', "->max('10mb')"]
+        },
+        {
+            name: 'between',
+            description: 'The file size must be between the given sizes',
+            parameters: [{ ...SIZE, name: 'minSize' }, { ...SIZE, name: 'maxSize' }],
+            examples: ['->between(1024, 4096)']
+        },
+        {
+            name: 'exactly',
+            description: 'The file must be exactly the given size',
+            parameters: [SIZE],
+            examples: ['->exactly(1024)'],
+            since: '10.0'
+        },
+        {
+            name: 'types',
+            description: 'The file must have one of the given MIME types or extensions',
+            parameters: [{ name: 'mimetypes', type: 'array|string', required: true, description: 'Extensions or MIME types' }],
+            examples: ["->types(['pdf', 'docx'])"]
+        },
+        {
+            name: 'extensions',
+            description: 'The file must have one of the given user-assigned extensions',
+            parameters: [{ name: 'extensions', type: 'array|string', required: true, description: 'Extensions' }],
+            examples: ["->extensions(['jpg', 'png'])"],
+            since: '11.0'
+        },
+        {
+            name: 'dimensions',
+            description: 'The image must meet the dimension constraints',
+            parameters: [{ name: 'dimensions', type: 'Dimensions', required: true, description: 'Rule::dimensions() object' }],
+            examples: ['->dimensions(Rule::dimensions()->maxWidth(1000))']
+        },
+        {
+            name: 'rules',
+            description: 'Additional rules applied to the file',
+            parameters: [{ name: 'rules', type: 'array|string', required: true, description: 'Extra validation rules' }],
+            examples: ["->rules(['mimetypes:application/pdf'])"]
+        },
+        ...CONDITIONABLE
+    ],
+    date: [
+        { name: 'format', description: 'The date must match the given format', parameters: [{ name: 'format', type: 'string', required: true, description: 'Date format' }], examples: ["->format('Y-m-d')"] },
+        { name: 'after', description: 'The date must be after the given date', parameters: [DATE], examples: ["->after(today()->addDays(7))"] },
+        { name: 'afterOrEqual', description: 'The date must be after or equal to the given date', parameters: [DATE], examples: ["->afterOrEqual('start_date')"] },
+        { name: 'before', description: 'The date must be before the given date', parameters: [DATE], examples: ["->before('end_date')"] },
+        { name: 'beforeOrEqual', description: 'The date must be before or equal to the given date', parameters: [DATE], examples: ["->beforeOrEqual(today())"] },
+        { name: 'between', description: 'The date must be between the given dates', parameters: [{ ...DATE, name: 'from' }, { ...DATE, name: 'to' }], examples: ["->between('2020-01-01', '2030-01-01')"] },
+        { name: 'afterToday', description: 'The date must be after today', examples: ['->afterToday()'] },
+        { name: 'beforeToday', description: 'The date must be before today', examples: ['->beforeToday()'] },
+        { name: 'todayOrAfter', description: 'The date must be today or after', examples: ['->todayOrAfter()'] },
+        { name: 'todayOrBefore', description: 'The date must be today or before', examples: ['->todayOrBefore()'] },
+        ...CONDITIONABLE
+    ],
+    numeric: [
+        { name: 'integer', description: 'The number must be an integer', examples: ['->integer()'] },
+        { name: 'decimal', description: 'The number must have the given decimal places', parameters: [{ name: 'min', type: 'integer', required: true, description: 'Minimum decimal places' }, { name: 'max', type: 'integer', required: false, description: 'Maximum decimal places' }], examples: ['->decimal(2)'] },
+        { name: 'min', description: 'The number must be at least the given value', parameters: [{ name: 'value', type: 'number', required: true, description: 'Minimum' }], examples: ['->min(1)'] },
+        { name: 'max', description: 'The number must not exceed the given value', parameters: [{ name: 'value', type: 'number', required: true, description: 'Maximum' }], examples: ['->max(100)'] },
+        { name: 'between', description: 'The number must be between the given values', parameters: [{ name: 'min', type: 'number', required: true, description: 'Minimum' }, { name: 'max', type: 'number', required: true, description: 'Maximum' }], examples: ['->between(1, 10)'] },
+        { name: 'multipleOf', description: 'The number must be a multiple of the given value', parameters: [{ name: 'value', type: 'number', required: true, description: 'Divisor' }], examples: ['->multipleOf(5)'] },
+        { name: 'greaterThan', description: 'The number must be greater than the given field', parameters: [FIELD], examples: ["->greaterThan('min_price')"] },
+        { name: 'lessThan', description: 'The number must be less than the given field', parameters: [FIELD], examples: ["->lessThan('max_price')"] },
+        ...CONDITIONABLE
+    ],
+    email: [
+        { name: 'rfcCompliant', description: 'Validate against RFC 5322', parameters: [{ name: 'strict', type: 'bool', required: false, description: 'Strict RFC validation' }], examples: ['->rfcCompliant()'] },
+        { name: 'strict', description: 'Validate against RFC 5322 without warnings', examples: ['->strict()'] },
+        { name: 'validateMxRecord', description: 'The domain must have a valid MX record', examples: ['->validateMxRecord()'] },
+        { name: 'preventSpoofing', description: 'Reject homograph and deceptive Unicode characters', examples: ['->preventSpoofing()'] },
+        { name: 'withNativeValidation', description: 'Validate with PHP\'s filter_var', parameters: [{ name: 'allowUnicode', type: 'bool', required: false, description: 'Allow Unicode characters' }], examples: ['->withNativeValidation()'] },
+        ...CONDITIONABLE
+    ]
+};
@@ -76,6 +76,48 @@ export class LaravelDetector {
         }
     }
 
+    /**
+     * Check if a feature released in `since` (and removed in `removedIn`) exists for a
+     * composer constraint such as "^11.0", "10.*" or "^9.0|^10.0". Releases from 6.0 on
+     * are compared by major version only, since any minor of a major may be installed.
+     */
+    static supportsVersion(constraint: string | null, since?: string, removedIn?: string): boolean {
+        const version = constraint ? this.parseVersionConstraint(constraint) : null;
+        if (!version) {
+            return true;
+        }
+
+        if (since && this.compareReleases(version, since) < 0) {
+            return false;
+        }
+        if (removedIn && this.compareReleases(version, removedIn) >= 0) {
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Lower bound of the newest alternative in a composer constraint, e.g. "^9.0|^10.2" => [10, 2]
+     */
+    static parseVersionConstraint(constraint: string): [number, number] | null {
+        const versions = constraint.split(/\s*\|\|?\s*/)
+            .map(alternative => alternative.match(/(\d+)(?:\.(\d+))?/))
+            .filter((match): match is RegExpMatchArray => match !== null)
+            .map(match => [parseInt(match[1], 10), parseInt(match[2] || '0', 10)] as [number, number])
+            .sort((a, b) => b[0] - a[0] || b[1] - a[1]);
+
+        return versions[0] || null;
+    }
+
+    private static compareReleases(version: [number, number], release: string): number {
+        const [major, minor] = release.split('.').map(part => parseInt(part, 10));
+        if (version[0] !== major) {
+            return version[0] - major;
+        }
+        // Before 6.0 every minor version was a separate release
+        return major < 6 ? version[1] - (minor || 0) : 0;
+    }
+
     /**
      * Check if specific Laravel features are available
      */
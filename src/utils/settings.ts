@@ -14,6 +14,11 @@ export class LaravelSettings {
             .get('codeLens.controller.enabled', true);
     }
 
+    static get showUnroutedLens(): boolean {
+        return vscode.workspace.getConfiguration(this.EXTENSION_ID)
+            .get('codeLens.controller.showUnrouted', true);
+    }
+
     static get showMiddleware(): boolean {
         return vscode.workspace.getConfiguration(this.EXTENSION_ID)
             .get('routes.showMiddleware', false);
@@ -29,6 +34,21 @@ export class LaravelSettings {
             .get('inlayHints.style', 'compact');
     }
 
+    static get routeSource(): 'static' | 'artisan' | 'file' {
+        return vscode.workspace.getConfiguration(this.EXTENSION_ID)
+            .get('routes.source', 'static');
+    }
+
+    static get phpCommand(): string {
+        return vscode.workspace.getConfiguration(this.EXTENSION_ID)
+            .get('routes.phpCommand', 'php');
+    }
+
+    static get routeListFile(): string {
+        return vscode.workspace.getConfiguration(this.EXTENSION_ID)
+            .get('routes.routeListFile', '');
+    }
+
     // Completion settings
     static get modelsEnabled(): boolean {
         return vscode.workspace.getConfiguration(this.EXTENSION_ID)
@@ -50,6 +70,11 @@ export class LaravelSettings {
             .get('completion.translations.enabled', true);
     }
 
+    static get routesCompletionEnabled(): boolean {
+        return vscode.workspace.getConfiguration(this.EXTENSION_ID)
+            .get('completion.routes.enabled', true);
+    }
+
     // Validation settings
     static get validationEnabled(): boolean {
         return vscode.workspace.getConfiguration(this.EXTENSION_ID)
@@ -90,15 +115,20 @@ export class LaravelSettings {
             // Route settings
             'inlayHints.routes.enabled': config.get('inlayHints.routes.enabled'),
             'codeLens.controller.enabled': config.get('codeLens.controller.enabled'),
+            'codeLens.controller.showUnrouted': config.get('codeLens.controller.showUnrouted'),
             'routes.showMiddleware': config.get('routes.showMiddleware'),
             'routes.showParameters': config.get('routes.showParameters'),
             'inlayHints.style': config.get('inlayHints.style'),
+            'routes.source': config.get('routes.source'),
+            'routes.phpCommand': config.get('routes.phpCommand'),
+            'routes.routeListFile': config.get('routes.routeListFile'),
             
             // Completion settings
             'completion.models.enabled': config.get('completion.models.enabled'),
             'completion.views.enabled': config.get('completion.views.enabled'),
             'completion.requests.enabled': config.get('completion.requests.enabled'),
             'completion.translations.enabled': config.get('completion.translations.enabled'),
+            'completion.routes.enabled': config.get('completion.routes.enabled'),
             
             // Validation settings
             'validation.enabled': config.get('validation.enabled'),